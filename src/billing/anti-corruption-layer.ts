@@ -0,0 +1,70 @@
+// ======================================================
+// This file contains the anti-corruption layer between the OrderTaking context and the Billing context
+//
+// The BillableOrderPlaced event is the only thing the Billing context knows about OrderTaking.
+// It is translated into the language of the Billing context here, so that nothing else
+// in the Billing context depends on how OrderTaking models an order.
+// See "Anti-Corruption Layers" in chapter 3
+// ======================================================
+
+import * as A from 'fp-ts/Array';
+import * as E from 'fp-ts/Either';
+import { pipe } from 'fp-ts/function';
+import * as O from 'fp-ts/Option';
+import { isAlike } from '../order-taking/common-types/constrained-type';
+import { Money } from '../order-taking/common-types';
+import { BillableOrder, BillingAddress } from './public-types';
+import { AddressLine, OrderReference, ZipCode } from './simple-types';
+
+import type { ErrPrimitiveConstraints } from '../order-taking/common-types/constrained-type';
+import type { AddressDto, BillableOrderPlacedDto } from '../order-taking/place-order/dto';
+
+/// The BillableOrderPlaced event could not be understood, e.g. because OrderTaking has changed what it sends
+declare const untranslatableOrder: unique symbol;
+export class UntranslatableOrder extends Error {
+  [untranslatableOrder]!: never;
+  constructor(
+    readonly orderId: string,
+    readonly cause: ErrPrimitiveConstraints,
+  ) {
+    super(`BillableOrderPlaced ${orderId} cannot be invoiced: ${cause.message}`);
+  }
+}
+
+// -------------------------------
+// translations
+// -------------------------------
+
+const toBillingAddress = (address: AddressDto): E.Either<ErrPrimitiveConstraints, BillingAddress> => pipe(
+  E.Do,
+  E.bind('lines', () => pipe(
+    [O.some(address.addressLine1), address.addressLine2, address.addressLine3, address.addressLine4],
+    A.compact,
+    E.traverseArray(AddressLine.create),
+  )),
+  E.bind('city', () => AddressLine.create(address.city)),
+  E.bind('zipCode', () => ZipCode.create(address.zipCode)),
+  E.map(scope => new BillingAddress(scope.lines, scope.city, scope.zipCode)),
+);
+
+// -------------------------------
+// the anti-corruption layer itself
+// -------------------------------
+
+export const toBillableOrder = (dto: BillableOrderPlacedDto): E.Either<UntranslatableOrder, BillableOrder> => pipe(
+  E.Do,
+  E.bind('orderReference', () => OrderReference.create(dto.orderId)),
+  E.bind('billingAddress', () => toBillingAddress(dto.billingAddress)),
+  E.bind('currency', () => isAlike(/^[A-Z]{3}$/)(dto.currency)),
+  E.bind('amountToBill', ({ currency }) => Money.fromDecimal(dto.amountToBill, currency)),
+  E.bind('taxTotal', ({ currency }) => Money.fromDecimal(dto.taxTotal, currency)),
+  E.bind('shippingCost', ({ currency }) => Money.fromDecimal(dto.shippingInfo.shippingCost, currency)),
+  E.map(scope => new BillableOrder(
+    scope.orderReference,
+    scope.billingAddress,
+    scope.amountToBill,
+    scope.taxTotal,
+    scope.shippingCost,
+  )),
+  E.mapLeft(err => new UntranslatableOrder(dto.orderId, err)),
+);
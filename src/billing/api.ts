@@ -0,0 +1,59 @@
+// ======================================================
+// This file contains the interface between the CreateInvoice workflow and the OrderTaking context
+//
+// 1) The BillableOrderPlaced event is translated by the anti-corruption layer into a Domain object
+// 2) The main workflow function is called
+// 3) The output is turned into DTOs which are published
+// ======================================================
+
+import * as A from 'fp-ts/Array';
+import { pipe } from 'fp-ts/function';
+import * as TE from 'fp-ts/TaskEither';
+import { toBillableOrder } from './anti-corruption-layer';
+import { createInvoiceEventDtoFromDomain } from './dto';
+import { createInvoice } from './implementation';
+import { AlreadyInvoiced, InvoiceLedgerError } from './public-types';
+
+import type { EventHandler } from '../order-taking/place-order/event-dispatcher';
+import type { BillableOrderPlacedDto } from '../order-taking/place-order/dto';
+import type { GetPaymentTerms, GetToday } from './implementation.types';
+import type { InvoiceLedger } from './invoice-ledger';
+import type { CreateInvoiceEventDto } from './dto';
+
+// =============================
+// Implementation
+// =============================
+
+/// The dependencies of the CreateInvoice workflow, and of the handler around it.
+/// They are set up once, at the composition root.
+export type BillingDependencies = {
+  readonly getPaymentTerms: GetPaymentTerms;
+  readonly getToday: GetToday;
+  readonly invoiceLedger: InvoiceLedger;
+  readonly invoiceEvents: CreateInvoiceEventDto[]; // the events of the invoices, in the order they were issued
+};
+
+// -------------------------------
+// workflow
+// -------------------------------
+
+/// Invoice each order which is placed, by handling the BillableOrderPlaced events from the outbox.
+/// An order which was already invoiced is not invoiced again, as an event can be delivered more than once.
+export const createInvoicePlacedOrders = (deps: BillingDependencies): EventHandler<BillableOrderPlacedDto> => dto => pipe(
+  toBillableOrder(dto), // convert to domain object
+  TE.fromEither,
+  // now we are in the pure domain
+  TE.flatMap(createInvoice(
+    // setup the dependencies. See "Injecting Dependencies" in chapter 9
+    deps.getPaymentTerms,
+    deps.getToday,
+    deps.invoiceLedger.issue,
+  )),
+  // now convert from the pure domain back to DTOs
+  TE.map(A.map(createInvoiceEventDtoFromDomain)),
+  TE.flatMapIO(events => () => {
+    deps.invoiceEvents.push(...events);
+  }),
+  TE.orElse(err => err instanceof AlreadyInvoiced ? TE.right(undefined) : TE.left(err)),
+  TE.mapLeft(err => err instanceof InvoiceLedgerError ? err.exception : err),
+);
@@ -0,0 +1,135 @@
+// ======================================================
+// This file contains the DTOs for the events of the CreateInvoice workflow
+//
+// As in the OrderTaking context, each type of DTO is defined using primitive, serializable types
+// and there is a `fromDomain` function defined for each DTO.
+// The events only leave the Billing context, so there is no `toDomain`.
+// ======================================================
+
+import * as C from '../libs/codec';
+import { ValueObject } from '../libs/model-type';
+
+import type { BillingAddress, CreateInvoiceEvent, InvoiceIssued, InvoiceLine } from './public-types';
+
+//===============================================
+// DTO for BillingAddress
+//===============================================
+
+export class BillingAddressDto extends ValueObject {
+  constructor(
+    readonly lines: string[],
+    readonly city: string,
+    readonly zipCode: string,
+  ) { super() }
+
+  static readonly codec: C.Codec<BillingAddressDto> = C.classOf(
+    BillingAddressDto,
+    { lines: C.array(C.string), city: C.string, zipCode: C.string },
+    p => new BillingAddressDto(p.lines, p.city, p.zipCode),
+  );
+
+  /// Convert a BillingAddress object into the corresponding DTO.
+  /// Used when exporting from the domain to the outside world.
+  static fromDomain(domainObj: BillingAddress): BillingAddressDto {
+    return new BillingAddressDto(domainObj.lines.map(line => line.value), domainObj.city.value, domainObj.zipCode.value);
+  }
+}
+
+//===============================================
+// DTO for InvoiceLine
+//===============================================
+
+export class InvoiceLineDto extends ValueObject {
+  constructor(
+    readonly kind: string, // "Goods", "Shipping" or "SalesTax"
+    readonly amount: string, // an exact decimal, e.g. "12.50"
+  ) { super() }
+
+  static readonly codec: C.Codec<InvoiceLineDto> = C.classOf(
+    InvoiceLineDto,
+    { kind: C.string, amount: C.string },
+    p => new InvoiceLineDto(p.kind, p.amount),
+  );
+
+  /// Convert a InvoiceLine object into the corresponding DTO.
+  /// Used when exporting from the domain to the outside world.
+  static fromDomain(domainObj: InvoiceLine): InvoiceLineDto {
+    return new InvoiceLineDto(domainObj.kind, domainObj.amount.toDecimalString());
+  }
+}
+
+//===============================================
+// DTO for InvoiceIssued event
+//===============================================
+
+/// Event to send to the customer, and to the accounting systems
+export class InvoiceIssuedDto extends ValueObject {
+  constructor(
+    readonly invoiceNumber: number,
+    readonly orderId: string,
+    readonly billingAddress: BillingAddressDto,
+    readonly lines: InvoiceLineDto[],
+    readonly total: string, // an exact decimal, e.g. "12.50"
+    readonly currency: string, // the currency of every amount in the invoice
+    readonly paymentTerms: string, // e.g. "Net30"
+    readonly issuedOn: string, // e.g. "2024-03-01"
+    readonly dueOn: string, // e.g. "2024-03-31"
+  ) { super() }
+
+  static readonly codec: C.Codec<InvoiceIssuedDto> = C.classOf(
+    InvoiceIssuedDto,
+    {
+      invoiceNumber: C.number,
+      orderId: C.string,
+      billingAddress: BillingAddressDto.codec,
+      lines: C.array(InvoiceLineDto.codec),
+      total: C.string,
+      currency: C.string,
+      paymentTerms: C.string,
+      issuedOn: C.string,
+      dueOn: C.string,
+    },
+    p => new InvoiceIssuedDto(
+      p.invoiceNumber,
+      p.orderId,
+      p.billingAddress,
+      p.lines,
+      p.total,
+      p.currency,
+      p.paymentTerms,
+      p.issuedOn,
+      p.dueOn,
+    ),
+  );
+
+  /// Convert a InvoiceIssued object into the corresponding DTO.
+  /// Used when exporting from the domain to the outside world.
+  static fromDomain({ invoice }: InvoiceIssued): InvoiceIssuedDto {
+    return new InvoiceIssuedDto(
+      invoice.invoiceNumber.value,
+      invoice.orderReference.value,
+      BillingAddressDto.fromDomain(invoice.billingAddress),
+      invoice.lines.map(InvoiceLineDto.fromDomain),
+      invoice.total.toDecimalString(),
+      invoice.total.currency,
+      invoice.paymentTerms,
+      invoice.issuedOn.toIsoString(),
+      invoice.dueOn.toIsoString(),
+    );
+  }
+}
+
+//===============================================
+// DTO for CreateInvoiceEvent
+//===============================================
+
+/// Use a dictionary representation of a CreateInvoiceEvent, suitable for JSON
+/// See "Serializing Records and Choice Types Using Maps" in chapter 11
+export type CreateInvoiceEventDto = { InvoiceIssued: InvoiceIssuedDto };
+
+export const createInvoiceEventDtoCodec: C.Codec<CreateInvoiceEventDto> = C.struct({ InvoiceIssued: InvoiceIssuedDto.codec });
+
+/// Convert a CreateInvoiceEvent into the corresponding DTO.
+/// Used when exporting from the domain to the outside world.
+export const createInvoiceEventDtoFromDomain = (domainObj: CreateInvoiceEvent): CreateInvoiceEventDto =>
+  ({ InvoiceIssued: InvoiceIssuedDto.fromDomain(domainObj) });
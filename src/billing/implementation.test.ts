@@ -0,0 +1,106 @@
+import { describe, expect, it } from '@jest/globals';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import * as TE from 'fp-ts/TaskEither';
+import { Money } from '../order-taking/common-types';
+import { createInvoice } from './implementation';
+import { createInMemoryInvoiceLedger } from './invoice-ledger';
+import { AlreadyInvoiced, BillableOrder, BillingAddress, InconsistentAmounts, InvoiceLedgerError } from './public-types';
+import {
+  AddressLine,
+  CalendarDate,
+  DueOnReceipt,
+  InvoiceNumber,
+  Net15,
+  Net30,
+  OrderReference,
+  ZipCode,
+} from './simple-types';
+
+import type { GetPaymentTerms, GetToday } from './implementation.types';
+import type { CreateInvoiceError, CreateInvoiceEvent, Invoice } from './public-types';
+
+const billingAddress = new BillingAddress([AddressLine.unsafeCreate('1 Main St')], AddressLine.unsafeCreate('Springfield'), ZipCode.unsafeCreate('94105'));
+
+const usd = (decimal: string) => Money.unsafeFromDecimal(decimal, 'USD');
+
+const orderOf = (orderId: string, amountToBill: string, taxTotal: string, shippingCost: string) =>
+  new BillableOrder(OrderReference.unsafeCreate(orderId), billingAddress, usd(amountToBill), usd(taxTotal), usd(shippingCost));
+
+/// 2024-03-31
+const getToday: GetToday = () => CalendarDate.fromEpochMs(Date.UTC(2024, 2, 31, 15));
+
+/// Orders of 100.00 or more are given 30 days, others 15
+const getPaymentTerms: GetPaymentTerms = order => order.amountToBill.compare(usd('100')) >= 0 ? Net30 : Net15;
+
+const invoiceOf = async (result: Promise<E.Either<CreateInvoiceError, CreateInvoiceEvent[]>>) => {
+  const events = await result;
+  if (E.isLeft(events)) throw events.left;
+  return events.right[0].invoice;
+};
+
+/// The lines of an invoice, e.g. "Goods 10.00"
+const linesOf = (invoice: Invoice) =>
+  invoice.lines.map(line => `${line.kind} ${line.amount.toDecimalString()}`);
+
+describe('createInvoice', () => {
+  it('breaks the amount to bill down into the goods, the shipping and the tax', async () => {
+    const invoice = await invoiceOf(createInvoice(getPaymentTerms, getToday, createInMemoryInvoiceLedger().issue)(orderOf('order-1', '21.45', '1.45', '5.00'))());
+
+    expect(linesOf(invoice)).toEqual(['Goods 15.00', 'Shipping 5.00', 'SalesTax 1.45']);
+    expect(invoice.total.toDecimalString()).toBe('21.45');
+    expect(invoice.orderReference.value).toBe('order-1');
+    expect(invoice.billingAddress).toBe(billingAddress);
+  });
+
+  it('leaves out the shipping and the tax when there is nothing to pay for them, but always bills the goods', async () => {
+    const issue = createInMemoryInvoiceLedger().issue;
+
+    const free = await invoiceOf(createInvoice(getPaymentTerms, getToday, issue)(orderOf('order-1', '15.00', '0', '0'))());
+    const nothing = await invoiceOf(createInvoice(getPaymentTerms, getToday, issue)(orderOf('order-2', '0', '0', '0'))());
+
+    expect(linesOf(free)).toEqual(['Goods 15.00']);
+    expect(linesOf(nothing)).toEqual(['Goods 0.00']);
+  });
+
+  it('gives the customer the payment terms of the order, and makes the invoice due that many days after today', async () => {
+    const issue = createInMemoryInvoiceLedger().issue;
+
+    const small = await invoiceOf(createInvoice(getPaymentTerms, getToday, issue)(orderOf('order-1', '20.00', '0', '0'))());
+    const large = await invoiceOf(createInvoice(getPaymentTerms, getToday, issue)(orderOf('order-2', '200.00', '0', '0'))());
+    const onReceipt = await invoiceOf(createInvoice(() => DueOnReceipt, getToday, issue)(orderOf('order-3', '20.00', '0', '0'))());
+
+    expect([small, large, onReceipt].map(invoice => invoice.paymentTerms)).toEqual([Net15, Net30, DueOnReceipt]);
+    expect([small, large, onReceipt].map(invoice => invoice.issuedOn.toIsoString())).toEqual(['2024-03-31', '2024-03-31', '2024-03-31']);
+    expect([small, large, onReceipt].map(invoice => invoice.dueOn.toIsoString())).toEqual(['2024-04-15', '2024-04-30', '2024-03-31']);
+  });
+
+  it('does not issue an invoice for an order whose tax and shipping are more than its amount to bill', async () => {
+    const ledger = createInMemoryInvoiceLedger();
+    const order = orderOf('order-1', '5.00', '1.00', '5.00');
+
+    const result = await createInvoice(getPaymentTerms, getToday, ledger.issue)(order)();
+
+    expect(result).toEqual(E.left(new InconsistentAmounts(order.orderReference)));
+    expect(await ledger.findByOrder(order.orderReference)()).toEqual(E.right(O.none));
+  });
+
+  it('numbers the invoices one after the other, and does not invoice an order twice', async () => {
+    const issue = createInMemoryInvoiceLedger().issue;
+
+    const first = await invoiceOf(createInvoice(getPaymentTerms, getToday, issue)(orderOf('order-1', '20.00', '0', '0'))());
+    const second = await invoiceOf(createInvoice(getPaymentTerms, getToday, issue)(orderOf('order-2', '20.00', '0', '0'))());
+    const again = await createInvoice(getPaymentTerms, getToday, issue)(orderOf('order-1', '20.00', '0', '0'))();
+
+    expect([first, second].map(invoice => invoice.invoiceNumber.value)).toEqual([1, 2]);
+    expect(again).toEqual(E.left(new AlreadyInvoiced(OrderReference.unsafeCreate('order-1'), InvoiceNumber.unsafeCreate(1))));
+  });
+
+  it('fails as the ledger did when it cannot be used', async () => {
+    const failed = new InvoiceLedgerError(new Error('the ledger is locked'));
+
+    const result = await createInvoice(getPaymentTerms, getToday, () => TE.left(failed))(orderOf('order-1', '20.00', '0', '0'))();
+
+    expect(result).toEqual(E.left(failed));
+  });
+});
@@ -0,0 +1,59 @@
+import * as E from 'fp-ts/Either';
+import { pipe } from 'fp-ts/function';
+import * as TE from 'fp-ts/TaskEither';
+import { Money } from '../order-taking/common-types';
+import { DraftInvoice } from './implementation.types';
+import { InconsistentAmounts, InvoiceIssued, InvoiceLine } from './public-types';
+import { daysToPayOf, Goods, SalesTax, Shipping } from './simple-types';
+
+import type { DraftInvoiceStep, GetPaymentTerms, GetToday, IssueInvoice } from './implementation.types';
+import type { CreateInvoice } from './public-types';
+
+// ======================================================
+// This file contains the implementation for the CreateInvoice workflow
+//
+// The order has already been translated into the language of the Billing context,
+// see the anti-corruption layer.
+// ======================================================
+
+// ---------------------------
+// DraftInvoice step
+// ---------------------------
+
+/// The amount to bill is broken down into the goods, the shipping and the tax.
+/// A line with nothing to pay, e.g. free shipping, is left out, but there is always a line for the goods.
+const draftInvoice: DraftInvoiceStep = (getPaymentTerms, getToday) => order => {
+  const goods = order.amountToBill.subtract(order.taxTotal).subtract(order.shippingCost);
+  const paymentTerms = getPaymentTerms(order);
+  const issuedOn = getToday();
+  return goods.compare(Money.zero(goods.currency)) < 0
+    ? E.left(new InconsistentAmounts(order.orderReference))
+    : E.right(new DraftInvoice(
+      order.orderReference,
+      order.billingAddress,
+      [
+        new InvoiceLine(Goods, goods),
+        new InvoiceLine(Shipping, order.shippingCost),
+        new InvoiceLine(SalesTax, order.taxTotal),
+      ].filter(line => line.kind === Goods || line.amount.isPositive()),
+      order.amountToBill,
+      paymentTerms,
+      issuedOn,
+      issuedOn.addDays(daysToPayOf(paymentTerms)),
+    ));
+};
+
+// ---------------------------
+// overall workflow
+// ---------------------------
+
+export const createInvoice = (
+  getPaymentTerms: GetPaymentTerms, // dependency
+  getToday: GetToday, // dependency
+  issueInvoice: IssueInvoice, // dependency
+): CreateInvoice => order => pipe(
+  draftInvoice(getPaymentTerms, getToday)(order),
+  TE.fromEither,
+  TE.flatMap(issueInvoice),
+  TE.map(invoice => [new InvoiceIssued(invoice)]),
+);
@@ -0,0 +1,57 @@
+import { ValueObject } from '../libs/model-type';
+
+import type * as E from 'fp-ts/Either';
+import type * as TE from 'fp-ts/TaskEither';
+import type { Money } from '../order-taking/common-types';
+import type {
+  AlreadyInvoiced,
+  BillableOrder,
+  BillingAddress,
+  InconsistentAmounts,
+  Invoice,
+  InvoiceLedgerError,
+  InvoiceLine,
+} from './public-types';
+import type { CalendarDate, OrderReference, PaymentTerms } from './simple-types';
+
+// ======================================================
+// Define each step in the CreateInvoice workflow using types
+// ======================================================
+
+// ---------------------------
+// Draft invoice step
+// ---------------------------
+
+/// An invoice which has not been given a number yet
+export class DraftInvoice extends ValueObject {
+  constructor(
+    readonly orderReference: OrderReference,
+    readonly billingAddress: BillingAddress,
+    readonly lines: readonly InvoiceLine[],
+    readonly total: Money,
+    readonly paymentTerms: PaymentTerms,
+    readonly issuedOn: CalendarDate,
+    readonly dueOn: CalendarDate,
+  ) { super() }
+}
+
+/// The terms the customer is given, e.g. depending on the amount
+export type GetPaymentTerms = (i: BillableOrder) => PaymentTerms;
+
+/// The day on which the invoice is issued
+export type GetToday = () => CalendarDate;
+
+export type DraftInvoiceStep = (
+  dep1: GetPaymentTerms, // dependency
+  dep2: GetToday, // dependency
+) => (
+  i: BillableOrder, // input
+) => E.Either<InconsistentAmounts, DraftInvoice>; // output
+
+// ---------------------------
+// Issue invoice step
+// ---------------------------
+
+/// Give the draft the next invoice number and record it, unless the order has already been invoiced.
+/// The check and the numbering must be atomic, so that no order is invoiced twice and no number is skipped.
+export type IssueInvoice = (i: DraftInvoice) => TE.TaskEither<AlreadyInvoiced | InvoiceLedgerError, Invoice>;
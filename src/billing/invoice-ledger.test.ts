@@ -0,0 +1,74 @@
+import { describe, expect, it } from '@jest/globals';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import { Money } from '../order-taking/common-types';
+import { DraftInvoice } from './implementation.types';
+import { createInMemoryInvoiceLedger } from './invoice-ledger';
+import { AlreadyInvoiced, BillingAddress, InvoiceLine } from './public-types';
+import { AddressLine, CalendarDate, Goods, InvoiceNumber, Net30, OrderReference, ZipCode } from './simple-types';
+
+import type { InvoiceLedger } from './invoice-ledger';
+
+const billingAddress = new BillingAddress([AddressLine.unsafeCreate('1 Main St')], AddressLine.unsafeCreate('Springfield'), ZipCode.unsafeCreate('94105'));
+
+const draftOf = (orderId: string) => {
+  const total = Money.unsafeFromDecimal('20.00', 'USD');
+  const issuedOn = new CalendarDate(19_813);
+  return new DraftInvoice(
+    OrderReference.unsafeCreate(orderId),
+    billingAddress,
+    [new InvoiceLine(Goods, total)],
+    total,
+    Net30,
+    issuedOn,
+    issuedOn.addDays(30),
+  );
+};
+
+/// The number of the invoice issued for the order, or why none was
+const numberOf = async (ledger: InvoiceLedger, orderId: string) => {
+  const invoice = await ledger.issue(draftOf(orderId))();
+  return E.isRight(invoice) ? invoice.right.invoiceNumber.value : invoice.left;
+};
+
+describe('the in-memory invoice ledger', () => {
+  it('issues the draft as it is, with the next invoice number', async () => {
+    const ledger = createInMemoryInvoiceLedger();
+    const draft = draftOf('order-1');
+
+    const invoice = await ledger.issue(draft)();
+
+    expect(E.isRight(invoice) && invoice.right).toEqual(expect.objectContaining({
+      invoiceNumber: InvoiceNumber.unsafeCreate(1),
+      orderReference: draft.orderReference,
+      lines: draft.lines,
+      total: draft.total,
+      paymentTerms: Net30,
+      issuedOn: draft.issuedOn,
+      dueOn: draft.dueOn,
+    }));
+  });
+
+  it('numbers the invoices without gaps, even when an order is invoiced again in between', async () => {
+    const ledger = createInMemoryInvoiceLedger();
+
+    const numbers = [
+      await numberOf(ledger, 'order-1'),
+      await numberOf(ledger, 'order-1'),
+      await numberOf(ledger, 'order-2'),
+    ];
+
+    expect(numbers).toEqual([1, new AlreadyInvoiced(OrderReference.unsafeCreate('order-1'), InvoiceNumber.unsafeCreate(1)), 2]);
+  });
+
+  it('finds the invoice of an order, and None for an order which has not been invoiced', async () => {
+    const ledger = createInMemoryInvoiceLedger();
+    await ledger.issue(draftOf('order-1'))();
+
+    const found = await ledger.findByOrder(OrderReference.unsafeCreate('order-1'))();
+    const notFound = await ledger.findByOrder(OrderReference.unsafeCreate('order-2'))();
+
+    expect(E.isRight(found) && O.isSome(found.right) && found.right.value.invoiceNumber.value).toBe(1);
+    expect(notFound).toEqual(E.right(O.none));
+  });
+});
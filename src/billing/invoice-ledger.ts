@@ -0,0 +1,56 @@
+// ======================================================
+// This file contains the ledger in which the Billing context keeps the invoices it has issued
+//
+// The ledger hands out the invoice numbers, so that they are sequential,
+// and knows which orders have been invoiced, so that no order is invoiced twice.
+// ======================================================
+
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import * as TE from 'fp-ts/TaskEither';
+import { AlreadyInvoiced, Invoice } from './public-types';
+import { InvoiceNumber } from './simple-types';
+
+import type { IssueInvoice } from './implementation.types';
+import type { InvoiceLedgerError } from './public-types';
+import type { OrderReference } from './simple-types';
+
+export type InvoiceLedger = {
+  readonly issue: IssueInvoice;
+  /// Return None if the order has not been invoiced
+  readonly findByOrder: (orderReference: OrderReference) => TE.TaskEither<InvoiceLedgerError, O.Option<Invoice>>;
+};
+
+// -------------------------------
+// in-memory adapter
+// -------------------------------
+
+/// The invoices are kept for as long as the process runs. Meant for tests.
+export const createInMemoryInvoiceLedger = (): InvoiceLedger => {
+  const invoices: Invoice[] = [];
+  const byOrder = new Map<string, Invoice>();
+
+  return {
+    // checking the order and numbering the invoice happen at once, so that no other invoice can come in between
+    issue: draft => TE.fromIOEither(() => {
+      const existing = byOrder.get(draft.orderReference.value);
+      if (existing !== undefined) {
+        return E.left(new AlreadyInvoiced(draft.orderReference, existing.invoiceNumber));
+      }
+      const invoice = new Invoice(
+        InvoiceNumber.unsafeCreate(invoices.length + 1),
+        draft.orderReference,
+        draft.billingAddress,
+        draft.lines,
+        draft.total,
+        draft.paymentTerms,
+        draft.issuedOn,
+        draft.dueOn,
+      );
+      invoices.push(invoice);
+      byOrder.set(draft.orderReference.value, invoice);
+      return E.right(invoice);
+    }),
+    findByOrder: orderReference => TE.fromIO(() => O.fromNullable(byOrder.get(orderReference.value))),
+  };
+};
@@ -0,0 +1,115 @@
+import { TaskEither } from 'fp-ts/TaskEither';
+import { ValueObject } from '../libs/model-type';
+
+import type { Money } from '../order-taking/common-types';
+import type {
+  AddressLine,
+  CalendarDate,
+  InvoiceLineKind,
+  InvoiceNumber,
+  OrderReference,
+  PaymentTerms,
+  ZipCode,
+} from './simple-types';
+
+// ==================================
+// This file contains the definitions of PUBLIC types (exposed at the boundary of the bounded context)
+// related to the CreateInvoice workflow
+// ==================================
+
+// ------------------------------------
+// inputs to the workflow
+
+/// Where to send the invoice
+export class BillingAddress extends ValueObject {
+  constructor(
+    readonly lines: readonly AddressLine[], // the street address, at least one line
+    readonly city: AddressLine,
+    readonly zipCode: ZipCode,
+  ) { super() }
+}
+
+/// An order as the Billing context sees it.
+/// It is translated from the BillableOrderPlaced event, see the anti-corruption layer.
+export class BillableOrder extends ValueObject {
+  constructor(
+    readonly orderReference: OrderReference,
+    readonly billingAddress: BillingAddress,
+    readonly amountToBill: Money, // everything included
+    readonly taxTotal: Money, // included in amountToBill
+    readonly shippingCost: Money, // included in amountToBill
+  ) { super() }
+}
+
+// ------------------------------------
+// outputs from the workflow (success case)
+
+export class InvoiceLine extends ValueObject {
+  constructor(
+    readonly kind: InvoiceLineKind,
+    readonly amount: Money,
+  ) { super() }
+}
+
+/// The invoice document sent to the customer
+export class Invoice extends ValueObject {
+  constructor(
+    readonly invoiceNumber: InvoiceNumber,
+    readonly orderReference: OrderReference,
+    readonly billingAddress: BillingAddress,
+    readonly lines: readonly InvoiceLine[],
+    readonly total: Money, // the sum of the lines
+    readonly paymentTerms: PaymentTerms,
+    readonly issuedOn: CalendarDate,
+    readonly dueOn: CalendarDate,
+  ) { super() }
+}
+
+/// Event to send to the customer, and to the accounting systems
+export class InvoiceIssued extends ValueObject {
+  constructor(
+    readonly invoice: Invoice,
+  ) { super() }
+}
+
+/// The possible events resulting from the CreateInvoice workflow
+export type CreateInvoiceEvent = InvoiceIssued;
+
+// ------------------------------------
+// error outputs
+
+/// The tax and the shipping cost add up to more than the amount to bill
+declare const inconsistentAmounts: unique symbol;
+export class InconsistentAmounts extends Error {
+  [inconsistentAmounts]!: never;
+  constructor(readonly orderReference: OrderReference) {
+    super(`the tax and shipping of order ${orderReference.value} are more than its amount to bill`);
+  }
+}
+
+/// An order is only ever invoiced once
+declare const alreadyInvoiced: unique symbol;
+export class AlreadyInvoiced extends Error {
+  [alreadyInvoiced]!: never;
+  constructor(
+    readonly orderReference: OrderReference,
+    readonly invoiceNumber: InvoiceNumber,
+  ) {
+    super(`order ${orderReference.value} has already been invoiced by invoice ${invoiceNumber.value}`);
+  }
+}
+
+/// The ledger in which the invoices are kept could not be used
+export class InvoiceLedgerError extends ValueObject {
+  constructor(
+    readonly exception: Error,
+  ) { super() }
+}
+
+/// All the things that can go wrong in this workflow
+export type CreateInvoiceError = InconsistentAmounts | AlreadyInvoiced | InvoiceLedgerError;
+
+// ------------------------------------
+// the workflow itself
+
+export type CreateInvoice = (i: BillableOrder) => TaskEither<CreateInvoiceError, CreateInvoiceEvent[]>;
@@ -0,0 +1,71 @@
+import { match } from 'ts-pattern';
+import * as ConstrainedType from '../order-taking/common-types/constrained-type';
+// lets declaration emit name the brand of the types defined below
+import type { constrained } from '../order-taking/common-types/constrained-type';
+import { bound } from '../libs/decorator';
+import { ValueObject } from '../libs/model-type';
+
+// ===============================
+// Simple types and constrained types related to the Billing domain.
+//
+// The Billing context issues invoices for orders, and knows nothing about products or shipping.
+// Orders are only known by their reference. Amounts are the exact Money of the OrderTaking context.
+// ===============================
+
+// The id of the order which is invoiced, as given by the OrderTaking context
+export class OrderReference extends ConstrainedType.define('BillingOrderReference', { type: 'string', maxLen: 50 }) {}
+
+// Invoices are numbered 1, 2, 3... with no gaps, as the tax authorities require
+export class InvoiceNumber extends ConstrainedType.define('InvoiceNumber', { type: 'number', min: 1, integer: true }) {}
+
+// A line of the billing address. Constrained to be a non-empty string <= 50 chars
+export class AddressLine extends ConstrainedType.define('BillingAddressLine', { type: 'string', maxLen: 50 }) {}
+
+// A zip code
+// Constrained to be 5 digits
+export class ZipCode extends ConstrainedType.define('BillingZipCode', { type: 'string', pattern: /^\d{5}$/ }) {}
+
+const msPerDay = 86_400_000;
+
+// A day of the calendar, in UTC
+export class CalendarDate extends ValueObject {
+  constructor(
+    readonly epochDay: number, // the number of days since 1970-01-01
+  ) { super() }
+
+  // The day of the given instant, in milliseconds since the epoch
+  static fromEpochMs(ms: number): CalendarDate {
+    return new CalendarDate(Math.floor(ms / msPerDay));
+  }
+
+  @bound
+  addDays(days: number): CalendarDate {
+    return new CalendarDate(this.epochDay + days);
+  }
+
+  // e.g. "2024-03-31"
+  @bound
+  toIsoString(): string {
+    return new Date(this.epochDay * msPerDay).toISOString().slice(0, 10);
+  }
+}
+
+// How long the customer has to pay
+export const DueOnReceipt = 'DueOnReceipt' as const;
+export const Net15 = 'Net15' as const;
+export const Net30 = 'Net30' as const;
+export type PaymentTerms = typeof DueOnReceipt | typeof Net15 | typeof Net30;
+
+// The number of days after the invoice is issued that it is due
+export const daysToPayOf = (terms: PaymentTerms): number =>
+  match(terms)
+    .with(DueOnReceipt, () => 0)
+    .with(Net15, () => 15)
+    .with(Net30, () => 30)
+    .exhaustive();
+
+// What each line of an invoice is for
+export const Goods = 'Goods' as const;
+export const Shipping = 'Shipping' as const;
+export const SalesTax = 'SalesTax' as const;
+export type InvoiceLineKind = typeof Goods | typeof Shipping | typeof SalesTax;
@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough, Readable } from 'stream';
+import { describe, expect, it } from '@jest/globals';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import { NotRun, parseOptions, Placed, runCli, SomeFailed } from './cli';
+
+const address = { addressLine1: '1 Main St', city: 'Springfield', zipCode: '94105' };
+
+const orderForm = (orderId: string) => JSON.stringify({
+  orderId,
+  customerInfo: { firstName: 'Ada', lastName: 'Lovelace', emailAddress: 'ada@example.com', vipStatus: 'Normal' },
+  shippingAddress: address,
+  billingAddress: address,
+  lines: [{ orderLineId: 'line-1', productCode: 'W1234', quantity: 2 }],
+  currency: 'USD',
+});
+
+/// Run the command with the given stdin, and collect what it writes
+const run = async (args: string[], stdin: Readable = Readable.from([])) => {
+  const stdout = new PassThrough();
+  const stderr = new PassThrough();
+  const out: string[] = [];
+  const err: string[] = [];
+  stdout.on('data', chunk => out.push(String(chunk)));
+  stderr.on('data', chunk => err.push(String(chunk)));
+  const exitCode = await runCli(args, { stdin, stdout, stderr });
+  return { exitCode, stdout: out.join(''), stderr: err.join('') };
+};
+
+const linesOf = (output: string) => output.split('\n').filter(line => line !== '');
+
+describe('parseOptions', () => {
+  it('reads stdin when no file, or "-", is given', () => {
+    const options = parseOptions(['--dry-run', '-']);
+
+    expect(E.isRight(options) && options.right.input).toEqual(O.none);
+    expect(E.isRight(options) && options.right.adapters.dryRun).toBe(true);
+  });
+
+  it('reads the file which is given, and saves the orders in the database which is given', () => {
+    const options = parseOptions(['--orders-db', 'orders.db', 'order.json']);
+
+    expect(E.isRight(options) && options.right.input).toEqual(O.some('order.json'));
+    expect(E.isRight(options) && options.right.adapters.ordersDatabase).toEqual(O.some('orders.db'));
+  });
+
+  it('rejects an unknown option, and more than one file', () => {
+    expect(E.isLeft(parseOptions(['--fast']))).toBe(true);
+    expect(parseOptions(['a.json', 'b.json'])).toEqual(E.left('At most one order form file can be given'));
+  });
+});
+
+describe('runCli', () => {
+  it('places each order form of stdin, and writes their events as NDJSON', async () => {
+    const { exitCode, stdout, stderr } = await run([], Readable.from([`${orderForm('order-1')}\n\n${orderForm('order-2')}\n`]));
+
+    expect(exitCode).toBe(Placed);
+    expect(linesOf(stdout).map(line => Object.keys(JSON.parse(line))[0]))
+      .toEqual(['OrderPlaced', 'OrderAcknowledgmentSent', 'BillableOrderPlaced', 'OrderPlaced', 'OrderAcknowledgmentSent', 'BillableOrderPlaced']);
+    expect(stderr).toBe('2 placed, 0 failed\n');
+  });
+
+  it('writes the error of an order which fails, carries on, and exits with 1', async () => {
+    const { exitCode, stdout, stderr } = await run([], Readable.from([`not json\n${orderForm('order-1')}\n`]));
+
+    expect(exitCode).toBe(SomeFailed);
+    expect(linesOf(stdout)).toHaveLength(4);
+    expect(stderr).toBe('1 placed, 1 failed\n');
+  });
+
+  it('places the order form of a file, which can be spread over many lines', async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'place-orders-'));
+    const file = path.join(dir, 'order.json');
+    await fs.promises.writeFile(file, JSON.stringify(JSON.parse(orderForm('order-1')), null, 2));
+    try {
+      const { exitCode, stderr } = await run(['--dry-run', file]);
+
+      expect(exitCode).toBe(Placed);
+      expect(stderr).toBe('1 placed, 0 failed\n');
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('exits with 2 when the options are not valid, or the file cannot be read', async () => {
+    const badOption = await run(['--fast']);
+    const missingFile = await run([path.join(os.tmpdir(), 'no-such-order.json')]);
+
+    expect(badOption.exitCode).toBe(NotRun);
+    expect(badOption.stderr).toContain('Usage: place-orders');
+    expect(missingFile.exitCode).toBe(NotRun);
+    expect(missingFile.stderr).toContain('could not be read');
+  });
+
+  it('exits with 2 when stdin cannot be read to the end', async () => {
+    const stdin = new PassThrough();
+    stdin.write(`${orderForm('order-1')}\n`);
+    setImmediate(() => stdin.destroy(new Error('broken pipe')));
+
+    const { exitCode, stderr } = await run([], stdin);
+
+    expect(exitCode).toBe(NotRun);
+    expect(stderr).toContain('The orders could not all be placed: broken pipe');
+  });
+});
@@ -0,0 +1,165 @@
+// ======================================================
+// This file contains the command-line adapter, which places the orders from JSON files and NDJSON streams
+//
+// 1) The order forms are read, either one from a JSON file or one per line from stdin
+// 2) Each order form is run through the PlaceOrder workflow, one after the other
+// 3) The events of each order, or its error, are written to stdout as NDJSON, one DTO per line
+//
+// The exit code is 0 if every order was placed, 1 if any order failed,
+// and 2 if the orders could not be read or the dependencies could not be set up.
+// ======================================================
+
+import * as fs from 'fs';
+import * as readline from 'readline';
+import { parseArgs } from 'util';
+import * as A from 'fp-ts/Array';
+import * as E from 'fp-ts/Either';
+import { flow, pipe } from 'fp-ts/function';
+import * as O from 'fp-ts/Option';
+import * as TE from 'fp-ts/TaskEither';
+import { createPlaceOrderWorkflowDependencies, PlaceOrderAdapters } from './composition-root';
+import { ValueObject } from './libs/model-type';
+import { deserializeOrderForm, Json, placeOrderFromForm } from './order-taking/place-order/api';
+import { PlaceOrderErrorDto, placeOrderEventDtoCodec, placeOrderEventDtoFromDomain } from './order-taking/place-order/dto';
+
+import type { Readable, Writable } from 'stream';
+import type { JsonString, PlaceOrderWorkflowDependencies } from './order-taking/place-order/api';
+import type { PlaceOrderError, PlaceOrderEvent } from './order-taking/place-order/public-types';
+
+/// The exit codes of the command
+export const Placed = 0 as const;
+export const SomeFailed = 1 as const;
+export const NotRun = 2 as const;
+type ExitCode = typeof Placed | typeof SomeFailed | typeof NotRun;
+
+// -------------------------------
+// options
+// -------------------------------
+
+export const usage = 'Usage: place-orders [--dry-run] [--orders-db <file>] [<order-form.json> | -]';
+
+export class CliOptions extends ValueObject {
+  constructor(
+    readonly input: O.Option<string>, // a JSON file with one order form, or None to read NDJSON from stdin
+    readonly adapters: PlaceOrderAdapters,
+  ) { super() }
+}
+
+export const parseOptions = (args: readonly string[]): E.Either<string, CliOptions> => pipe(
+  E.tryCatch(
+    () => parseArgs({
+      args: [...args],
+      options: {
+        'dry-run': { type: 'boolean', default: false },
+        'orders-db': { type: 'string' },
+      },
+      allowPositionals: true,
+    }),
+    err => err instanceof Error ? err.message : String(err),
+  ),
+  E.filterOrElse(({ positionals }) => positionals.length <= 1, () => 'At most one order form file can be given'),
+  E.map(({ values, positionals }) => new CliOptions(
+    pipe(O.fromNullable(positionals[0]), O.filter(file => file !== '-')), // "-" is stdin, as usual
+    new PlaceOrderAdapters(O.fromNullable(values['orders-db']), values['dry-run'] ?? false),
+  )),
+);
+
+// -------------------------------
+// input
+// -------------------------------
+
+/// The order forms are read as they are placed, so that a long stream is not held in memory
+type OrderForms = AsyncIterable<JsonString> | Iterable<JsonString>;
+
+/// Each line which is not blank is an order form
+async function* nonBlankLinesOf(stream: Readable): AsyncIterable<JsonString> {
+  for await (const line of readline.createInterface({ input: stream, crlfDelay: Infinity })) {
+    if (line.trim() !== '') yield line;
+  }
+}
+
+/// A file holds a single order form, which can be spread over many lines
+const orderFormsFrom = (input: O.Option<string>, stdin: Readable): TE.TaskEither<string, OrderForms> =>
+  pipe(
+    input,
+    O.match(
+      (): TE.TaskEither<string, OrderForms> => TE.right(nonBlankLinesOf(stdin)),
+      file => pipe(
+        TE.tryCatch(
+          () => fs.promises.readFile(file, 'utf8'),
+          err => `${file} could not be read: ${err instanceof Error ? err.message : String(err)}`,
+        ),
+        TE.map(A.of),
+      ),
+    ),
+  );
+
+// -------------------------------
+// output
+// -------------------------------
+
+const toOutputLines = (result: E.Either<PlaceOrderError, PlaceOrderEvent[]>): JsonString[] => pipe(
+  result,
+  E.match(
+    flow(PlaceOrderErrorDto.fromDomain, PlaceOrderErrorDto.codec.encode, Json.serialize, A.of),
+    A.map(flow(placeOrderEventDtoFromDomain, placeOrderEventDtoCodec.encode, Json.serialize)),
+  ),
+);
+
+// -------------------------------
+// the command
+// -------------------------------
+
+export type CliStreams = {
+  readonly stdin: Readable;
+  readonly stdout: Writable;
+  readonly stderr: Writable;
+};
+
+const placeOrderFromJson = (deps: PlaceOrderWorkflowDependencies) => (orderFormJson: JsonString) => pipe(
+  deserializeOrderForm(orderFormJson),
+  TE.fromEither,
+  TE.flatMap(placeOrderFromForm(deps)),
+);
+
+/// Place the orders one after the other, so that the output is in the same order as the input
+const placeAll = (deps: PlaceOrderWorkflowDependencies, stdout: Writable) =>
+  async (orderForms: OrderForms): Promise<{ placed: number; failed: number }> => {
+    let placed = 0;
+    let failed = 0;
+    for await (const orderFormJson of orderForms) {
+      const result = await placeOrderFromJson(deps)(orderFormJson)();
+      toOutputLines(result).forEach(line => stdout.write(`${line}\n`));
+      if (E.isRight(result)) placed++; else failed++;
+    }
+    return { placed, failed };
+  };
+
+/// Run the command with the given arguments (without the node and script paths), and return its exit code
+export const runCli = (args: readonly string[], { stdin, stdout, stderr }: CliStreams): Promise<ExitCode> => pipe(
+  parseOptions(args),
+  E.mapLeft(message => `${message}\n${usage}`),
+  TE.fromEither,
+  TE.flatMap(options => pipe(
+    createPlaceOrderWorkflowDependencies(options.adapters),
+    TE.mapLeft(err => `${err.service.name} could not be set up: ${err.exception.message}`),
+    TE.flatMap(deps => pipe(
+      orderFormsFrom(options.input, stdin),
+      // e.g. stdin could not be read to the end, or a dependency threw rather than returning an error
+      TE.flatMap(orderForms => TE.tryCatch(
+        () => placeAll(deps, stdout)(orderForms),
+        err => `The orders could not all be placed: ${err instanceof Error ? err.message : String(err)}`,
+      )),
+    )),
+  )),
+  TE.match(
+    (message): ExitCode => {
+      stderr.write(`${message}\n`);
+      return NotRun;
+    },
+    ({ placed, failed }): ExitCode => {
+      stderr.write(`${placed} placed, ${failed} failed\n`);
+      return failed === 0 ? Placed : SomeFailed;
+    },
+  ),
+)();
@@ -0,0 +1,256 @@
+// ======================================================
+// This file is the composition root of the application
+//
+// It is the one place where the dependencies of every workflow are set up,
+// and where the bounded contexts are wired to each other through the events of the outbox.
+// Everything else gets its dependencies passed in. See "Injecting Dependencies" in chapter 9
+// ======================================================
+
+import { flow, pipe } from 'fp-ts/function';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import * as TE from 'fp-ts/TaskEither';
+import { match, P } from 'ts-pattern';
+import { createInvoicePlacedOrders } from './billing/api';
+import { createInMemoryInvoiceLedger } from './billing/invoice-ledger';
+import { CalendarDate, Net30 } from './billing/simple-types';
+import { ValueObject } from './libs/model-type';
+import { createCancelOrderApi } from './order-taking/cancel-order/api';
+import { createChangeOrderApi } from './order-taking/change-order/api';
+import { ExchangeRate, Money, Price } from './order-taking/common-types';
+import { createInMemoryEventStore, startOrdersOnSave, startPlacedOrders } from './order-taking/order/event-store';
+import { createPlaceOrderApi } from './order-taking/place-order/api';
+import { createEventDispatcher, noHandlers } from './order-taking/place-order/event-dispatcher';
+import { createInMemoryIdempotencyStore } from './order-taking/place-order/idempotency-store';
+import {
+  createCheckedAddress,
+  HtmlString,
+  NotSent,
+  Sent,
+  ShippingRate,
+  ShippingRateTable,
+  ShippingZone,
+  TaxJurisdiction,
+  TaxRates,
+  TaxRateTable,
+} from './order-taking/place-order/implementation.types';
+import { createInMemoryOrderStorage, createSqliteOrderStorage } from './order-taking/place-order/order-repository';
+import { createInMemoryDeadLetterStore, publishThrough } from './order-taking/place-order/outbox';
+import { Fedex24, PostalService, Promotion, Standard, Ups48 } from './order-taking/place-order/public-types';
+import { createShipPlacedOrders } from './shipping/api';
+import { Grams, TrackingNumber } from './shipping/simple-types';
+
+import type { BillingDependencies } from './billing/api';
+import type { GetPaymentTerms, GetToday } from './billing/implementation.types';
+import type { OrderEventStore } from './order-taking/order/event-store';
+import type {
+  HttpRequest,
+  HttpResponse,
+  PlaceOrderDependencies,
+  PlaceOrderWorkflowDependencies,
+} from './order-taking/place-order/api';
+import type { DispatchEvents } from './order-taking/place-order/event-dispatcher';
+import type {
+  CheckAddressExists,
+  CheckProductCodeExists,
+  CreateOrderAcknowledgmentLetter,
+  GetExchangeRate,
+  GetPricingFunction,
+  GetProductPrice,
+  GetShippingRateTable,
+  GetTaxRateTable,
+  PublishEvents,
+  SaveOrder,
+  SendOrderAcknowledgment,
+} from './order-taking/place-order/implementation.types';
+import type { DeadLetterStore } from './order-taking/place-order/outbox';
+import type { RemoteServiceError } from './order-taking/place-order/public-types';
+import type { ShippingDependencies } from './shipping/api';
+import type { BookCarrier, GetWidgetWeight } from './shipping/implementation.types';
+
+// =============================
+// dummy dependencies
+// =============================
+
+// -------------------------------
+// order taking
+// -------------------------------
+
+export const checkProductExists: CheckProductCodeExists = productCode => true; // dummy implementation
+
+export const checkAddressExists: CheckAddressExists = flow(createCheckedAddress, E.right, TE.fromEither);
+
+export const getProductPrice: GetProductPrice = productCode => Price.unsafeCreate(Money.unsafeFromDecimal('1', 'USD')); // dummy implementation
+
+export const getPricingFunction: GetPricingFunction = pricingMethod =>
+  match(pricingMethod)
+    .with(P.instanceOf(Standard), () => O.some(getProductPrice))
+    .with(P.instanceOf(Promotion), () => O.none) // dummy implementation: no promotions are running
+    .exhaustive();
+
+export const getExchangeRate: GetExchangeRate = (from, to) => O.some(new ExchangeRate(from, to, '1')); // dummy implementation
+
+export const getTaxRateTable: GetTaxRateTable = () => new TaxRateTable(
+  [
+    new TaxJurisdiction('California', ['9'], new TaxRates('0.0725', '0.0725')),
+    new TaxJurisdiction('New York', ['1'], new TaxRates('0.04', '0.08875')),
+  ],
+  new TaxRates('0', '0'),
+); // dummy implementation
+
+const usd = (decimal: string) => Price.unsafeCreate(Money.unsafeFromDecimal(decimal, 'USD'));
+
+export const getShippingRateTable: GetShippingRateTable = () => new ShippingRateTable(
+  [
+    new ShippingZone('West Coast', ['9'], new ShippingRate(PostalService, usd('5'), usd('1'), usd('0.5'))),
+    new ShippingZone('Midwest', ['4', '5', '6'], new ShippingRate(Ups48, usd('8'), usd('1.5'), usd('0.75'))),
+  ],
+  new ShippingRate(Fedex24, usd('10'), usd('2'), usd('1')),
+); // dummy implementation
+
+export const createOrderAcknowledgmentLetter: CreateOrderAcknowledgmentLetter = pricedOrder =>
+  new HtmlString('some text'); // dummy implementation
+
+export const sendOrderAcknowledgment: SendOrderAcknowledgment = orderAcknowledgement => Sent; // dummy implementation
+
+/// On a dry run, the orders are checked and priced, but nothing is saved and no acknowledgment is sent
+export const saveNothing: SaveOrder = (shippedOrder, events) => TE.right(undefined);
+
+export const sendNothing: SendOrderAcknowledgment = orderAcknowledgement => NotSent;
+
+export const publishNothing: PublishEvents = events => TE.right(undefined);
+
+// -------------------------------
+// shipping
+// -------------------------------
+
+export const getWidgetWeight: GetWidgetWeight = widgetCode => O.some(Grams.unsafeCreate(500)); // dummy implementation
+
+export const maxParcelWeight: Grams = Grams.unsafeCreate(20_000);
+
+export const bookCarrier: BookCarrier = request =>
+  TE.right(TrackingNumber.unsafeCreate(`${request.service.carrier}-${request.orderReference.value}`)); // dummy implementation
+
+// -------------------------------
+// billing
+// -------------------------------
+
+export const getPaymentTerms: GetPaymentTerms = order => Net30; // dummy implementation
+
+export const getToday: GetToday = () => CalendarDate.fromEpochMs(Date.now());
+
+// =============================
+// the application
+// =============================
+
+/// An API takes a HttpRequest as input and returns a async response
+export type Api = (i: HttpRequest) => Promise<HttpResponse>;
+
+/// Everything the adapters (e.g. the HTTP server) need to run the application
+export type App = {
+  readonly placeOrderApi: Api;
+  readonly cancelOrderApi: Api;
+  readonly changeOrderApi: Api;
+  /// Deliver the events of the outbox to the other bounded contexts
+  readonly dispatchEvents: DispatchEvents;
+  readonly deadLetterStore: DeadLetterStore;
+  readonly orderEventStore: OrderEventStore;
+  readonly shipments: ShippingDependencies['shipments'];
+  readonly invoiceEvents: BillingDependencies['invoiceEvents'];
+};
+
+const placeOrderWorkflowDependencies = (
+  saveOrder: SaveOrder,
+  sendOrderAcknowledgment: SendOrderAcknowledgment,
+  publishEvents: PublishEvents,
+): PlaceOrderWorkflowDependencies => ({
+  checkProductExists,
+  checkAddressExists,
+  getPricingFunction,
+  getExchangeRate,
+  getTaxRateTable,
+  getShippingRateTable,
+  saveOrder,
+  createOrderAcknowledgmentLetter,
+  sendOrderAcknowledgment,
+  publishEvents,
+});
+
+/// Set up a new application. Each one has its own (in-memory) storage.
+export const createApp = (): App => {
+  const orderStorage = createInMemoryOrderStorage(); // dummy implementation
+  const deadLetterStore = createInMemoryDeadLetterStore(); // dummy implementation
+  const orderEventStore: OrderEventStore = createInMemoryEventStore(); // dummy implementation
+
+  const placeOrderDependencies: PlaceOrderDependencies = {
+    ...placeOrderWorkflowDependencies(
+      startOrdersOnSave(orderEventStore)(orderStorage.orders.save),
+      sendOrderAcknowledgment,
+      publishThrough(orderStorage.outbox),
+    ),
+    idempotencyStore: createInMemoryIdempotencyStore<HttpResponse>(), // dummy implementation
+  };
+
+  const shippingDependencies: ShippingDependencies = {
+    getWidgetWeight,
+    maxParcelWeight,
+    bookCarrier,
+    shipments: new Map(), // dummy implementation
+  };
+
+  const billingDependencies: BillingDependencies = {
+    getPaymentTerms,
+    getToday,
+    invoiceLedger: createInMemoryInvoiceLedger(), // dummy implementation
+    invoiceEvents: [], // dummy implementation
+  };
+
+  return {
+    placeOrderApi: createPlaceOrderApi(placeOrderDependencies),
+    cancelOrderApi: createCancelOrderApi(orderEventStore),
+    changeOrderApi: createChangeOrderApi({ ...placeOrderDependencies, orderEventStore, amendOrder: orderStorage.orders.amend }),
+    // An order which could not be started in the order event store when it was saved is started here.
+    // Every order which is placed is then sent to the shipping context. The billable orders are sent to the billing context.
+    dispatchEvents: createEventDispatcher(orderStorage.outbox, deadLetterStore, {
+      ...noHandlers,
+      OrderPlaced: [startPlacedOrders(orderEventStore), createShipPlacedOrders(shippingDependencies)],
+      BillableOrderPlaced: [createInvoicePlacedOrders(billingDependencies)],
+    }),
+    deadLetterStore,
+    orderEventStore,
+    shipments: shippingDependencies.shipments,
+    invoiceEvents: billingDependencies.invoiceEvents,
+  };
+};
+
+// =============================
+// the PlaceOrder workflow on its own
+// =============================
+
+/// The choices of adapter when only orders are placed, e.g. by the command-line tool
+export class PlaceOrderAdapters extends ValueObject {
+  constructor(
+    readonly ordersDatabase: O.Option<string>, // a SQLite database file to save the orders in, or None to keep them in memory
+    readonly dryRun: boolean, // check and price the orders, without saving them or sending acknowledgments
+  ) { super() }
+}
+
+/// Set up the dependencies of the PlaceOrder workflow with the chosen adapters.
+/// This fails if the database cannot be opened. On a dry run, it is not opened at all.
+export const createPlaceOrderWorkflowDependencies = (
+  adapters: PlaceOrderAdapters,
+): TE.TaskEither<RemoteServiceError, PlaceOrderWorkflowDependencies> =>
+  adapters.dryRun
+    ? TE.right(placeOrderWorkflowDependencies(saveNothing, sendNothing, publishNothing))
+    : pipe(
+      adapters.ordersDatabase,
+      O.match(
+        () => TE.right(createInMemoryOrderStorage()),
+        createSqliteOrderStorage,
+      ),
+      TE.map(orderStorage => placeOrderWorkflowDependencies(
+        orderStorage.orders.save,
+        sendOrderAcknowledgment,
+        publishThrough(orderStorage.outbox),
+      )),
+    );
@@ -0,0 +1,113 @@
+import * as http from 'http';
+import * as net from 'net';
+import { describe, expect, it, jest } from '@jest/globals';
+import { createApp } from './composition-root';
+import { handleRequest, respondWith, Route, routesOf, ServerOptions } from './http-server';
+import { HttpResponse } from './order-taking/place-order/api';
+
+import type { Api } from './composition-root';
+import type { HttpRequest } from './order-taking/place-order/api';
+
+/// A request as Node gives it to the server, with its body streamed in the given chunks
+const requestOf = (method: string, url: string, headers: http.IncomingHttpHeaders = {}, ...chunks: string[]) => {
+  const request = new http.IncomingMessage(new net.Socket());
+  request.method = method;
+  request.url = url;
+  request.headers = headers;
+  chunks.forEach(chunk => request.push(Buffer.from(chunk)));
+  request.push(null);
+  return request;
+};
+
+/// An API which answers with what it was asked
+const echo: Api = async (request: HttpRequest) =>
+  new HttpResponse(200, { 'Content-Type': 'application/json' }, JSON.stringify({ action: request.action, uri: request.uri, body: request.body }));
+
+const routes = [new Route('POST', '/orders', echo), new Route('PUT', '/orders', echo)];
+
+const problemOf = (response: HttpResponse) => JSON.parse(response.body);
+
+describe('handleRequest', () => {
+  it('routes a request by its method and path, and gives the API its body', async () => {
+    const response = await handleRequest(routes)(requestOf('POST', '/orders?dryRun=true', {}, '{"orderId":', '"order-1"}'));
+
+    expect(response.httpStatusCode).toBe(200);
+    expect(JSON.parse(response.body)).toEqual({ action: 'POST', uri: '/orders?dryRun=true', body: '{"orderId":"order-1"}' });
+  });
+
+  it('routes every workflow of the application', () => {
+    expect(routesOf(createApp()).map(route => `${route.method} ${route.path}`))
+      .toEqual(['POST /orders', 'POST /orders/cancellations', 'POST /orders/amendments']);
+  });
+
+  it('answers an unknown path with a 404, and a method which the path does not allow with a 405', async () => {
+    const notFound = await handleRequest(routes)(requestOf('POST', '/invoices', {}, '{}'));
+    const notAllowed = await handleRequest(routes)(requestOf('DELETE', '/orders'));
+
+    expect(notFound.httpStatusCode).toBe(404);
+    expect(notFound.headers['Content-Type']).toBe('application/problem+json');
+    expect(problemOf(notFound).code).toBe('NotFound');
+    expect(notAllowed.httpStatusCode).toBe(405);
+    expect(notAllowed.headers.Allow).toBe('POST, PUT');
+  });
+
+  it('answers a request target which is not a URL with a 400', async () => {
+    const response = await handleRequest(routes)(requestOf('POST', 'http://[', {}, '{}'));
+
+    expect(response.httpStatusCode).toBe(400);
+    expect(problemOf(response).title).toBe('The request target is not a valid URL');
+  });
+
+  it('answers a body which is not JSON with a 415 or a 400, without calling the API', async () => {
+    const api = jest.fn(echo);
+    const guarded = [new Route('POST', '/orders', api)];
+
+    const notJson = await handleRequest(guarded)(requestOf('POST', '/orders', { 'content-type': 'text/plain' }, 'hello'));
+    const malformed = await handleRequest(guarded)(requestOf('POST', '/orders', { 'content-type': 'application/json; charset=utf-8' }, '{"orderId":'));
+
+    expect(notJson.httpStatusCode).toBe(415);
+    expect(malformed.httpStatusCode).toBe(400);
+    expect(problemOf(malformed).code).toBe('MalformedJson');
+    expect(api).not.toHaveBeenCalled();
+  });
+
+  it('refuses a body which is larger than the limit, whether it says so up front or not', async () => {
+    const options = new ServerOptions(10);
+
+    const declared = await handleRequest(routes, options)(requestOf('POST', '/orders', { 'content-length': '11' }, '{"a":"bcde"}'));
+    const streamed = await handleRequest(routes, options)(requestOf('POST', '/orders', {}, '{"a":', '"bcdef"}'));
+    const atTheLimit = await handleRequest(routes, options)(requestOf('POST', '/orders', {}, '{"a":"bc"}'));
+
+    expect([declared, streamed].map(response => response.httpStatusCode)).toEqual([413, 413]);
+    expect(streamed.headers.Connection).toBe('close');
+    expect(problemOf(streamed).detail).toBe('The body must be at most 10 bytes');
+    expect(atTheLimit.httpStatusCode).toBe(200);
+  });
+
+  it('answers a request which the API fails to handle with a 500', async () => {
+    const failing: Api = async () => {
+      throw new Error('out of memory');
+    };
+
+    const response = await handleRequest([new Route('POST', '/orders', failing)])(requestOf('POST', '/orders', {}, '{}'));
+
+    expect(response.httpStatusCode).toBe(500);
+    expect(problemOf(response).detail).toBe('out of memory');
+  });
+});
+
+describe('respondWith', () => {
+  it('answers with a 500 when the response of the API cannot be written', async () => {
+    const request = requestOf('POST', '/orders', {}, '{}');
+    const response = new http.ServerResponse(request);
+    const end = jest.spyOn(response, 'end');
+    // a header value cannot have a line break in it
+    const unwritable = async () => new HttpResponse(200, { 'X-Note': 'line 1\nline 2' }, '{}');
+
+    await respondWith(unwritable)(request, response);
+
+    expect(response.statusCode).toBe(500);
+    expect(response.writableEnded).toBe(true);
+    expect(JSON.parse(String(end.mock.calls[0][0])).title).toBe('The response could not be written');
+  });
+});
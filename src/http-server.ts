@@ -0,0 +1,204 @@
+// ======================================================
+// This file contains the HTTP adapter, which serves the APIs with Node's built-in http module
+//
+// 1) The incoming request is routed by its method and path
+// 2) Its body is read, up to a size limit, and it is turned into a HttpRequest
+// 3) The API is called, and the HttpResponse it returns is written back
+//
+// Anything which is wrong with the request as HTTP (e.g. an unknown path or a body which is not JSON)
+// is answered here, so the APIs only ever see requests which are meant for them.
+// ======================================================
+
+import * as http from 'http';
+import * as A from 'fp-ts/Array';
+import * as E from 'fp-ts/Either';
+import { pipe } from 'fp-ts/function';
+import * as O from 'fp-ts/Option';
+import * as T from 'fp-ts/Task';
+import * as TE from 'fp-ts/TaskEither';
+import { ValueObject } from './libs/model-type';
+import { HttpRequest, HttpResponse, Json } from './order-taking/place-order/api';
+import { ProblemDetailsDto } from './order-taking/place-order/dto';
+
+import type { Api, App } from './composition-root';
+
+// -------------------------------
+// configuration
+// -------------------------------
+
+export class ServerOptions extends ValueObject {
+  constructor(
+    readonly maxBodyBytes: number, // a larger body is refused without being read
+  ) { super() }
+
+  static readonly default = new ServerOptions(1_048_576);
+}
+
+// -------------------------------
+// routing
+// -------------------------------
+
+export class Route extends ValueObject {
+  constructor(
+    readonly method: string, // e.g. "POST"
+    readonly path: string, // e.g. "/orders", matched exactly
+    readonly api: Api,
+  ) { super() }
+}
+
+export const routesOf = (app: App): Route[] => [
+  new Route('POST', '/orders', app.placeOrderApi),
+  new Route('POST', '/orders/cancellations', app.cancelOrderApi),
+  new Route('POST', '/orders/amendments', app.changeOrderApi),
+];
+
+// -------------------------------
+// problems with the request as HTTP
+// -------------------------------
+
+/// Answered with a "application/problem+json" body, like the errors of the APIs
+export class HttpProblem extends ValueObject {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    readonly title: string,
+    readonly detail: string,
+    readonly headers: Readonly<Record<string, string>> = {},
+  ) { super() }
+}
+
+const toProblemResponse = (problem: HttpProblem): HttpResponse => pipe(
+  new ProblemDetailsDto(`urn:order-taking:http:${problem.code}`, problem.title, problem.status, problem.detail, problem.code, []),
+  ProblemDetailsDto.codec.encode,
+  Json.serialize,
+  json => new HttpResponse(problem.status, { 'Content-Type': 'application/problem+json', ...problem.headers }, json),
+);
+
+/// Node gives the request target as it was sent, which may not be a valid URL at all, e.g. "http://["
+const toPath = (uri: string): E.Either<HttpProblem, string> => E.tryCatch(
+  () => new URL(uri, 'http://localhost').pathname,
+  err => new HttpProblem(400, 'BadRequest', 'The request target is not a valid URL', err instanceof Error ? err.message : String(err)),
+);
+
+/// Find the route for the method and path. A path which is known, but not for the method, is told which methods it allows.
+const findRoute = (routes: readonly Route[]) => (method: string, path: string): E.Either<HttpProblem, Route> => {
+  const forPath = routes.filter(route => route.path === path);
+  return pipe(
+    forPath,
+    A.findFirst(route => route.method === method),
+    E.fromOption(() => forPath.length === 0
+      ? new HttpProblem(404, 'NotFound', 'There is nothing at this path', `${path} is not a known path`)
+      : new HttpProblem(405, 'MethodNotAllowed', 'The method is not allowed at this path', `${path} does not allow ${method}`, {
+        Allow: forPath.map(route => route.method).join(', '),
+      })),
+  );
+};
+
+/// A request without a Content-Type is taken to be JSON
+const checkContentType = (headers: http.IncomingHttpHeaders): E.Either<HttpProblem, void> => pipe(
+  O.fromNullable(headers['content-type']),
+  O.filter(contentType => !/^application\/([\w.+-]*\+)?json\s*(;|$)/i.test(contentType)),
+  O.match(
+    () => E.right(undefined),
+    contentType => E.left(new HttpProblem(415, 'UnsupportedMediaType', 'The body must be JSON', `'${contentType}' is not a JSON media type`)),
+  ),
+);
+
+const tooLarge = (maxBodyBytes: number) =>
+  new HttpProblem(413, 'PayloadTooLarge', 'The body is too large', `The body must be at most ${maxBodyBytes} bytes`, { Connection: 'close' });
+
+/// Read the body as it streams in, giving up as soon as it is larger than the limit
+const readBody = (request: http.IncomingMessage, maxBodyBytes: number): TE.TaskEither<HttpProblem, string> => () =>
+  new Promise(resolve => {
+    const declaredLength = Number(request.headers['content-length'] ?? 0);
+    if (declaredLength > maxBodyBytes) {
+      request.resume(); // discard the body
+      resolve(E.left(tooLarge(maxBodyBytes)));
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let length = 0;
+    const onData = (chunk: Buffer) => {
+      length += chunk.length;
+      if (length > maxBodyBytes) {
+        request.off('data', onData);
+        request.resume(); // discard the rest of the body
+        resolve(E.left(tooLarge(maxBodyBytes)));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    request.on('data', onData);
+    request.on('end', () => resolve(E.right(Buffer.concat(chunks).toString('utf8'))));
+    request.on('error', err => resolve(E.left(new HttpProblem(400, 'BadRequest', 'The body could not be read', err.message))));
+  });
+
+/// The APIs check the body against their own forms, but a body which is not JSON at all is a bad request
+const checkJson = (body: string): E.Either<HttpProblem, string> => pipe(
+  E.tryCatch(() => JSON.parse(body), err => err instanceof Error ? err.message : String(err)),
+  E.bimap(
+    detail => new HttpProblem(400, 'MalformedJson', 'The body is not well-formed JSON', detail),
+    () => body,
+  ),
+);
+
+/// Node gives header names in lower case, and a header which is repeated as a list
+const toHeaders = (headers: http.IncomingHttpHeaders): Record<string, string> => Object.fromEntries(
+  Object.entries(headers).flatMap(([name, value]) =>
+    value === undefined ? [] : [[name, Array.isArray(value) ? value.join(', ') : value]]),
+);
+
+// -------------------------------
+// the server
+// -------------------------------
+
+/// Turn a request into the HttpResponse to answer it with. A failure of the API itself is a 500.
+export const handleRequest = (routes: readonly Route[], options: ServerOptions = ServerOptions.default) =>
+  (request: http.IncomingMessage): Promise<HttpResponse> => {
+    const method = request.method ?? 'GET';
+    const uri = request.url ?? '/';
+    return pipe(
+      toPath(uri),
+      E.flatMap(path => findRoute(routes)(method, path)),
+      E.flatMap(route => pipe(checkContentType(request.headers), E.as(route))),
+      TE.fromEither,
+      TE.flatMap(route => pipe(
+        readBody(request, options.maxBodyBytes),
+        TE.flatMapEither(checkJson),
+        TE.flatMap(body => TE.tryCatch(
+          () => route.api(new HttpRequest(method, uri, toHeaders(request.headers), body)),
+          err => new HttpProblem(500, 'InternalServerError', 'The request could not be handled', err instanceof Error ? err.message : String(err)),
+        )),
+      )),
+      TE.getOrElse(problem => T.of(toProblemResponse(problem))),
+    )();
+  };
+
+/// The reason phrase is always given, so that it is not left over from a response which could not be written
+const writeResponse = (response: http.ServerResponse) => ({ httpStatusCode, headers, body }: HttpResponse) => {
+  response.writeHead(httpStatusCode, http.STATUS_CODES[httpStatusCode] ?? '', { ...headers, 'Content-Length': Buffer.byteLength(body) });
+  response.end(body);
+};
+
+/// The response of the API could not be written, e.g. it has a header which is not valid in HTTP.
+/// The client is still answered, unless part of the response was already sent.
+const writeFailure = (response: http.ServerResponse) => (err: unknown) => {
+  if (response.headersSent) {
+    response.destroy();
+    return;
+  }
+  pipe(
+    new HttpProblem(500, 'InternalServerError', 'The response could not be written', err instanceof Error ? err.message : String(err)),
+    toProblemResponse,
+    writeResponse(response),
+  );
+};
+
+/// Answer the request with the HttpResponse it is handled with, or with a 500 if that cannot be written
+export const respondWith = (handle: (request: http.IncomingMessage) => Promise<HttpResponse>) =>
+  (request: http.IncomingMessage, response: http.ServerResponse): Promise<void> =>
+    handle(request).then(writeResponse(response)).catch(writeFailure(response));
+
+/// The server is not listening yet. Call `listen` on it to start it.
+export const createHttpServer = (app: App, options: ServerOptions = ServerOptions.default): http.Server =>
+  http.createServer(respondWith(handleRequest(routesOf(app), options)));
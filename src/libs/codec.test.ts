@@ -0,0 +1,189 @@
+import { describe, expect, it } from '@jest/globals';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import * as C from './codec';
+
+/// The paths of the failures, as they are rendered in error responses
+const failedPaths = <T>(result: C.DecodeResult<T>) => E.isLeft(result) ? result.left.map(e => C.pathToString(e.path)) : [];
+
+class Point {
+  constructor(readonly x: number, readonly y: number) { }
+
+  get length() {
+    return Math.hypot(this.x, this.y);
+  }
+}
+
+const point = C.classOf(Point, { x: C.number, y: C.number }, p => new Point(p.x, p.y));
+
+const productLine = C.struct({ kind: C.literal('product'), productCode: C.string, quantity: C.number });
+const commentLine = C.struct({ kind: C.literal('comment'), comment: C.string });
+
+describe('pathToString', () => {
+  it('renders a path the way it would be written in code', () => {
+    expect(C.pathToString(['lines', 0, 'quantity'])).toBe('lines[0].quantity');
+    expect(C.pathToString([])).toBe('');
+  });
+});
+
+describe('DecodeError', () => {
+  it('says what was expected and where', () => {
+    expect(new C.DecodeError(['lines', 2], 'number', 'x').message).toBe('expected number at lines[2]');
+    expect(new C.DecodeError([], 'string', 1).message).toBe('expected string at root');
+  });
+
+  it('can be nested under a path, even when it is passed around point-free', () => {
+    const { at } = new C.DecodeError(['quantity'], 'number', null);
+    const nested = at('lines', 0);
+
+    expect(nested.path).toEqual(['lines', 0, 'quantity']);
+    expect(nested.message).toBe('expected number at lines[0].quantity');
+  });
+});
+
+describe('primitives', () => {
+  it('only accept values of their own type', () => {
+    expect(C.string.decode('a')).toEqual(E.right('a'));
+    expect(E.isLeft(C.string.decode(1))).toBe(true);
+    expect(E.isLeft(C.boolean.decode('true'))).toBe(true);
+  });
+
+  it('do not take NaN or Infinity for a number', () => {
+    expect(C.number.decode(1.5)).toEqual(E.right(1.5));
+    expect(E.isLeft(C.number.decode(NaN))).toBe(true);
+    expect(E.isLeft(C.number.decode(Infinity))).toBe(true);
+  });
+
+  it('accept only the given literals', () => {
+    const method = C.literal('Standard', 'Promotion');
+
+    expect(method.decode('Promotion')).toEqual(E.right('Promotion'));
+    expect(E.isLeft(method.decode('promotion'))).toBe(true);
+    expect(method.name).toBe("'Standard' | 'Promotion'");
+  });
+});
+
+describe('struct', () => {
+  it('reports every field which does not match, at its path', () => {
+    const result = productLine.decode({ kind: 'product', productCode: 42 });
+
+    expect(failedPaths(result)).toEqual(['productCode', 'quantity']);
+  });
+
+  it('drops the fields which it does not know', () => {
+    expect(commentLine.decode({ kind: 'comment', comment: 'a gift', extra: true })).toEqual(E.right({ kind: 'comment', comment: 'a gift' }));
+  });
+
+  it('rejects what is not a plain object', () => {
+    expect(E.isLeft(commentLine.decode([]))).toBe(true);
+    expect(E.isLeft(commentLine.decode(null))).toBe(true);
+  });
+});
+
+describe('array', () => {
+  it('reports the failures of every item, at its index', () => {
+    const result = C.array(productLine).decode([
+      { kind: 'product', productCode: 'W1234', quantity: 1 },
+      { kind: 'product', productCode: 'G123' },
+      { kind: 'product', productCode: 7, quantity: 1 },
+    ]);
+
+    expect(failedPaths(result)).toEqual(['[1].quantity', '[2].productCode']);
+  });
+
+  it('nests the failures of an array in a struct under the field', () => {
+    const order = C.struct({ lines: C.array(productLine) });
+
+    expect(failedPaths(order.decode({ lines: [{ kind: 'product', productCode: 'W1234', quantity: '1' }] }))).toEqual(['lines[0].quantity']);
+  });
+});
+
+describe('record', () => {
+  it('decodes each value, and reports a failure at its key', () => {
+    expect(C.record(C.number).decode({ a: 1, b: 2 })).toEqual(E.right({ a: 1, b: 2 }));
+    expect(failedPaths(C.record(C.number).decode({ a: 1, b: 'two' }))).toEqual(['b']);
+  });
+});
+
+describe('union', () => {
+  const line = C.union(productLine, commentLine);
+
+  it('decodes with the first codec which succeeds', () => {
+    expect(line.decode({ kind: 'comment', comment: 'a gift' })).toEqual(E.right({ kind: 'comment', comment: 'a gift' }));
+    expect(line.decode({ kind: 'product', productCode: 'W1234', quantity: 1 })).toEqual(E.right({ kind: 'product', productCode: 'W1234', quantity: 1 }));
+  });
+
+  it('reports a single failure at the root when no codec succeeds', () => {
+    const result = line.decode({ kind: 'product', productCode: 'W1234' });
+
+    expect(failedPaths(result)).toEqual(['']);
+    expect(E.isLeft(result) && result.left[0].expected).toBe(line.name);
+  });
+});
+
+describe('select', () => {
+  const line = C.select(u => 'comment' in u ? commentLine : productLine, productLine, commentLine);
+
+  it('reports the failures of the codec which was meant to match, at their paths', () => {
+    expect(failedPaths(line.decode({ kind: 'product', productCode: 'W1234' }))).toEqual(['quantity']);
+    expect(failedPaths(line.decode({ kind: 'product', comment: 7 }))).toEqual(['kind', 'comment']);
+  });
+
+  it('encodes with the codec which recognises the value', () => {
+    expect(line.encode({ kind: 'comment', comment: 'a gift' })).toEqual({ kind: 'comment', comment: 'a gift' });
+  });
+});
+
+describe('classOf', () => {
+  it('builds an instance of the class, with its methods', () => {
+    const result = point.decode({ x: 3, y: 4 });
+
+    expect(E.isRight(result) && result.right).toBeInstanceOf(Point);
+    expect(E.isRight(result) && result.right.length).toBe(5);
+  });
+
+  it('recognises only instances of the class', () => {
+    expect(point.is(new Point(1, 2))).toBe(true);
+    expect(point.is({ x: 1, y: 2 })).toBe(false);
+  });
+
+  it('encodes the instance as a plain object', () => {
+    expect(point.encode(new Point(1, 2))).toEqual({ x: 1, y: 2 });
+  });
+});
+
+describe('optional fields', () => {
+  const address = C.struct({ addressLine1: C.string, addressLine2: C.optionFromNullable(C.string) });
+
+  it('decode null, or a missing field, to None', () => {
+    expect(address.decode({ addressLine1: '1 Main St', addressLine2: null })).toEqual(E.right({ addressLine1: '1 Main St', addressLine2: O.none }));
+    expect(address.decode({ addressLine1: '1 Main St' })).toEqual(E.right({ addressLine1: '1 Main St', addressLine2: O.none }));
+  });
+
+  it('decode any other value with the codec of the field, to Some', () => {
+    expect(address.decode({ addressLine1: '1 Main St', addressLine2: 'Apt 4' })).toEqual(E.right({ addressLine1: '1 Main St', addressLine2: O.some('Apt 4') }));
+    expect(failedPaths(address.decode({ addressLine1: '1 Main St', addressLine2: 4 }))).toEqual(['addressLine2']);
+  });
+
+  it('encode None as null, rather than as an fp-ts Option', () => {
+    expect(address.encode({ addressLine1: '1 Main St', addressLine2: O.none })).toEqual({ addressLine1: '1 Main St', addressLine2: null });
+    expect(address.encode({ addressLine1: '1 Main St', addressLine2: O.some('Apt 4') })).toEqual({ addressLine1: '1 Main St', addressLine2: 'Apt 4' });
+  });
+
+  it('recognise an Option, but not a bare value, as already decoded', () => {
+    const line2 = C.optionFromNullable(C.string);
+
+    expect(line2.is(O.some('Apt 4'))).toBe(true);
+    expect(line2.is(O.none)).toBe(true);
+    expect(line2.is('Apt 4')).toBe(false);
+  });
+
+  it('can also be kept as null, with nullable', () => {
+    const rejectedValue = C.nullable(C.union(C.string, C.number));
+
+    expect(rejectedValue.decode(undefined)).toEqual(E.right(null));
+    expect(rejectedValue.decode(3)).toEqual(E.right(3));
+    expect(E.isLeft(rejectedValue.decode(true))).toBe(true);
+    expect(rejectedValue.encode(null)).toBeNull();
+  });
+});
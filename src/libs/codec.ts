@@ -0,0 +1,210 @@
+import * as A from 'fp-ts/Array';
+import * as E from 'fp-ts/Either';
+import { pipe } from 'fp-ts/function';
+import * as NA from 'fp-ts/NonEmptyArray';
+import * as O from 'fp-ts/Option';
+import { bound } from './decorator';
+
+// ===============================
+// Runtime codecs, which decode unknown (e.g. JSON.parse'd) values into typed values
+// and encode typed values back into plain JSON values.
+//
+// Decoding never stops at the first failure: every mismatch is reported,
+// located by the path of the offending value.
+// ===============================
+
+export type Path = readonly (string | number)[];
+
+// Render a path the way it would be written in code, e.g. 'lines[0].quantity'
+export const pathToString = (path: Path): string =>
+  path.reduce<string>(
+    (acc, segment) => typeof segment === 'number'
+      ? `${acc}[${segment}]`
+      : acc ? `${acc}.${segment}` : segment,
+    '',
+  );
+
+export class DecodeError extends Error {
+  constructor(
+    readonly path: Path,
+    readonly expected: string,
+    readonly actual: unknown,
+  ) {
+    super(`expected ${expected} at ${pathToString(path) || 'root'}`);
+    this.name = new.target.name;
+  }
+
+  // Nest this error under the given path
+  @bound
+  at(...segments: Path): DecodeError {
+    return new DecodeError([...segments, ...this.path], this.expected, this.actual);
+  }
+}
+
+export type DecodeResult<T> = E.Either<NA.NonEmptyArray<DecodeError>, T>;
+
+const DecodeApplicative = E.getApplicativeValidation(NA.getSemigroup<DecodeError>());
+
+const failure = <T>(expected: string, actual: unknown): DecodeResult<T> =>
+  E.left(NA.of(new DecodeError([], expected, actual)));
+
+const atPath = (...segments: Path) => NA.map((e: DecodeError) => e.at(...segments));
+
+export class Codec<T> {
+  constructor(
+    readonly name: string,
+    readonly is: (u: unknown) => u is T,
+    readonly decode: (u: unknown) => DecodeResult<T>,
+    readonly encode: (a: T) => unknown,
+  ) { }
+}
+
+export type TypeOf<C> = C extends Codec<infer T> ? T : never;
+
+export type Props<P> = { [K in keyof P]: Codec<P[K]> };
+
+const isObject = (u: unknown): u is Record<string, unknown> =>
+  typeof u === 'object' && u !== null && !Array.isArray(u);
+
+// ===============================
+// Primitives
+// ===============================
+
+const primitive = <T>(name: string, is: (u: unknown) => u is T): Codec<T> =>
+  new Codec(name, is, u => is(u) ? E.right(u) : failure(name, u), a => a);
+
+export const string = primitive('string', (u): u is string => typeof u === 'string');
+
+export const number = primitive('number', (u): u is number => typeof u === 'number' && Number.isFinite(u));
+
+export const boolean = primitive('boolean', (u): u is boolean => typeof u === 'boolean');
+
+// Anything at all, e.g. a value which is decoded later, once it is known which codec to use
+export const unknown = primitive('unknown', (u): u is unknown => true);
+
+// One of the given strings, e.g. the tag of a choice type
+export const literal = <L extends string>(...values: [L, ...L[]]): Codec<L> =>
+  primitive(values.map(v => `'${v}'`).join(' | '), (u): u is L => values.some(v => v === u));
+
+// ===============================
+// Combinators
+// ===============================
+
+// Accept null or a missing value as well as the given codec
+export const nullable = <T>(codec: Codec<T>): Codec<T | null> => new Codec<T | null>(
+  `${codec.name} | null`,
+  (u): u is T | null => u === null || codec.is(u),
+  u => u === null || u === undefined ? E.right(null) : codec.decode(u),
+  a => a === null ? null : codec.encode(a),
+);
+
+// An fp-ts Option on the wire as a nullable value:
+// null or a missing value decodes to None, anything else to Some, and back again
+export const optionFromNullable = <T>(codec: Codec<T>): Codec<O.Option<T>> => new Codec<O.Option<T>>(
+  `${codec.name} | null`,
+  (u): u is O.Option<T> => isObject(u) && (u._tag === 'None' || (u._tag === 'Some' && codec.is(u.value))),
+  u => u === null || u === undefined ? E.right(O.none) : pipe(codec.decode(u), E.map(O.some)),
+  O.match(() => null, codec.encode),
+);
+
+export const array = <T>(codec: Codec<T>): Codec<T[]> => new Codec<T[]>(
+  `${codec.name}[]`,
+  (u): u is T[] => Array.isArray(u) && u.every(codec.is),
+  u => Array.isArray(u)
+    ? pipe(
+      u,
+      A.traverseWithIndex(DecodeApplicative)((index, item) => pipe(codec.decode(item), E.mapLeft(atPath(index)))),
+    )
+    : failure(`${codec.name}[]`, u),
+  A.map(codec.encode),
+);
+
+export const record = <T>(codec: Codec<T>): Codec<Record<string, T>> => new Codec<Record<string, T>>(
+  `Record<string, ${codec.name}>`,
+  (u): u is Record<string, T> => isObject(u) && Object.values(u).every(codec.is),
+  u => isObject(u)
+    ? pipe(
+      Object.entries(u),
+      A.traverse(DecodeApplicative)(([key, value]) => pipe(
+        codec.decode(value),
+        E.mapLeft(atPath(key)),
+        E.map(decoded => [key, decoded] as const),
+      )),
+      E.map(entries => Object.fromEntries(entries)),
+    )
+    : failure(`Record<string, ${codec.name}>`, u),
+  a => Object.fromEntries(Object.entries(a).map(([key, value]) => [key, codec.encode(value)])),
+);
+
+// Try each codec in turn, and take the first one which succeeds
+export const union = <Cs extends [Codec<any>, ...Codec<any>[]]>(...codecs: Cs): Codec<TypeOf<Cs[number]>> => {
+  const name = codecs.map(c => c.name).join(' | ');
+  return new Codec<TypeOf<Cs[number]>>(
+    name,
+    (u): u is TypeOf<Cs[number]> => codecs.some(c => c.is(u)),
+    u => pipe(
+      codecs.find(c => E.isRight(c.decode(u))),
+      O.fromNullable,
+      O.match(() => failure(name, u), c => c.decode(u)),
+    ),
+    a => pipe(
+      codecs.find(c => c.is(a)),
+      O.fromNullable,
+      O.match(() => a, c => c.encode(a)),
+    ),
+  );
+};
+
+// Decode with the codec chosen by looking at the object, e.g. at which fields it has,
+// so that failures are reported by the codec which was meant to match rather than by all of them.
+// Encode with the first codec which recognises the value, as union does.
+export const select = <Cs extends [Codec<any>, ...Codec<any>[]]>(
+  choose: (u: Record<string, unknown>) => Cs[number],
+  ...codecs: Cs
+): Codec<TypeOf<Cs[number]>> => {
+  const alternatives = union(...codecs);
+  return new Codec<TypeOf<Cs[number]>>(
+    alternatives.name,
+    alternatives.is,
+    u => isObject(u) ? choose(u).decode(u) : failure(alternatives.name, u),
+    alternatives.encode,
+  );
+};
+
+// A plain object with the given properties
+export const struct = <P>(props: Props<P>): Codec<P> => {
+  const entries = Object.entries(props) as [string, Codec<unknown>][];
+  const name = `{ ${entries.map(([key, codec]) => `${key}: ${codec.name}`).join(', ')} }`;
+  return new Codec<P>(
+    name,
+    (u): u is P => isObject(u) && entries.every(([key, codec]) => codec.is(u[key])),
+    u => isObject(u)
+      ? pipe(
+        entries,
+        A.traverse(DecodeApplicative)(([key, codec]) => pipe(
+          codec.decode(u[key]),
+          E.mapLeft(atPath(key)),
+          E.map(decoded => [key, decoded] as const),
+        )),
+        E.map(decoded => Object.fromEntries(decoded) as P),
+      )
+      : failure(name, u),
+    a => Object.fromEntries(entries.map(([key, codec]) => [key, codec.encode(a[key as keyof P])])),
+  );
+};
+
+// An instance of the given class, decoded from a plain object with the given properties
+// and then built with `construct`, so that the result has the real prototype (and methods).
+export const classOf = <T extends P, P>(
+  cls: abstract new (...args: any[]) => T,
+  props: Props<P>,
+  construct: (p: P) => T,
+): Codec<T> => {
+  const fields = struct(props);
+  return new Codec<T>(
+    cls.name,
+    (u): u is T => u instanceof cls,
+    u => pipe(fields.decode(u), E.map(construct)),
+    fields.encode,
+  );
+};
@@ -4,6 +4,8 @@ export function bound(originalMethod: any, context: ClassMemberDecoratorContext)
     if (context.private) {
         throw new Error(`'bound' cannot decorate private properties like ${methodName as string}.`);
     }
+    // a getter is always called on its own instance, so there is nothing to bind
+    if (context.kind === 'getter') return;
     context.addInitializer(function () {
         // @ts-ignore: TS2571
         this[methodName] = this[methodName].bind(this);
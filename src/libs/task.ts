@@ -0,0 +1,18 @@
+import * as T from 'fp-ts/Task';
+
+/// Like `T.traverseArray`, but with at most `limit` of the tasks running at the same time.
+/// The results are in the same order as the inputs. A limit below 1, or which is not a finite number (e.g. NaN), is taken to be 1.
+export const traverseArrayWithLimit = (limit: number) => <A, B>(f: (a: A) => T.Task<B>) =>
+  (as: readonly A[]): T.Task<B[]> => () => {
+    const results: B[] = new Array(as.length);
+    let next = 0;
+    // each worker takes the next input as soon as its task is done
+    const worker = async (): Promise<void> => {
+      while (next < as.length) {
+        const i = next++;
+        results[i] = await f(as[i])();
+      }
+    };
+    const workers = Math.min(Number.isFinite(limit) ? Math.max(1, Math.floor(limit)) : 1, as.length);
+    return Promise.all(Array.from({ length: workers }, worker)).then(() => results);
+  };
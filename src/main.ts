@@ -0,0 +1,28 @@
+// ======================================================
+// This file starts the application: the HTTP server, and the dispatcher of the outbox
+//
+// The port is taken from the PORT environment variable, and is 3000 otherwise.
+// ======================================================
+
+import { createApp } from './composition-root';
+import { createHttpServer } from './http-server';
+import { pollOutbox } from './order-taking/place-order/event-dispatcher';
+
+const port = Number(process.env.PORT ?? 3000);
+
+const app = createApp();
+
+const stopPolling = pollOutbox(app.dispatchEvents, 1_000, result => {
+  if (result._tag === 'Left') {
+    console.error(`The outbox could not be dispatched: ${result.left.exception.message}`);
+  }
+});
+
+const server = createHttpServer(app).listen(port, () => console.log(`Listening on http://localhost:${port}`));
+
+const stop = () => {
+  stopPolling();
+  server.close();
+};
+process.on('SIGINT', stop);
+process.on('SIGTERM', stop);
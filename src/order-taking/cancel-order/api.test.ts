@@ -0,0 +1,147 @@
+import { describe, expect, it } from '@jest/globals';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import * as TE from 'fp-ts/TaskEither';
+import {
+  checkAddressExists,
+  checkProductExists,
+  createOrderAcknowledgmentLetter,
+  getExchangeRate,
+  getPricingFunction,
+  getShippingRateTable,
+  getTaxRateTable,
+  publishNothing,
+  saveNothing,
+  sendOrderAcknowledgment,
+} from '../../composition-root';
+import { String50 } from '../common-types';
+import { ConcurrencyConflict, createInMemoryEventStore, executeOrderCommand, loadOrder } from '../order/event-store';
+import { Cancel, CancelledOrder, Deliver, Place, Ship, statusOf } from '../order/order';
+import { deserializeOrderForm, HttpRequest, placeOrderFromForm } from '../place-order/api';
+import { OrderPlaced } from '../place-order/public-types';
+import { createCancelOrderApi } from './api';
+
+import type { OrderEventStore } from '../order/event-store';
+import type { OrderCommand, OrderEvent } from '../order/order';
+
+const address = { addressLine1: '1 Main St', city: 'Springfield', zipCode: '94105' };
+
+/// The OrderPlaced event of an order, placed with the dummy dependencies
+const placeOrder = async (orderId: string): Promise<OrderPlaced> => {
+  const orderForm = deserializeOrderForm(JSON.stringify({
+    orderId,
+    customerInfo: { firstName: 'Ada', lastName: 'Lovelace', emailAddress: 'ada@example.com', vipStatus: 'Normal' },
+    shippingAddress: address,
+    billingAddress: address,
+    lines: [{ orderLineId: 'line-1', productCode: 'W1234', quantity: 2 }],
+    currency: 'USD',
+  }));
+  if (E.isLeft(orderForm)) throw orderForm.left;
+  const events = await placeOrderFromForm({
+    checkProductExists,
+    checkAddressExists,
+    getPricingFunction,
+    getExchangeRate,
+    getTaxRateTable,
+    getShippingRateTable,
+    saveOrder: saveNothing,
+    createOrderAcknowledgmentLetter,
+    sendOrderAcknowledgment,
+    publishEvents: publishNothing,
+  })(orderForm.right)();
+  if (E.isLeft(events)) throw events.left;
+  const placed = events.right.find((event): event is OrderPlaced => event instanceof OrderPlaced);
+  if (placed === undefined) throw new Error('no OrderPlaced event');
+  return placed;
+};
+
+/// An event store in which the order has been placed, and then had the given commands
+const storeWith = async (placed: OrderPlaced, ...commands: OrderCommand[]) => {
+  const store = createInMemoryEventStore<OrderEvent>();
+  for (const command of [new Place(placed), ...commands]) {
+    await executeOrderCommand(store)(command)();
+  }
+  return store;
+};
+
+const cancel = (store: OrderEventStore, body: unknown) => createCancelOrderApi(store)(
+  new HttpRequest('POST', '/orders/cancellations', {}, typeof body === 'string' ? body : JSON.stringify(body)),
+);
+
+const trackingNumber = String50.unsafeCreate('TRACK-1');
+
+describe('the CancelOrder API', () => {
+  it('cancels a placed order, and refunds everything which was billed for it', async () => {
+    const placed = await placeOrder('order-1');
+    const store = await storeWith(placed);
+
+    const response = await cancel(store, { orderId: 'order-1', reason: 'ordered by mistake' });
+
+    expect(response.httpStatusCode).toBe(200);
+    expect(JSON.parse(response.body)).toEqual([
+      { OrderCancelled: { orderId: 'order-1', reason: 'ordered by mistake' } },
+      {
+        RefundableOrderCancelled: {
+          orderId: 'order-1',
+          billingAddress: expect.objectContaining({ addressLine1: '1 Main St', zipCode: '94105' }),
+          amountToRefund: placed.amountToBill.value.toDecimalString(),
+          currency: 'USD',
+        },
+      },
+    ]);
+    const order = await loadOrder(store)(placed.orderId)();
+    expect(E.isRight(order) && O.isSome(order.right) && order.right.value).toBeInstanceOf(CancelledOrder);
+  });
+
+  it('answers an order which has been shipped, delivered or cancelled already with a 409, and leaves it as it is', async () => {
+    const placed = await placeOrder('order-1');
+    const stores = [
+      await storeWith(placed, new Ship(placed.orderId, trackingNumber)),
+      await storeWith(placed, new Ship(placed.orderId, trackingNumber), new Deliver(placed.orderId)),
+      await storeWith(placed, new Cancel(placed.orderId, String50.unsafeCreate('ordered by mistake'))),
+    ];
+
+    const responses = await Promise.all(stores.map(store => cancel(store, { orderId: 'order-1', reason: 'too late' })));
+
+    expect(responses.map(response => response.httpStatusCode)).toEqual([409, 409, 409]);
+    expect(responses.map(response => JSON.parse(response.body).detail)).toEqual([
+      'order order-1 is Shipped, so it can no longer be cancelled',
+      'order order-1 is Delivered, so it can no longer be cancelled',
+      'order order-1 is Cancelled, so it can no longer be cancelled',
+    ]);
+    const orders = await Promise.all(stores.map(store => loadOrder(store)(placed.orderId)()));
+    expect(orders.map(order => E.isRight(order) && O.isSome(order.right) && statusOf(order.right.value))).toEqual(['Shipped', 'Delivered', 'Cancelled']);
+  });
+
+  it('answers an order which was never placed with a 404', async () => {
+    const response = await cancel(createInMemoryEventStore<OrderEvent>(), { orderId: 'order-1', reason: 'ordered by mistake' });
+
+    expect(response.httpStatusCode).toBe(404);
+  });
+
+  it('answers an invalid cancellation form with a 422, and a body which is not one with a 400', async () => {
+    const store = await storeWith(await placeOrder('order-1'));
+
+    const invalid = await cancel(store, { orderId: 'order-1', reason: '' });
+    const malformed = await cancel(store, { orderId: 'order-1' });
+
+    expect(invalid.httpStatusCode).toBe(422);
+    expect(JSON.parse(invalid.body).errors.map((e: { path: string }) => e.path)).toEqual(['reason']);
+    expect(malformed.httpStatusCode).toBe(400);
+    expect(JSON.parse(malformed.body).code).toBe('MalformedForm');
+  });
+
+  it('answers an order which changed while it was being cancelled with a 503, to be retried', async () => {
+    const placed = await placeOrder('order-1');
+    const store = await storeWith(placed);
+    const conflicting: OrderEventStore = {
+      ...store,
+      append: (streamId, expectedVersion) => TE.left(new ConcurrencyConflict(streamId, expectedVersion, expectedVersion + 1)),
+    };
+
+    const response = await cancel(conflicting, { orderId: 'order-1', reason: 'ordered by mistake' });
+
+    expect(response.httpStatusCode).toBe(503);
+    expect(response.headers['Retry-After']).toBe('1');
+  });
+});
@@ -0,0 +1,142 @@
+// ======================================================
+// This file contains the JSON API interface to the CancelOrder workflow
+//
+// 1) The HttpRequest is turned into a DTO, which is then turned into a Domain object
+// 2) The main workflow function is called
+// 3) The output is turned into a DTO which is turned into a HttpResponse
+// ======================================================
+
+import * as A from 'fp-ts/Array';
+import * as E from 'fp-ts/Either';
+import { flow, pipe } from 'fp-ts/function';
+import * as NA from 'fp-ts/NonEmptyArray';
+import * as O from 'fp-ts/Option';
+import * as TE from 'fp-ts/TaskEither';
+import { match, P } from 'ts-pattern';
+import { ConcurrencyConflict, executeOrderCommand, loadOrder } from '../order/event-store';
+import {
+  Cancel,
+  CancelledOrder,
+  DeliveredOrder,
+  IllegalTransition,
+  OrderNotFound,
+  PlacedOrder,
+  ShippedOrder,
+  statusOf,
+} from '../order/order';
+import { HttpResponse, Json } from '../place-order/api';
+import { MalformedForm, RemoteServiceError, ServiceInfo, ValidationError, ValidationErrors } from '../place-order/public-types';
+import { CancellationFormDto, CancelOrderErrorDto, cancelOrderEventDtoCodec, cancelOrderEventDtoFromDomain } from './dto';
+import { cancelOrder } from './implementation';
+import { OrderNotCancellable } from './public-types';
+
+import type { OrderEventStore } from '../order/event-store';
+import type { HttpRequest } from '../place-order/api';
+import type { CheckOrderCancellable, LoadOrder, SaveCancellation } from './implementation.types';
+import type { CancelOrderError } from './public-types';
+
+/// An API takes a HttpRequest as input and returns a async response
+type CancelOrderApi = (i: HttpRequest) => Promise<HttpResponse>;
+
+// =============================
+// Implementation
+// =============================
+
+const orderEventStoreService = new ServiceInfo('InMemoryEventStore', new URL('memory:order-events'));
+
+/// An order whose events are not a possible history is a failure of the store, not of the caller
+export const loadPlacedOrder = (orderEventStore: OrderEventStore): LoadOrder => flow(
+  loadOrder(orderEventStore),
+  TE.mapLeft(err => err instanceof RemoteServiceError ? err : new RemoteServiceError(orderEventStoreService, err)),
+);
+
+/// Only an order which has not been shipped yet can be cancelled
+export const checkOrderCancellable: CheckOrderCancellable = order =>
+  match(order)
+    .with(P.instanceOf(PlacedOrder), E.right)
+    .with(P.union(P.instanceOf(ShippedOrder), P.instanceOf(DeliveredOrder), P.instanceOf(CancelledOrder)), o =>
+      E.left(new OrderNotCancellable(o.id, statusOf(o))))
+    .exhaustive();
+
+/// The event store checks again that the order can be cancelled, in case it changed since it was loaded.
+/// If it changed while the cancellation was being appended, it is worth trying again.
+export const saveCancellation = (orderEventStore: OrderEventStore): SaveCancellation => cancelled => pipe(
+  executeOrderCommand(orderEventStore)(new Cancel(cancelled.orderId, cancelled.reason)),
+  TE.mapLeft(err =>
+    match(err)
+      .with(P.instanceOf(IllegalTransition), e => new OrderNotCancellable(e.orderId, e.status))
+      .with(P.instanceOf(ConcurrencyConflict), e => new RemoteServiceError(orderEventStoreService, e, O.some(1)))
+      .with(P.instanceOf(OrderNotFound), e => e)
+      .with(P.instanceOf(RemoteServiceError), e => e)
+      .exhaustive()),
+  // a Cancel command which was appended always leaves the order cancelled
+  TE.filterOrElseW(
+    (order): order is CancelledOrder => order instanceof CancelledOrder,
+    order => new OrderNotCancellable(order.id, statusOf(order)),
+  ),
+);
+
+// -------------------------------
+// error responses
+// -------------------------------
+
+/// The HTTP status and problem title used for each kind of CancelOrderError
+const problemOf = (err: CancelOrderError): { status: number; title: string } =>
+  match(err)
+    .with(P.instanceOf(MalformedForm), () => ({ status: 400, title: 'The request body is not a cancellation form' }))
+    .with(P.instanceOf(ValidationErrors), () => ({ status: 422, title: 'The cancellation form is invalid' }))
+    .with(P.instanceOf(OrderNotFound), () => ({ status: 404, title: 'The order does not exist' }))
+    .with(P.instanceOf(OrderNotCancellable), () => ({ status: 409, title: 'The order can no longer be cancelled' }))
+    .with(P.instanceOf(RemoteServiceError), e => O.isSome(e.retryAfterSeconds)
+      ? { status: 503, title: `${e.service.name} is temporarily unavailable` }
+      : { status: 502, title: `${e.service.name} failed` })
+    .exhaustive();
+
+/// Tell the client when to retry, if the failing service gave us a hint
+const retryHeadersOf = (err: CancelOrderError): Record<string, string> =>
+  match(err)
+    .with(P.instanceOf(RemoteServiceError), e => pipe(
+      e.retryAfterSeconds,
+      O.match(() => ({}), seconds => ({ 'Retry-After': `${seconds}` })),
+    ))
+    .otherwise(() => ({}));
+
+const toErrorResponse = (err: CancelOrderError): HttpResponse => {
+  const { status, title } = problemOf(err);
+  return pipe(
+    CancelOrderErrorDto.fromDomain(err).toProblemDetails(status, title),
+    dto => new HttpResponse(status, { 'Content-Type': 'application/problem+json', ...retryHeadersOf(err) }, Json.serialize(dto)),
+  );
+};
+
+// -------------------------------
+// workflow
+// -------------------------------
+
+/// The orders are loaded from, and cancelled in, the given event store
+export const createCancelOrderApi = (orderEventStore: OrderEventStore): CancelOrderApi => (request: HttpRequest) => pipe(
+  request.body,
+  Json.deserialize(CancellationFormDto.codec),
+  E.mapLeft(flow(NA.map(ValidationError.fromDecodeError), errors => new MalformedForm(errors))),
+  TE.fromEither,
+  TE.flatMap(cancellationForm => pipe(
+    cancellationForm.toUnvalidatedCancellation(), // convert to domain object
+    // now we are in the pure domain
+    cancelOrder(
+      // setup the dependencies. See "Injecting Dependencies" in chapter 9
+      loadPlacedOrder(orderEventStore),
+      checkOrderCancellable,
+      saveCancellation(orderEventStore),
+    ),
+  )),
+)().then(
+  // now convert from the pure domain back to a HttpResponse
+  E.match(
+    toErrorResponse,
+    flow(
+      A.map(flow(cancelOrderEventDtoFromDomain, cancelOrderEventDtoCodec.encode)),
+      Json.serialize,
+      json => new HttpResponse(200, { 'Content-Type': 'application/json' }, json),
+    ),
+  ),
+);
@@ -0,0 +1,157 @@
+// ======================================================
+// This file contains the DTOs for the CancelOrder workflow
+//
+// As for PlaceOrder, each type of DTO is defined using primitive, serializable types
+// and then there are `toDomain` and `fromDomain` functions defined for each DTO.
+// The DTOs which are shared with PlaceOrder (e.g. AddressDto) are reused.
+// ======================================================
+
+import { match, P } from 'ts-pattern';
+import * as C from '../../libs/codec';
+import { bound } from '../../libs/decorator';
+import { ValueObject } from '../../libs/model-type';
+import { OrderCancelled, OrderNotFound } from '../order/order';
+import { AddressDto, ProblemDetailsDto, ValidationErrorDto } from '../place-order/dto';
+import { MalformedForm, RemoteServiceError, ValidationErrors } from '../place-order/public-types';
+import { OrderNotCancellable, RefundableOrderCancelled, UnvalidatedCancellation } from './public-types';
+
+import type { CancelOrderError, CancelOrderEvent } from './public-types';
+
+//===============================================
+// DTO for CancellationForm
+//===============================================
+
+export class CancellationFormDto extends ValueObject {
+  constructor(
+    readonly orderId: string,
+    readonly reason: string,
+  ) { super() }
+
+  static readonly codec: C.Codec<CancellationFormDto> = C.classOf(
+    CancellationFormDto,
+    { orderId: C.string, reason: C.string },
+    p => new CancellationFormDto(p.orderId, p.reason),
+  );
+
+  /// Convert the CancellationForm into a UnvalidatedCancellation
+  /// This always succeeds because there is no validation.
+  @bound
+  toUnvalidatedCancellation(): UnvalidatedCancellation {
+    return new UnvalidatedCancellation(this.orderId, this.reason);
+  }
+}
+
+//===============================================
+// DTO for OrderCancelled event
+//===============================================
+
+/// Event to send to shipping context
+export class OrderCancelledDto extends ValueObject {
+  constructor(
+    readonly orderId: string,
+    readonly reason: string,
+  ) { super() }
+
+  static readonly codec: C.Codec<OrderCancelledDto> = C.classOf(
+    OrderCancelledDto,
+    { orderId: C.string, reason: C.string },
+    p => new OrderCancelledDto(p.orderId, p.reason),
+  );
+
+  /// Convert a OrderCancelled object into the corresponding DTO.
+  /// Used when exporting from the domain to the outside world.
+  static fromDomain(domainObj: OrderCancelled): OrderCancelledDto {
+    return new OrderCancelledDto(domainObj.orderId.value, domainObj.reason.value);
+  }
+}
+
+//===============================================
+// DTO for RefundableOrderCancelled event
+//===============================================
+
+/// Event to send to billing context
+export class RefundableOrderCancelledDto extends ValueObject {
+  constructor(
+    readonly orderId: string,
+    readonly billingAddress: AddressDto,
+    readonly amountToRefund: string, // an exact decimal, e.g. "12.50"
+    readonly currency: string, // the currency of amountToRefund
+  ) { super() }
+
+  static readonly codec: C.Codec<RefundableOrderCancelledDto> = C.classOf(
+    RefundableOrderCancelledDto,
+    { orderId: C.string, billingAddress: AddressDto.codec, amountToRefund: C.string, currency: C.string },
+    p => new RefundableOrderCancelledDto(p.orderId, p.billingAddress, p.amountToRefund, p.currency),
+  );
+
+  /// Convert a RefundableOrderCancelled object into the corresponding DTO.
+  /// Used when exporting from the domain to the outside world.
+  static fromDomain(domainObj: RefundableOrderCancelled): RefundableOrderCancelledDto {
+    return new RefundableOrderCancelledDto(
+      domainObj.orderId.value,
+      AddressDto.fromDomain(domainObj.billingAddress),
+      domainObj.amountToRefund.value.toDecimalString(),
+      domainObj.currency.value,
+    );
+  }
+}
+
+//===============================================
+// DTO for CancelOrderEvent
+//===============================================
+
+/// Use a dictionary representation of a CancelOrderEvent, suitable for JSON
+/// See "Serializing Records and Choice Types Using Maps" in chapter 11
+export type CancelOrderEventDto =
+  | { OrderCancelled: OrderCancelledDto }
+  | { RefundableOrderCancelled: RefundableOrderCancelledDto };
+
+export const cancelOrderEventDtoCodec: C.Codec<CancelOrderEventDto> = C.union(
+  C.struct({ OrderCancelled: OrderCancelledDto.codec }),
+  C.struct({ RefundableOrderCancelled: RefundableOrderCancelledDto.codec }),
+);
+
+/// Convert a CancelOrderEvent into the corresponding DTO.
+/// Used when exporting from the domain to the outside world.
+export const cancelOrderEventDtoFromDomain = (domainObj: CancelOrderEvent): CancelOrderEventDto =>
+  match(domainObj)
+    .with(P.instanceOf(OrderCancelled), (i): CancelOrderEventDto => ({ OrderCancelled: OrderCancelledDto.fromDomain(i) }))
+    .with(P.instanceOf(RefundableOrderCancelled), (i): CancelOrderEventDto => ({ RefundableOrderCancelled: RefundableOrderCancelledDto.fromDomain(i) }))
+    .exhaustive();
+
+//===============================================
+// DTO for CancelOrderError
+//===============================================
+
+export class CancelOrderErrorDto extends ValueObject {
+  constructor(
+    readonly code: string,
+    readonly message: string,
+    readonly errors: ValidationErrorDto[],
+  ) { super() }
+
+  static readonly codec: C.Codec<CancelOrderErrorDto> = C.classOf(
+    CancelOrderErrorDto,
+    { code: C.string, message: C.string, errors: C.array(ValidationErrorDto.codec) },
+    p => new CancelOrderErrorDto(p.code, p.message, p.errors),
+  );
+
+  static fromDomain(domainObj: CancelOrderError): CancelOrderErrorDto {
+    return match(domainObj)
+      .with(P.instanceOf(MalformedForm), err =>
+        new CancelOrderErrorDto('MalformedForm', err.message, err.errors.map(ValidationErrorDto.fromDomain)))
+      .with(P.instanceOf(ValidationErrors), err =>
+        new CancelOrderErrorDto('ValidationError', err.message, err.errors.map(ValidationErrorDto.fromDomain)))
+      .with(P.instanceOf(OrderNotFound), err => new CancelOrderErrorDto('OrderNotFound', err.message, []))
+      .with(P.instanceOf(OrderNotCancellable), err => new CancelOrderErrorDto('OrderNotCancellable', err.message, []))
+      .with(P.instanceOf(RemoteServiceError), err =>
+        new CancelOrderErrorDto('RemoteServiceError', `${err.service.name}: ${err.exception.message}`, []))
+      .exhaustive();
+  }
+
+  /// The error body in the "application/problem+json" format (RFC 7807)
+  @bound
+  toProblemDetails(status: number, title: string): ProblemDetailsDto {
+    return new ProblemDetailsDto(`urn:order-taking:cancel-order:${this.code}`, title, status, this.message, this.code, this.errors);
+  }
+}
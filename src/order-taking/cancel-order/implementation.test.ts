@@ -0,0 +1,152 @@
+import { describe, expect, it } from '@jest/globals';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import * as TE from 'fp-ts/TaskEither';
+import {
+  checkAddressExists,
+  checkProductExists,
+  createOrderAcknowledgmentLetter,
+  getExchangeRate,
+  getPricingFunction,
+  getShippingRateTable,
+  getTaxRateTable,
+  publishNothing,
+  saveNothing,
+  sendOrderAcknowledgment,
+} from '../../composition-root';
+import { BillingAmount, Money, String50 } from '../common-types';
+import { CancelledOrder, OrderAmended, OrderCancelled, PlacedOrder, replay, ShippedOrder } from '../order/order';
+import { deserializeOrderForm, placeOrderFromForm } from '../place-order/api';
+import { OrderPlaced, ValidationErrors } from '../place-order/public-types';
+import { checkOrderCancellable } from './api';
+import { cancelOrder } from './implementation';
+import { OrderNotCancellable, RefundableOrderCancelled, UnvalidatedCancellation } from './public-types';
+
+import type { Order } from '../order/order';
+import type { SaveCancellation } from './implementation.types';
+import type { CancelOrderError, CancelOrderEvent } from './public-types';
+
+const address = { addressLine1: '1 Main St', city: 'Springfield', zipCode: '94105' };
+
+/// The OrderPlaced event of an order, placed with the dummy dependencies
+const placeOrder = async (orderId: string): Promise<OrderPlaced> => {
+  const orderForm = deserializeOrderForm(JSON.stringify({
+    orderId,
+    customerInfo: { firstName: 'Ada', lastName: 'Lovelace', emailAddress: 'ada@example.com', vipStatus: 'Normal' },
+    shippingAddress: address,
+    billingAddress: address,
+    lines: [{ orderLineId: 'line-1', productCode: 'W1234', quantity: 2 }],
+    currency: 'USD',
+  }));
+  if (E.isLeft(orderForm)) throw orderForm.left;
+  const events = await placeOrderFromForm({
+    checkProductExists,
+    checkAddressExists,
+    getPricingFunction,
+    getExchangeRate,
+    getTaxRateTable,
+    getShippingRateTable,
+    saveOrder: saveNothing,
+    createOrderAcknowledgmentLetter,
+    sendOrderAcknowledgment,
+    publishEvents: publishNothing,
+  })(orderForm.right)();
+  if (E.isLeft(events)) throw events.left;
+  const placed = events.right.find((event): event is OrderPlaced => event instanceof OrderPlaced);
+  if (placed === undefined) throw new Error('no OrderPlaced event');
+  return placed;
+};
+
+/// The details of the order once it has been amended to bill the given amount
+const amendedTo = (placed: OrderPlaced, amount: string): OrderPlaced => {
+  const amountToBill = BillingAmount.unsafeCreate(Money.unsafeFromDecimal(amount, placed.currency.value));
+  const amended = new OrderAmended(
+    placed.orderId,
+    placed.shippingAddress,
+    placed.billingAddress,
+    placed.lines,
+    placed.shippingInfo,
+    placed.vipBenefits,
+    amountToBill,
+    placed.taxTotal,
+    amountToBill.value.subtract(placed.amountToBill.value),
+    placed.currency,
+    O.none,
+  );
+  const order = replay([placed, amended]);
+  if (E.isLeft(order) || O.isNone(order.right)) throw new Error('the amendment could not be replayed');
+  return order.right.value.details;
+};
+
+/// The workflow with an order which is loaded as it is given, and cancelled as the given save says
+const workflowWith = (order: Order, saveCancellation: SaveCancellation) => cancelOrder(
+  () => TE.right(O.some(order)),
+  checkOrderCancellable,
+  saveCancellation,
+);
+
+/// Cancel the details which are given, as the event store would
+const cancelling = (details: OrderPlaced): SaveCancellation => ({ reason }) => TE.right(new CancelledOrder(details, reason));
+
+const cancellation = new UnvalidatedCancellation('order-1', 'ordered by mistake');
+
+const eventsOf = async (result: Promise<E.Either<CancelOrderError, CancelOrderEvent[]>>) => {
+  const events = await result;
+  if (E.isLeft(events)) throw events.left;
+  return events.right;
+};
+
+const refundOf = (events: readonly CancelOrderEvent[]) =>
+  events.find((event): event is RefundableOrderCancelled => event instanceof RefundableOrderCancelled);
+
+describe('cancelOrder', () => {
+  it('cancels the order, and refunds what was billed, tax and shipping included', async () => {
+    const placed = await placeOrder('order-1');
+
+    const events = await eventsOf(workflowWith(new PlacedOrder(placed), cancelling(placed))(cancellation)());
+
+    expect(events[0]).toEqual(new OrderCancelled(placed.orderId, String50.unsafeCreate('ordered by mistake')));
+    expect(refundOf(events)?.amountToRefund.value.toDecimalString()).toBe(placed.amountToBill.value.toDecimalString());
+    expect(refundOf(events)?.billingAddress).toBe(placed.billingAddress);
+  });
+
+  it('refunds the order as it was cancelled, when it was amended after it was checked', async () => {
+    const placed = await placeOrder('order-1');
+
+    const events = await eventsOf(workflowWith(new PlacedOrder(placed), cancelling(amendedTo(placed, '3.00')))(cancellation)());
+
+    expect(refundOf(events)?.amountToRefund.value.toDecimalString()).toBe('3.00');
+  });
+
+  it('refunds nothing for an order which was not billed anything', async () => {
+    const placed = await placeOrder('order-1');
+    const free = amendedTo(placed, '0');
+
+    const events = await eventsOf(workflowWith(new PlacedOrder(free), cancelling(free))(cancellation)());
+
+    expect(events.map(event => event.constructor)).toEqual([OrderCancelled]);
+  });
+
+  it('does not cancel an order which has been shipped, nor try to record it', async () => {
+    const placed = await placeOrder('order-1');
+    let saved = 0;
+    const saveCancellation: SaveCancellation = ({ reason }) => {
+      saved++;
+      return TE.right(new CancelledOrder(placed, reason));
+    };
+
+    const result = await workflowWith(new ShippedOrder(placed, String50.unsafeCreate('TRACK-1')), saveCancellation)(cancellation)();
+
+    expect(result).toEqual(E.left(new OrderNotCancellable(placed.orderId, 'Shipped')));
+    expect(saved).toBe(0);
+  });
+
+  it('reports every invalid field of the cancellation at once', async () => {
+    const placed = await placeOrder('order-1');
+
+    const result = await workflowWith(new PlacedOrder(placed), cancelling(placed))(new UnvalidatedCancellation('', ''))();
+
+    expect(E.isLeft(result) && result.left).toBeInstanceOf(ValidationErrors);
+    expect(E.isLeft(result) && result.left instanceof ValidationErrors && result.left.errors.map(e => e.path.join('.'))).toEqual(['orderId', 'reason']);
+  });
+});
@@ -0,0 +1,98 @@
+import { sequenceS } from 'fp-ts/Apply';
+import * as E from 'fp-ts/Either';
+import { flow, pipe } from 'fp-ts/function';
+import * as NA from 'fp-ts/NonEmptyArray';
+import * as O from 'fp-ts/Option';
+import * as TE from 'fp-ts/TaskEither';
+import { OrderId, String50 } from '../common-types';
+import { OrderCancelled, OrderNotFound } from '../order/order';
+import { ValidationError, ValidationErrors } from '../place-order/public-types';
+import { ValidatedCancellation } from './implementation.types';
+import { RefundableOrderCancelled } from './public-types';
+
+import type { CancelledOrder } from '../order/order';
+import type {
+  CheckOrderCancellable,
+  CreateEvents,
+  LoadOrder,
+  SaveCancellation,
+} from './implementation.types';
+import type { CancelOrder, UnvalidatedCancellation } from './public-types';
+
+// ======================================================
+// This file contains the implementation for the CancelOrder workflow
+//
+// The workflow is built just like PlaceOrder: each step is a function,
+// the effects are injected as dependencies, and the errors of every step
+// are combined into the CancelOrderError union.
+// ======================================================
+
+// ---------------------------
+// ValidateCancellation step
+// ---------------------------
+
+type ValidateCancellation = (i: UnvalidatedCancellation) => E.Either<ValidationErrors, ValidatedCancellation>;
+
+const ValidationApplicative = E.getApplicativeValidation(NA.getSemigroup<ValidationError>());
+
+const validateCancellation: ValidateCancellation = ({ orderId, reason }) => pipe(
+  sequenceS(ValidationApplicative)({
+    orderId: pipe(orderId, OrderId.create, E.mapLeft(e => NA.of(ValidationError.from(e).at('orderId')))),
+    reason: pipe(reason, String50.create, E.mapLeft(e => NA.of(ValidationError.from(e).at('reason')))),
+  }),
+  E.mapLeft(errors => new ValidationErrors(errors)),
+  E.map(scope => new ValidatedCancellation(scope.orderId, scope.reason)),
+);
+
+// ---------------------------
+// CheckOrder step
+// ---------------------------
+
+/// Load the order, and check that it can still be cancelled
+const checkOrder = (loadOrder: LoadOrder, checkCancellable: CheckOrderCancellable) => (orderId: OrderId) => pipe(
+  loadOrder(orderId),
+  TE.flatMap(TE.fromOption(() => new OrderNotFound(orderId))),
+  TE.flatMapEither(checkCancellable),
+);
+
+// ---------------------------
+// Create events
+// ---------------------------
+
+/// Everything which was billed for the order is refunded, tax and shipping included,
+/// as it stood when it was cancelled, i.e. with all its amendments
+export const createRefundEvent = ({ details }: CancelledOrder): O.Option<RefundableOrderCancelled> =>
+  details.amountToBill.value.isPositive()
+    ? O.some(new RefundableOrderCancelled(details.orderId, details.billingAddress, details.amountToBill, details.currency))
+    : O.none;
+
+export const createEvents: CreateEvents = (cancelledOrder, cancelled) => [
+  cancelled,
+  ...pipe(
+    createRefundEvent(cancelledOrder),
+    O.match(() => [], refund => [refund]),
+  ),
+];
+
+// ---------------------------
+// overall workflow
+// ---------------------------
+
+export const cancelOrder = (
+  loadOrder: LoadOrder, // dependency
+  checkCancellable: CheckOrderCancellable, // dependency
+  saveCancellation: SaveCancellation, // dependency
+): CancelOrder => flow(
+  validateCancellation,
+  TE.fromEither,
+  TE.flatMap(({ orderId, reason }) => pipe(
+    checkOrder(loadOrder, checkCancellable)(orderId),
+    TE.as(new OrderCancelled(orderId, reason)),
+  )),
+  // only report the cancellation once it has been recorded, and refund the order as it was cancelled,
+  // which may have been amended since it was checked
+  TE.flatMap(cancelled => pipe(
+    saveCancellation(cancelled),
+    TE.map(cancelledOrder => createEvents(cancelledOrder, cancelled)),
+  )),
+);
@@ -0,0 +1,52 @@
+import { ValueObject } from '../../libs/model-type';
+
+import type { Option } from 'fp-ts/Option';
+import type * as TE from 'fp-ts/TaskEither';
+import type * as E from 'fp-ts/Either';
+import type { OrderId, String50 } from '../common-types';
+import type { CancelledOrder, Order, OrderCancelled, OrderNotFound, PlacedOrder } from '../order/order';
+import type { RemoteServiceError } from '../place-order/public-types';
+import type { CancelOrderEvent, OrderNotCancellable } from './public-types';
+
+// ======================================================
+// Define each step in the CancelOrder workflow using types
+// ======================================================
+
+// ---------------------------
+// Validated Cancellation
+// ---------------------------
+
+export class ValidatedCancellation extends ValueObject {
+  constructor(
+    readonly orderId: OrderId,
+    readonly reason: String50,
+  ) { super() }
+}
+
+// ---------------------------
+// Check order step
+// ---------------------------
+
+/// Return None if no order has been placed with the id
+export type LoadOrder = (i: OrderId) => TE.TaskEither<RemoteServiceError, Option<Order>>;
+
+/// Return the order if it can still be cancelled, i.e. it has not been shipped or cancelled yet
+export type CheckOrderCancellable = (i: Order) => E.Either<OrderNotCancellable, PlacedOrder>;
+
+// ---------------------------
+// Save cancellation step
+// ---------------------------
+
+/// Record that the order was cancelled, so that it is not shipped, and return the order as it was cancelled.
+/// The order may have changed since it was checked, e.g. it may have just been shipped,
+/// in which case it is not cancelled after all, or amended, in which case the amended order is cancelled.
+export type SaveCancellation = (i: OrderCancelled) => TE.TaskEither<OrderNotFound | OrderNotCancellable | RemoteServiceError, CancelledOrder>;
+
+// ---------------------------
+// Create events
+// ---------------------------
+
+export type CreateEvents = (
+  i1: CancelledOrder, // the order as it was cancelled, which may have changed since it was checked
+  i2: OrderCancelled,
+) => CancelOrderEvent[]; // output
@@ -0,0 +1,67 @@
+import { TaskEither } from 'fp-ts/TaskEither';
+import { ValueObject } from '../../libs/model-type';
+
+import type { Address, BillingAmount, Currency, OrderId } from '../common-types';
+import type { OrderCancelled, OrderNotFound, OrderStatus } from '../order/order';
+import type { RemoteServiceError, ValidationErrors } from '../place-order/public-types';
+
+// ==================================
+// This file contains the definitions of PUBLIC types (exposed at the boundary of the bounded context)
+// related to the CancelOrder workflow
+// ==================================
+
+// ------------------------------------
+// inputs to the workflow
+
+/// Why the customer wants the order cancelled, e.g. "ordered by mistake"
+export class UnvalidatedCancellation extends ValueObject {
+  constructor(
+    readonly orderId: string,
+    readonly reason: string,
+  ) { super() }
+}
+
+// ------------------------------------
+// outputs from the workflow (success case)
+
+// OrderCancelled is an event of the Order aggregate, see the order module
+
+/// Event to send to billing context
+/// Will only be created if the order was billed, i.e. its AmountToBill was not zero
+declare const refundableOrderCancelled: unique symbol;
+export class RefundableOrderCancelled extends ValueObject {
+  [refundableOrderCancelled]!: never;
+  constructor(
+    readonly orderId: OrderId,
+    readonly billingAddress: Address,
+    readonly amountToRefund: BillingAmount, // everything which was billed, tax and shipping included
+    readonly currency: Currency,
+  ) { super() }
+}
+
+/// The possible events resulting from the CancelOrder workflow
+/// Not all events will occur, depending on the logic of the workflow
+export type CancelOrderEvent = OrderCancelled | RefundableOrderCancelled;
+
+// ------------------------------------
+// error outputs
+
+/// The order has already been shipped, delivered or cancelled
+declare const orderNotCancellable: unique symbol;
+export class OrderNotCancellable extends Error {
+  [orderNotCancellable]!: never;
+  constructor(
+    readonly orderId: OrderId,
+    readonly status: OrderStatus,
+  ) {
+    super(`order ${orderId.value} is ${status}, so it can no longer be cancelled`);
+  }
+}
+
+/// All the things that can go wrong in this workflow
+export type CancelOrderError = ValidationErrors | OrderNotFound | OrderNotCancellable | RemoteServiceError;
+
+// ------------------------------------
+// the workflow itself
+
+export type CancelOrder = (i: UnvalidatedCancellation) => TaskEither<CancelOrderError, CancelOrderEvent[]>;
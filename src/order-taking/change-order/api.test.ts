@@ -0,0 +1,191 @@
+import { describe, expect, it } from '@jest/globals';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import {
+  checkAddressExists,
+  checkProductExists,
+  createOrderAcknowledgmentLetter,
+  getExchangeRate,
+  getPricingFunction,
+  getShippingRateTable,
+  getTaxRateTable,
+  sendOrderAcknowledgment,
+} from '../../composition-root';
+import { String50 } from '../common-types';
+import { ConcurrencyConflict, createInMemoryEventStore, executeOrderCommand, loadOrder } from '../order/event-store';
+import { Place, Ship, statusOf } from '../order/order';
+import { deserializeOrderForm, HttpRequest, placeOrderFromForm } from '../place-order/api';
+import { createInMemoryOrderStorage } from '../place-order/order-repository';
+import { publishThrough } from '../place-order/outbox';
+import { OrderPlaced } from '../place-order/public-types';
+import { createChangeOrderApi } from './api';
+
+import type { OrderEventStore } from '../order/event-store';
+import type { OrderCommand, OrderEvent } from '../order/order';
+import type { OrderStorage } from '../place-order/order-repository';
+
+const address = { addressLine1: '1 Main St', city: 'Springfield', zipCode: '94105' };
+
+/// The OrderPlaced event of an order with two lines, placed with the dummy dependencies and saved in the storage
+const placeOrder = async (orderId: string, storage: OrderStorage): Promise<OrderPlaced> => {
+  const orderForm = deserializeOrderForm(JSON.stringify({
+    orderId,
+    customerInfo: { firstName: 'Ada', lastName: 'Lovelace', emailAddress: 'ada@example.com', vipStatus: 'Normal' },
+    shippingAddress: address,
+    billingAddress: address,
+    lines: [
+      { orderLineId: 'line-1', productCode: 'W1234', quantity: 2 },
+      { orderLineId: 'line-2', productCode: 'W5678', quantity: 1 },
+    ],
+    currency: 'USD',
+  }));
+  if (E.isLeft(orderForm)) throw orderForm.left;
+  const events = await placeOrderFromForm({
+    checkProductExists,
+    checkAddressExists,
+    getPricingFunction,
+    getExchangeRate,
+    getTaxRateTable,
+    getShippingRateTable,
+    saveOrder: storage.orders.save,
+    createOrderAcknowledgmentLetter,
+    sendOrderAcknowledgment,
+    publishEvents: publishThrough(storage.outbox),
+  })(orderForm.right)();
+  if (E.isLeft(events)) throw events.left;
+  const placed = events.right.find((event): event is OrderPlaced => event instanceof OrderPlaced);
+  if (placed === undefined) throw new Error('no OrderPlaced event');
+  return placed;
+};
+
+/// An event store in which the order has been placed, and then had the given commands
+const storeWith = async (placed: OrderPlaced, ...commands: OrderCommand[]) => {
+  const store = createInMemoryEventStore<OrderEvent>();
+  for (const command of [new Place(placed), ...commands]) {
+    await executeOrderCommand(store)(command)();
+  }
+  return store;
+};
+
+const amend = (orderEventStore: OrderEventStore, storage: OrderStorage, body: unknown) => createChangeOrderApi({
+  checkProductExists,
+  checkAddressExists,
+  getPricingFunction,
+  getExchangeRate,
+  getTaxRateTable,
+  getShippingRateTable,
+  orderEventStore,
+  amendOrder: storage.orders.amend,
+})(new HttpRequest('POST', '/orders/amendments', {}, JSON.stringify(body)));
+
+/// Remove the second line, keeping the addresses
+const removeLine2 = { orderId: 'order-1', lines: [], removedLineIds: ['line-2'], shippingAddress: null, billingAddress: null };
+
+/// Add a line, keeping the addresses
+const addLine3 = {
+  orderId: 'order-1',
+  lines: [{ orderLineId: 'line-3', productCode: 'W9999', quantity: 1 }],
+  removedLineIds: [],
+  shippingAddress: null,
+  billingAddress: null,
+};
+
+/// The ids of the amendments in the outbox
+const amendmentsIn = async (storage: OrderStorage) => {
+  const messages = await storage.outbox.due(Number.MAX_SAFE_INTEGER)();
+  if (E.isLeft(messages)) throw messages.left;
+  return messages.right.map(message => message.messageId).filter(id => id.includes('/OrderAmended/'));
+};
+
+/// The order as it has been recorded
+const orderIn = async (store: OrderEventStore, placed: OrderPlaced) => {
+  const order = await loadOrder(store)(placed.orderId)();
+  if (E.isLeft(order) || O.isNone(order.right)) throw new Error('the order could not be loaded');
+  return order.right.value;
+};
+
+describe('the ChangeOrder API', () => {
+  it('amends a placed order, saves it as amended with the amendment in its outbox, and answers with the amendment', async () => {
+    const storage = createInMemoryOrderStorage();
+    const placed = await placeOrder('order-1', storage);
+    const store = await storeWith(placed);
+
+    const response = await amend(store, storage, removeLine2);
+
+    expect(response.httpStatusCode).toBe(200);
+    const [{ OrderAmended: amended }] = JSON.parse(response.body);
+    expect(amended.lines.map((line: { orderLineId: string }) => line.orderLineId)).toEqual(['line-1']);
+    expect(amended.billingDelta.startsWith('-')).toBe(true);
+    const order = await orderIn(store, placed);
+    expect(order.details.lines.map(line => line.orderLineId.value)).toEqual(['line-1']);
+    const saved = await storage.orders.load(placed.orderId)();
+    expect(E.isRight(saved) && O.isSome(saved.right) && saved.right.value.amountToBill.value.toDecimalString()).toBe(amended.amountToBill);
+    expect(await amendmentsIn(storage)).toEqual(['order-1/OrderAmended/2']);
+  });
+
+  it('does not record an amendment when the order was changed by someone else while it was being priced', async () => {
+    const storage = createInMemoryOrderStorage();
+    const placed = await placeOrder('order-1', storage);
+    const store = await storeWith(placed);
+    // someone else amends the order once it has been checked, i.e. on the second load
+    let loads = 0;
+    const racing: OrderEventStore = {
+      ...store,
+      load: streamId => async () => {
+        if (++loads === 2) {
+          await amend(store, storage, addLine3);
+        }
+        return store.load(streamId)();
+      },
+    };
+
+    const response = await amend(racing, storage, removeLine2);
+
+    expect(response.httpStatusCode).toBe(409);
+    expect(JSON.parse(response.body).code).toBe('ConcurrencyConflict');
+    // the amendment made in between is kept as it was, and the stale one was not applied on top of it
+    const order = await orderIn(store, placed);
+    expect(order.details.lines.map(line => line.orderLineId.value)).toEqual(['line-1', 'line-2', 'line-3']);
+    expect(await amendmentsIn(storage)).toEqual(['order-1/OrderAmended/2']);
+  });
+
+  it('answers an order which has been shipped with a 409, and one which was never placed with a 404', async () => {
+    const storage = createInMemoryOrderStorage();
+    const placed = await placeOrder('order-1', storage);
+    const shipped = await storeWith(placed, new Ship(placed.orderId, String50.unsafeCreate('TRACK-1')));
+
+    const notAmendable = await amend(shipped, storage, removeLine2);
+    const notFound = await amend(createInMemoryEventStore<OrderEvent>(), createInMemoryOrderStorage(), removeLine2);
+
+    expect(notAmendable.httpStatusCode).toBe(409);
+    expect(JSON.parse(notAmendable.body).code).toBe('OrderNotAmendable');
+    expect(statusOf(await orderIn(shipped, placed))).toBe('Shipped');
+    expect(await amendmentsIn(storage)).toEqual([]);
+    expect(notFound.httpStatusCode).toBe(404);
+  });
+
+  it('answers the removal of a line which the order does not have with a 422', async () => {
+    const storage = createInMemoryOrderStorage();
+    const store = await storeWith(await placeOrder('order-1', storage));
+
+    const response = await amend(store, storage, { ...removeLine2, removedLineIds: ['line-9'] });
+
+    expect(response.httpStatusCode).toBe(422);
+    expect(JSON.parse(response.body).errors.map((e: { path: string }) => e.path)).toEqual(['removedLineIds[0]']);
+  });
+});
+
+describe('executeOrderCommand', () => {
+  it('runs a command only if the order is still at the version which is expected', async () => {
+    const placed = await placeOrder('order-1', createInMemoryOrderStorage());
+    const store = await storeWith(placed);
+    const ship = new Ship(placed.orderId, String50.unsafeCreate('TRACK-1'));
+
+    const stale = await executeOrderCommand(store)(ship, O.some(0))();
+    const current = await executeOrderCommand(store)(ship, O.some(1))();
+
+    expect(stale).toEqual(E.left(new ConcurrencyConflict('Order-order-1', 0, 1)));
+    expect(E.isRight(current)).toBe(true);
+    expect(statusOf(await orderIn(store, placed))).toBe('Shipped');
+  });
+});
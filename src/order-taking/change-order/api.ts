@@ -0,0 +1,158 @@
+// ======================================================
+// This file contains the JSON API interface to the ChangeOrder workflow
+//
+// 1) The HttpRequest is turned into a DTO, which is then turned into a Domain object
+// 2) The main workflow function is called
+// 3) The output is turned into a DTO which is turned into a HttpResponse
+// ======================================================
+
+import * as A from 'fp-ts/Array';
+import * as E from 'fp-ts/Either';
+import { flow, pipe } from 'fp-ts/function';
+import * as NA from 'fp-ts/NonEmptyArray';
+import * as O from 'fp-ts/Option';
+import * as TE from 'fp-ts/TaskEither';
+import { match, P } from 'ts-pattern';
+import { ConcurrencyConflict, executeOrderCommand, loadVersionedOrder } from '../order/event-store';
+import {
+  Amend,
+  CancelledOrder,
+  DeliveredOrder,
+  IllegalTransition,
+  OrderNotFound,
+  PlacedOrder,
+  ShippedOrder,
+  statusOf,
+} from '../order/order';
+import { HttpResponse, Json } from '../place-order/api';
+import { MalformedForm, PricingError, RemoteServiceError, ServiceInfo, ValidationError, ValidationErrors } from '../place-order/public-types';
+import { AmendmentFormDto, ChangeOrderErrorDto, changeOrderEventDtoCodec, changeOrderEventDtoFromDomain } from './dto';
+import { changeOrder } from './implementation';
+import { OrderNotAmendable } from './public-types';
+
+import type { OrderEventStore } from '../order/event-store';
+import type { HttpRequest, PlaceOrderDependencies } from '../place-order/api';
+import type { AmendOrder } from '../place-order/implementation.types';
+import type { CheckOrderAmendable, LoadOrder, SaveAmendment } from './implementation.types';
+import type { ChangeOrderError } from './public-types';
+
+/// An API takes a HttpRequest as input and returns a async response
+type ChangeOrderApi = (i: HttpRequest) => Promise<HttpResponse>;
+
+// =============================
+// Implementation
+// =============================
+
+/// The dependencies of the ChangeOrder workflow, set up once at the composition root.
+/// An amended order is repriced with the same services as a new order, and saved in the same OrderRepository.
+export type ChangeOrderDependencies = Pick<
+  PlaceOrderDependencies,
+  'checkProductExists' | 'checkAddressExists' | 'getPricingFunction' | 'getExchangeRate' | 'getTaxRateTable' | 'getShippingRateTable'
+> & {
+  readonly orderEventStore: OrderEventStore;
+  readonly amendOrder: AmendOrder;
+};
+
+const orderEventStoreService = new ServiceInfo('InMemoryEventStore', new URL('memory:order-events'));
+
+/// An order whose events are not a possible history is a failure of the store, not of the caller
+export const loadPlacedOrder = (orderEventStore: OrderEventStore): LoadOrder => flow(
+  loadVersionedOrder(orderEventStore),
+  TE.mapLeft(err => err instanceof RemoteServiceError ? err : new RemoteServiceError(orderEventStoreService, err)),
+);
+
+/// Only an order which has not been shipped yet can be changed
+export const checkOrderAmendable: CheckOrderAmendable = order =>
+  match(order)
+    .with(P.instanceOf(PlacedOrder), E.right)
+    .with(P.union(P.instanceOf(ShippedOrder), P.instanceOf(DeliveredOrder), P.instanceOf(CancelledOrder)), o =>
+      E.left(new OrderNotAmendable(o.id, statusOf(o))))
+    .exhaustive();
+
+/// The amendment is only appended if the order is still at the version it was priced from,
+/// as it would otherwise undo, or be billed on top of, what changed in between.
+/// The order is only saved as amended, with the amendment in its outbox, once the amendment has been appended.
+/// If that fails, the amendment can be made again: it is priced from the order as amended, so nothing is billed twice.
+export const saveAmendment = (orderEventStore: OrderEventStore, amendOrder: AmendOrder): SaveAmendment => ({ order, event }, version) => pipe(
+  executeOrderCommand(orderEventStore)(new Amend(event), O.some(version)),
+  TE.flatMap(() => amendOrder(order, event, version + 1)),
+  TE.mapLeft(err =>
+    match(err)
+      .with(P.instanceOf(IllegalTransition), e => new OrderNotAmendable(e.orderId, e.status))
+      .with(P.instanceOf(ConcurrencyConflict), e => e)
+      .with(P.instanceOf(OrderNotFound), e => e)
+      .with(P.instanceOf(RemoteServiceError), e => e)
+      .exhaustive()),
+);
+
+// -------------------------------
+// error responses
+// -------------------------------
+
+/// The HTTP status and problem title used for each kind of ChangeOrderError
+const problemOf = (err: ChangeOrderError): { status: number; title: string } =>
+  match(err)
+    .with(P.instanceOf(MalformedForm), () => ({ status: 400, title: 'The request body is not an amendment form' }))
+    .with(P.instanceOf(ValidationErrors), () => ({ status: 422, title: 'The amendment form is invalid' }))
+    .with(P.instanceOf(PricingError), () => ({ status: 422, title: 'The amended order could not be priced' }))
+    .with(P.instanceOf(OrderNotFound), () => ({ status: 404, title: 'The order does not exist' }))
+    .with(P.instanceOf(OrderNotAmendable), () => ({ status: 409, title: 'The order can no longer be changed' }))
+    .with(P.instanceOf(ConcurrencyConflict), () => ({ status: 409, title: 'The order was changed by someone else, so the amendment must be made again' }))
+    .with(P.instanceOf(RemoteServiceError), e => O.isSome(e.retryAfterSeconds)
+      ? { status: 503, title: `${e.service.name} is temporarily unavailable` }
+      : { status: 502, title: `${e.service.name} failed` })
+    .exhaustive();
+
+/// Tell the client when to retry, if the failing service gave us a hint
+const retryHeadersOf = (err: ChangeOrderError): Record<string, string> =>
+  match(err)
+    .with(P.instanceOf(RemoteServiceError), e => pipe(
+      e.retryAfterSeconds,
+      O.match(() => ({}), seconds => ({ 'Retry-After': `${seconds}` })),
+    ))
+    .otherwise(() => ({}));
+
+const toErrorResponse = (err: ChangeOrderError): HttpResponse => {
+  const { status, title } = problemOf(err);
+  return pipe(
+    ChangeOrderErrorDto.fromDomain(err).toProblemDetails(status, title),
+    dto => new HttpResponse(status, { 'Content-Type': 'application/problem+json', ...retryHeadersOf(err) }, Json.serialize(dto)),
+  );
+};
+
+// -------------------------------
+// workflow
+// -------------------------------
+
+export const createChangeOrderApi = (deps: ChangeOrderDependencies): ChangeOrderApi => (request: HttpRequest) => pipe(
+  request.body,
+  Json.deserialize(AmendmentFormDto.codec),
+  E.mapLeft(flow(NA.map(ValidationError.fromDecodeError), errors => new MalformedForm(errors))),
+  TE.fromEither,
+  TE.flatMap(amendmentForm => pipe(
+    amendmentForm.toUnvalidatedAmendment(), // convert to domain object
+    // now we are in the pure domain
+    changeOrder(
+      // setup the dependencies. See "Injecting Dependencies" in chapter 9
+      deps.checkProductExists,
+      deps.checkAddressExists,
+      loadPlacedOrder(deps.orderEventStore),
+      checkOrderAmendable,
+      deps.getPricingFunction,
+      deps.getExchangeRate,
+      deps.getTaxRateTable,
+      deps.getShippingRateTable,
+      saveAmendment(deps.orderEventStore, deps.amendOrder),
+    ),
+  )),
+)().then(
+  // now convert from the pure domain back to a HttpResponse
+  E.match(
+    toErrorResponse,
+    flow(
+      A.map(flow(changeOrderEventDtoFromDomain, changeOrderEventDtoCodec.encode)),
+      Json.serialize,
+      json => new HttpResponse(200, { 'Content-Type': 'application/json' }, json),
+    ),
+  ),
+);
@@ -0,0 +1,195 @@
+// ======================================================
+// This file contains the DTOs for the ChangeOrder workflow
+//
+// As for PlaceOrder, each type of DTO is defined using primitive, serializable types
+// and then there are `toDomain` and `fromDomain` functions defined for each DTO.
+// The DTOs which are shared with PlaceOrder (e.g. AddressDto) are reused.
+// ======================================================
+
+import * as O from 'fp-ts/Option';
+import * as RA from 'fp-ts/ReadonlyArray';
+import { pipe } from 'fp-ts/function';
+import { match, P } from 'ts-pattern';
+import * as C from '../../libs/codec';
+import { bound } from '../../libs/decorator';
+import { ValueObject } from '../../libs/model-type';
+import { ConcurrencyConflict } from '../order/event-store';
+import { OrderNotFound } from '../order/order';
+import {
+  AddressDto,
+  orderFormLineDtoCodec,
+  pricedOrderLineDtoCodec,
+  pricedOrderLineDtoFromDomain,
+  ProblemDetailsDto,
+  ShippingInfoDto,
+  ValidationErrorDto,
+} from '../place-order/dto';
+import { MalformedForm, PricingError, RemoteServiceError, ValidationErrors } from '../place-order/public-types';
+import { OrderNotAmendable, UnvalidatedAmendment } from './public-types';
+
+import type { OrderAmended } from '../order/order';
+import type { OrderFormLineDto, PricedOrderLineDto } from '../place-order/dto';
+import type { ChangeOrderError, ChangeOrderEvent } from './public-types';
+
+//===============================================
+// DTO for AmendmentForm
+//===============================================
+
+export class AmendmentFormDto extends ValueObject {
+  constructor(
+    readonly orderId: string,
+    readonly lines: OrderFormLineDto[], // new lines, and changed lines with the id of the line they replace
+    readonly removedLineIds: string[],
+    readonly shippingAddress: O.Option<AddressDto>, // null to keep the address
+    readonly billingAddress: O.Option<AddressDto>, // null to keep the address
+  ) { super() }
+
+  static readonly codec: C.Codec<AmendmentFormDto> = C.classOf(
+    AmendmentFormDto,
+    {
+      orderId: C.string,
+      lines: C.array(orderFormLineDtoCodec),
+      removedLineIds: C.array(C.string),
+      shippingAddress: C.optionFromNullable(AddressDto.codec),
+      billingAddress: C.optionFromNullable(AddressDto.codec),
+    },
+    p => new AmendmentFormDto(p.orderId, p.lines, p.removedLineIds, p.shippingAddress, p.billingAddress),
+  );
+
+  /// Convert the AmendmentForm into a UnvalidatedAmendment
+  /// This always succeeds because there is no validation.
+  @bound
+  toUnvalidatedAmendment(): UnvalidatedAmendment {
+    return new UnvalidatedAmendment(
+      this.orderId,
+      this.lines.map(l => l.toUnvalidatedOrderLine()),
+      this.removedLineIds,
+      pipe(this.shippingAddress, O.map(a => a.toUnvalidatedAddress())),
+      pipe(this.billingAddress, O.map(a => a.toUnvalidatedAddress())),
+    );
+  }
+}
+
+//===============================================
+// DTO for OrderAmended event
+//===============================================
+
+/// Event to send to shipping and billing contexts
+export class OrderAmendedDto extends ValueObject {
+  constructor(
+    readonly orderId: string,
+    readonly shippingAddress: AddressDto,
+    readonly billingAddress: AddressDto,
+    readonly lines: PricedOrderLineDto[],
+    readonly shippingInfo: ShippingInfoDto,
+    readonly vipBenefits: string[], // e.g. "FreeShipping"
+    readonly amountToBill: string, // an exact decimal, e.g. "12.50"
+    readonly taxTotal: string, // an exact decimal, included in amountToBill
+    readonly billingDelta: string, // an exact decimal, negative for a refund, e.g. "-2.50"
+    readonly currency: string, // the currency of every amount in the event
+    readonly pricingNote: O.Option<string>,
+  ) { super() }
+
+  static readonly codec: C.Codec<OrderAmendedDto> = C.classOf(
+    OrderAmendedDto,
+    {
+      orderId: C.string,
+      shippingAddress: AddressDto.codec,
+      billingAddress: AddressDto.codec,
+      lines: C.array(pricedOrderLineDtoCodec),
+      shippingInfo: ShippingInfoDto.codec,
+      vipBenefits: C.array(C.string),
+      amountToBill: C.string,
+      taxTotal: C.string,
+      billingDelta: C.string,
+      currency: C.string,
+      pricingNote: C.optionFromNullable(C.string),
+    },
+    p => new OrderAmendedDto(
+      p.orderId,
+      p.shippingAddress,
+      p.billingAddress,
+      p.lines,
+      p.shippingInfo,
+      p.vipBenefits,
+      p.amountToBill,
+      p.taxTotal,
+      p.billingDelta,
+      p.currency,
+      p.pricingNote,
+    ),
+  );
+
+  /// Convert a OrderAmended object into the corresponding DTO.
+  /// Used when exporting from the domain to the outside world.
+  static fromDomain(domainObj: OrderAmended): OrderAmendedDto {
+    return new OrderAmendedDto(
+      domainObj.orderId.value,
+      AddressDto.fromDomain(domainObj.shippingAddress),
+      AddressDto.fromDomain(domainObj.billingAddress),
+      pipe(domainObj.lines, RA.map(pricedOrderLineDtoFromDomain), RA.toArray),
+      ShippingInfoDto.fromDomain(domainObj.shippingInfo),
+      [...domainObj.vipBenefits],
+      domainObj.amountToBill.value.toDecimalString(),
+      domainObj.taxTotal.value.toDecimalString(),
+      domainObj.billingDelta.toDecimalString(),
+      domainObj.currency.value,
+      domainObj.pricingNote,
+    );
+  }
+}
+
+//===============================================
+// DTO for ChangeOrderEvent
+//===============================================
+
+/// Use a dictionary representation of a ChangeOrderEvent, suitable for JSON
+/// See "Serializing Records and Choice Types Using Maps" in chapter 11
+export type ChangeOrderEventDto = { OrderAmended: OrderAmendedDto };
+
+export const changeOrderEventDtoCodec: C.Codec<ChangeOrderEventDto> = C.struct({ OrderAmended: OrderAmendedDto.codec });
+
+/// Convert a ChangeOrderEvent into the corresponding DTO.
+/// Used when exporting from the domain to the outside world.
+export const changeOrderEventDtoFromDomain = (domainObj: ChangeOrderEvent): ChangeOrderEventDto =>
+  ({ OrderAmended: OrderAmendedDto.fromDomain(domainObj) });
+
+//===============================================
+// DTO for ChangeOrderError
+//===============================================
+
+export class ChangeOrderErrorDto extends ValueObject {
+  constructor(
+    readonly code: string,
+    readonly message: string,
+    readonly errors: ValidationErrorDto[],
+  ) { super() }
+
+  static readonly codec: C.Codec<ChangeOrderErrorDto> = C.classOf(
+    ChangeOrderErrorDto,
+    { code: C.string, message: C.string, errors: C.array(ValidationErrorDto.codec) },
+    p => new ChangeOrderErrorDto(p.code, p.message, p.errors),
+  );
+
+  static fromDomain(domainObj: ChangeOrderError): ChangeOrderErrorDto {
+    return match(domainObj)
+      .with(P.instanceOf(MalformedForm), err =>
+        new ChangeOrderErrorDto('MalformedForm', err.message, err.errors.map(ValidationErrorDto.fromDomain)))
+      .with(P.instanceOf(ValidationErrors), err =>
+        new ChangeOrderErrorDto('ValidationError', err.message, err.errors.map(ValidationErrorDto.fromDomain)))
+      .with(P.instanceOf(PricingError), err => new ChangeOrderErrorDto('PricingError', err.message, []))
+      .with(P.instanceOf(OrderNotFound), err => new ChangeOrderErrorDto('OrderNotFound', err.message, []))
+      .with(P.instanceOf(OrderNotAmendable), err => new ChangeOrderErrorDto('OrderNotAmendable', err.message, []))
+      .with(P.instanceOf(ConcurrencyConflict), () =>
+        new ChangeOrderErrorDto('ConcurrencyConflict', 'The order was changed while the amendment was being priced', []))
+      .with(P.instanceOf(RemoteServiceError), err =>
+        new ChangeOrderErrorDto('RemoteServiceError', `${err.service.name}: ${err.exception.message}`, []))
+      .exhaustive();
+  }
+
+  /// The error body in the "application/problem+json" format (RFC 7807)
+  @bound
+  toProblemDetails(status: number, title: string): ProblemDetailsDto {
+    return new ProblemDetailsDto(`urn:order-taking:change-order:${this.code}`, title, status, this.message, this.code, this.errors);
+  }
+}
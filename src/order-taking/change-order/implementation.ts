@@ -0,0 +1,287 @@
+import * as A from 'fp-ts/Array';
+import { sequenceS } from 'fp-ts/Apply';
+import * as E from 'fp-ts/Either';
+import { flow, pipe } from 'fp-ts/function';
+import * as NA from 'fp-ts/NonEmptyArray';
+import * as O from 'fp-ts/Option';
+import * as T from 'fp-ts/Task';
+import * as TE from 'fp-ts/TaskEither';
+import { match, P } from 'ts-pattern';
+import { BillingAmount, OrderId, OrderLineId } from '../common-types';
+import { OrderAmended, OrderNotFound } from '../order/order';
+import {
+  addShippingInfoToOrder,
+  applyVipBenefits,
+  atPath,
+  calculateShippingInfo,
+  toAddress,
+  toCheckedAddress,
+  toLinePrice,
+  toLineTax,
+  toLineTaxAt,
+  toPricedOrderLine,
+  toPricing,
+  toTaxRates,
+  toValidatedOrderLine,
+  ValidationApplicative,
+} from '../place-order/implementation';
+import {
+  PricedCommentLine,
+  PricedOrder,
+  PricedProductLine,
+  PricingError,
+  ValidationError,
+  ValidationErrors,
+} from '../place-order/public-types';
+import { AmendedOrder, ValidatedAmendment } from './implementation.types';
+
+import type { Address } from '../common-types';
+import type { PlacedOrder } from '../order/order';
+import type { Validation } from '../place-order/implementation';
+import type {
+  CheckAddressExists,
+  CheckProductCodeExists,
+  GetExchangeRate,
+  GetPricingFunction,
+  GetShippingRateTable,
+  GetTaxRateTable,
+  TaxRates,
+} from '../place-order/implementation.types';
+import type { PricedOrderLine, UnvalidatedAddress } from '../place-order/public-types';
+import type {
+  CheckOrderAmendable,
+  LoadOrder,
+  RepriceOrder,
+  SaveAmendment,
+} from './implementation.types';
+import type { ChangeOrder, UnvalidatedAmendment } from './public-types';
+
+// ======================================================
+// This file contains the implementation for the ChangeOrder workflow
+//
+// The amendment is validated with the same helpers as the PlaceOrder workflow,
+// so that a line or address is valid in an amendment if and only if
+// it would be valid in a new order.
+// ======================================================
+
+// ---------------------------
+// ValidateAmendment step
+// ---------------------------
+
+type ValidateAmendment = (
+  dep1: CheckProductCodeExists,
+  dep2: CheckAddressExists, // dependency
+) => (
+  i: UnvalidatedAmendment, // input
+) => TE.TaskEither<ValidationErrors, ValidatedAmendment>; // output
+
+const AsyncValidationApplicative = TE.getApplicativeTaskValidation(T.ApplyPar, NA.getSemigroup<ValidationError>());
+
+/// Check the address remotely, then validate each of its fields
+const toValidatedAddress = (
+  checkAddress: CheckAddressExists,
+): ((address: UnvalidatedAddress) => TE.TaskEither<NA.NonEmptyArray<ValidationError>, Address>) => flow(
+  toCheckedAddress(checkAddress),
+  TE.mapLeft(NA.of),
+  TE.flatMapEither(toAddress),
+);
+
+const toOrderLineId = (index: number) => (orderLineId: string): Validation<OrderLineId> => pipe(
+  orderLineId,
+  OrderLineId.create,
+  E.mapLeft(e => NA.of(ValidationError.from(e).at('removedLineIds', index))),
+);
+
+const validateAmendment: ValidateAmendment = (checkProductCodeExists, checkAddressExists) => ({
+  orderId,
+  lines,
+  removedLineIds,
+  shippingAddress,
+  billingAddress,
+}) => pipe(
+  sequenceS(AsyncValidationApplicative)({
+    validId: pipe(orderId, OrderId.create, E.mapLeft(e => NA.of(ValidationError.from(e).at('orderId'))), TE.fromEither),
+    validLines: pipe(
+      lines,
+      A.traverseWithIndex(ValidationApplicative)((index, line) => pipe(
+        line,
+        toValidatedOrderLine(checkProductCodeExists),
+        E.mapLeft(atPath('lines', index)),
+      )),
+      TE.fromEither,
+    ),
+    validRemovedIds: pipe(removedLineIds, A.traverseWithIndex(ValidationApplicative)((index, id) => toOrderLineId(index)(id)), TE.fromEither),
+    validShipAdr: pipe(
+      shippingAddress,
+      O.traverse(AsyncValidationApplicative)(toValidatedAddress(checkAddressExists)),
+      TE.mapLeft(atPath('shippingAddress')),
+    ),
+    validBillingAdr: pipe(
+      billingAddress,
+      O.traverse(AsyncValidationApplicative)(toValidatedAddress(checkAddressExists)),
+      TE.mapLeft(atPath('billingAddress')),
+    ),
+  }),
+  TE.mapLeft(errors => new ValidationErrors(errors)),
+  TE.map(scope => new ValidatedAmendment(
+    scope.validId,
+    scope.validLines,
+    scope.validRemovedIds,
+    scope.validShipAdr,
+    scope.validBillingAdr,
+  )),
+);
+
+// ---------------------------
+// CheckOrder step
+// ---------------------------
+
+/// Load the order, and check that it can still be changed.
+/// Return it with the version it was loaded at.
+const checkOrder = (loadOrder: LoadOrder, checkAmendable: CheckOrderAmendable) => (orderId: OrderId) => pipe(
+  loadOrder(orderId),
+  TE.flatMap(TE.fromOption(() => new OrderNotFound(orderId))),
+  TE.flatMapEither(({ order, version }) => pipe(
+    checkAmendable(order),
+    E.map(placedOrder => [placedOrder, version] as const),
+  )),
+);
+
+/// Only the lines of the order can be removed, and a line cannot be both changed and removed.
+/// This can only be checked once the order has been loaded.
+const checkRemovedLines = ({ details }: PlacedOrder) => (amendment: ValidatedAmendment): E.Either<ValidationErrors, ValidatedAmendment> => {
+  const isInOrder = (id: OrderLineId) => details.lines.some(line => line.orderLineId.equals(id));
+  const isChanged = (id: OrderLineId) => amendment.lines.some(line => line.orderLineId.equals(id));
+  return pipe(
+    [...amendment.removedLineIds],
+    A.traverseWithIndex(ValidationApplicative)((index, id): Validation<OrderLineId> =>
+      !isInOrder(id) ? E.left(NA.of(new ValidationError(`The order has no line ${id.value}`, ['removedLineIds', index], O.none, O.some(id.value))))
+        : isChanged(id) ? E.left(NA.of(new ValidationError(`Line ${id.value} cannot be both changed and removed`, ['removedLineIds', index], O.none, O.some(id.value))))
+          : E.right(id)),
+    E.mapLeft(errors => new ValidationErrors(errors)),
+    E.as(amendment),
+  );
+};
+
+// ---------------------------
+// RepriceOrder step
+// ---------------------------
+
+/// Work out the tax of a line again, at the rates of another jurisdiction, keeping its price
+const toRetaxedLine = (taxRates: TaxRates) => (line: PricedOrderLine): E.Either<PricingError, PricedOrderLine> =>
+  match(line)
+    .with(P.instanceOf(PricedProductLine), l => pipe(
+      toLineTaxAt(taxRates)(l.productCode, l.linePrice),
+      E.map(lineTax => new PricedProductLine(l.orderLineId, l.productCode, l.quantity, l.linePrice, lineTax)),
+    ))
+    .with(P.instanceOf(PricedCommentLine), E.right)
+    .exhaustive();
+
+/// The lines of the order with the changed lines in their place,
+/// followed by the added lines, and without the removed lines
+const toAmendedLines = (
+  original: readonly PricedOrderLine[],
+  repriced: readonly PricedOrderLine[],
+  removedLineIds: readonly OrderLineId[],
+): PricedOrderLine[] => {
+  const repricedOf = (line: PricedOrderLine) => repriced.find(r => r.orderLineId.equals(line.orderLineId));
+  return [
+    ...original
+      .filter(line => !removedLineIds.some(id => id.equals(line.orderLineId)))
+      .map(line => repricedOf(line) ?? line),
+    ...repriced.filter(r => !original.some(line => line.orderLineId.equals(r.orderLineId))),
+  ];
+};
+
+const repriceOrder: RepriceOrder = (getPricingFunction, getExchangeRate, getTaxRateTable, getShippingRateTable) => (
+  { details },
+  amendment,
+) => {
+  const currency = details.currency.value;
+  const shippingAddress = pipe(amendment.shippingAddress, O.getOrElse(() => details.shippingAddress));
+  const billingAddress = pipe(amendment.billingAddress, O.getOrElse(() => details.billingAddress));
+  const taxRates = toTaxRates(getTaxRateTable())(shippingAddress);
+  // the other lines keep their tax, unless the order is now shipped to another jurisdiction
+  const toKeptLine = O.isSome(amendment.shippingAddress) ? toRetaxedLine(taxRates) : E.right<PricingError, PricedOrderLine>;
+
+  return pipe(
+    E.Do,
+    // as when the order was placed, an expired promotion falls back to the standard prices
+    E.bind('pricing', () => toPricing(getPricingFunction)(details.pricingMethod)),
+    E.bind('repricedLines', ({ pricing }) => pipe(
+      amendment.lines,
+      E.traverseArray(toPricedOrderLine(pricing.getProductPrice, getExchangeRate, taxRates)(currency)),
+    )),
+    E.bind('lines', ({ repricedLines }) => pipe(
+      toAmendedLines(details.lines, repricedLines, amendment.removedLineIds),
+      E.traverseArray(line => repricedLines.includes(line) ? E.right(line) : toKeptLine(line)),
+    )),
+    E.bind('taxTotal', ({ lines }) => pipe(
+      BillingAmount.sumPrices(currency, lines.map(toLineTax)),
+      E.mapLeft(PricingError.from),
+    )),
+    E.bind('linesTotal', ({ lines }) => pipe(
+      BillingAmount.sumPrices(currency, [...lines.map(toLinePrice), ...lines.map(toLineTax)]),
+      E.mapLeft(PricingError.from),
+    )),
+    // the amended lines are shipped, and billed for, as a new order would be
+    E.bind('shippedOrder', ({ lines, taxTotal, linesTotal, pricing }) => pipe(
+      new PricedOrder(
+        details.orderId,
+        details.customerInfo,
+        shippingAddress,
+        billingAddress,
+        linesTotal,
+        lines,
+        details.currency,
+        taxTotal,
+        details.pricingMethod,
+        // as when the amendment is replayed, the note of the order is kept unless the amendment has one of its own
+        pipe(pricing.pricingNote, O.alt(() => details.pricingNote)),
+      ),
+      addShippingInfoToOrder(calculateShippingInfo(getShippingRateTable, getExchangeRate)),
+      E.map(applyVipBenefits),
+    )),
+    E.map(({ lines, taxTotal, shippedOrder, pricing }) => new AmendedOrder(shippedOrder, new OrderAmended(
+      details.orderId,
+      shippingAddress,
+      billingAddress,
+      lines,
+      shippedOrder.shippingInfo,
+      shippedOrder.vipBenefits,
+      shippedOrder.amountToBill,
+      taxTotal,
+      shippedOrder.amountToBill.value.subtract(details.amountToBill.value),
+      details.currency,
+      pricing.pricingNote,
+    ))),
+  );
+};
+
+// ---------------------------
+// overall workflow
+// ---------------------------
+
+export const changeOrder = (
+  checkCode: CheckProductCodeExists, // dependency
+  checkAddress: CheckAddressExists, // dependency
+  loadOrder: LoadOrder, // dependency
+  checkAmendable: CheckOrderAmendable, // dependency
+  getPricingFunction: GetPricingFunction, // dependency
+  getRate: GetExchangeRate, // dependency
+  getTaxRates: GetTaxRateTable, // dependency
+  getShippingRates: GetShippingRateTable, // dependency
+  saveAmendment: SaveAmendment, // dependency
+): ChangeOrder => flow(
+  validateAmendment(checkCode, checkAddress),
+  TE.flatMap(amendment => pipe(
+    checkOrder(loadOrder, checkAmendable)(amendment.orderId),
+    TE.flatMapEither(([placedOrder, version]) => pipe(
+      checkRemovedLines(placedOrder)(amendment),
+      E.flatMap(valid => repriceOrder(getPricingFunction, getRate, getTaxRates, getShippingRates)(placedOrder, valid)),
+      E.map(amended => [amended, version] as const),
+    )),
+  )),
+  // only report the amendment once it has been recorded, on the very order it was priced from
+  TE.flatMap(([amended, version]) => pipe(saveAmendment(amended, version), TE.as([amended.event]))),
+);
@@ -0,0 +1,87 @@
+import { ValueObject } from '../../libs/model-type';
+
+import type { Option } from 'fp-ts/Option';
+import type * as TE from 'fp-ts/TaskEither';
+import type * as E from 'fp-ts/Either';
+import type { Address, OrderId, OrderLineId } from '../common-types';
+import type { ConcurrencyConflict, VersionedOrder } from '../order/event-store';
+import type { Order, OrderAmended, OrderNotFound, PlacedOrder } from '../order/order';
+import type {
+  GetExchangeRate,
+  GetPricingFunction,
+  GetShippingRateTable,
+  GetTaxRateTable,
+  ValidatedOrderLine,
+} from '../place-order/implementation.types';
+import type { PricedOrderWithShippingInfo, PricingError, RemoteServiceError } from '../place-order/public-types';
+import type { OrderNotAmendable } from './public-types';
+
+// ======================================================
+// Define each step in the ChangeOrder workflow using types
+// ======================================================
+
+// ---------------------------
+// Validated Amendment
+// ---------------------------
+
+export class ValidatedAmendment extends ValueObject {
+  constructor(
+    readonly orderId: OrderId,
+    readonly lines: readonly ValidatedOrderLine[],
+    readonly removedLineIds: readonly OrderLineId[],
+    readonly shippingAddress: Option<Address>,
+    readonly billingAddress: Option<Address>,
+  ) { super() }
+}
+
+// ---------------------------
+// Check order step
+// ---------------------------
+
+/// Return None if no order has been placed with the id.
+/// The version of the order is kept, so that the amendment is only saved if the order is still at it.
+export type LoadOrder = (i: OrderId) => TE.TaskEither<RemoteServiceError, Option<VersionedOrder>>;
+
+/// Return the order if it can still be changed, i.e. it has not been shipped or cancelled yet
+export type CheckOrderAmendable = (i: Order) => E.Either<OrderNotAmendable, PlacedOrder>;
+
+// ---------------------------
+// Reprice step
+// ---------------------------
+
+/// The order as amended, to be kept in the OrderRepository in place of the order as it was,
+/// and the amendment which is recorded and published
+export class AmendedOrder extends ValueObject {
+  constructor(
+    readonly order: PricedOrderWithShippingInfo,
+    readonly event: OrderAmended,
+  ) { super() }
+}
+
+/// Only the lines which were added or changed are repriced, with the pricing method
+/// the order was placed with, or the standard prices if its promotion is no longer available.
+/// The sales tax of every line is worked out again
+/// if the shipping address changed, as it may now be in another jurisdiction.
+/// The shipping cost is worked out again for the amended lines and address, and VIPs keep their benefits.
+export type RepriceOrder = (
+  dep1: GetPricingFunction,
+  dep2: GetExchangeRate, // dependency
+  dep3: GetTaxRateTable, // dependency
+  dep4: GetShippingRateTable, // dependency
+) => (
+  i1: PlacedOrder, // input
+  i2: ValidatedAmendment,
+) => E.Either<PricingError, AmendedOrder>; // output
+
+// ---------------------------
+// Save amendment step
+// ---------------------------
+
+/// Record the amendment, and save the order as amended with the OrderAmended event in its outbox,
+/// so that the order is shipped and billed as amended.
+/// The amendment was priced from the order at the given version, so if the order has changed since,
+/// e.g. it has just been shipped or amended by someone else, it fails with ConcurrencyConflict and nothing is recorded.
+export type SaveAmendment = (
+  i1: AmendedOrder,
+  i2: number, // the version of the order the amendment was priced from
+) => TE.TaskEither<OrderNotFound | OrderNotAmendable | ConcurrencyConflict | RemoteServiceError, void>;
@@ -0,0 +1,65 @@
+import * as O from 'fp-ts/Option';
+import { TaskEither } from 'fp-ts/TaskEither';
+import { ValueObject } from '../../libs/model-type';
+
+import type { OrderId } from '../common-types';
+import type { ConcurrencyConflict } from '../order/event-store';
+import type { OrderAmended, OrderNotFound, OrderStatus } from '../order/order';
+import type {
+  PricingError,
+  RemoteServiceError,
+  UnvalidatedAddress,
+  UnvalidatedOrderLine,
+  ValidationErrors,
+} from '../place-order/public-types';
+
+// ==================================
+// This file contains the definitions of PUBLIC types (exposed at the boundary of the bounded context)
+// related to the ChangeOrder workflow
+// ==================================
+
+// ------------------------------------
+// inputs to the workflow
+
+/// The changes to make to an order which has not been shipped yet
+export class UnvalidatedAmendment extends ValueObject {
+  constructor(
+    readonly orderId: string,
+    readonly lines: UnvalidatedOrderLine[], // each replaces the line with the same id, or is added if there is none
+    readonly removedLineIds: string[],
+    readonly shippingAddress: O.Option<UnvalidatedAddress>, // None to keep the address
+    readonly billingAddress: O.Option<UnvalidatedAddress>, // None to keep the address
+  ) { super() }
+}
+
+// ------------------------------------
+// outputs from the workflow (success case)
+
+// OrderAmended is an event of the Order aggregate, see the order module
+
+/// The possible events resulting from the ChangeOrder workflow
+export type ChangeOrderEvent = OrderAmended;
+
+// ------------------------------------
+// error outputs
+
+/// The order has already been shipped, delivered or cancelled
+declare const orderNotAmendable: unique symbol;
+export class OrderNotAmendable extends Error {
+  [orderNotAmendable]!: never;
+  constructor(
+    readonly orderId: OrderId,
+    readonly status: OrderStatus,
+  ) {
+    super(`order ${orderId.value} is ${status}, so it can no longer be changed`);
+  }
+}
+
+/// All the things that can go wrong in this workflow
+/// ConcurrencyConflict: the order was changed by someone else while the amendment was being priced
+export type ChangeOrderError = ValidationErrors | PricingError | OrderNotFound | OrderNotAmendable | ConcurrencyConflict | RemoteServiceError;
+
+// ------------------------------------
+// the workflow itself
+
+export type ChangeOrder = (i: UnvalidatedAmendment) => TaskEither<ChangeOrderError, ChangeOrderEvent[]>;
@@ -7,7 +7,7 @@
 // ==================================
 
 import { Option } from 'fp-ts/Option';
-import type { EmailAddress, String50, ZipCode } from './simple-types';
+import type { EmailAddress, String50, VipStatus, ZipCode } from './simple-types';
 
 // ==================================
 // Customer-related types
@@ -24,6 +24,7 @@ export class CustomerInfo {
   constructor(
     readonly name: PersonalName,
     readonly emailAddress: EmailAddress,
+    readonly vipStatus: VipStatus,
   ) {}
 }
 
@@ -0,0 +1,93 @@
+import { describe, expect, it } from '@jest/globals';
+import * as E from 'fp-ts/Either';
+import * as ConstrainedType from './constrained-type';
+import { Money } from './money';
+
+class Code extends ConstrainedType.define('Code', {
+  type: 'string',
+  maxLen: 5,
+  pattern: /^[A-Z]+$/,
+  predicate: { description: 'not "NONE"', test: code => code !== 'NONE' },
+}) {}
+
+class Count extends ConstrainedType.define('Count', { type: 'number', min: 1, max: 10, integer: true }) {}
+
+class Amount extends ConstrainedType.define('Amount', { type: 'money', min: '0', max: { default: '100', JPY: '10000' } }) {}
+
+const errorOf = <A>(result: E.Either<Error, A>) => E.isLeft(result) ? result.left : undefined;
+
+describe('ConstrainedType.define', () => {
+  describe('a string type', () => {
+    it('creates a value which meets the constraints', () => {
+      expect(Code.create('ABC')).toEqual(E.right(new Code('ABC')));
+    });
+
+    it('creates an instance of the class which extends it', () => {
+      const code = Code.unsafeCreate('ABC');
+      expect(code).toBeInstanceOf(Code);
+      expect(code.value).toBe('ABC');
+    });
+
+    it('rejects an empty string', () => {
+      expect(errorOf(Code.create(''))).toBeInstanceOf(ConstrainedType.ErrEmptyString);
+    });
+
+    it('rejects a string which is too long', () => {
+      expect(errorOf(Code.create('ABCDEF'))).toBeInstanceOf(ConstrainedType.ErrStringTooLong);
+    });
+
+    it('rejects a string which does not match the pattern', () => {
+      expect(errorOf(Code.create('abc'))).toBeInstanceOf(ConstrainedType.ErrPatternUnmatched);
+    });
+
+    it('rejects a string which fails the predicate', () => {
+      const err = errorOf(Code.create('NONE'));
+      expect(err).toBeInstanceOf(ConstrainedType.ErrPredicateFailed);
+      expect(err?.message).toBe('must be not "NONE"');
+    });
+  });
+
+  describe('a number type', () => {
+    it('accepts the bounds themselves', () => {
+      expect(E.isRight(Count.create(1))).toBe(true);
+      expect(E.isRight(Count.create(10))).toBe(true);
+    });
+
+    it('rejects a number out of bounds', () => {
+      expect(errorOf(Count.create(0))).toBeInstanceOf(ConstrainedType.ErrNumberLessThanMin);
+      expect(errorOf(Count.create(11))).toBeInstanceOf(ConstrainedType.ErrNumberGreaterThanMax);
+    });
+
+    it('rejects a fraction when an integer is required', () => {
+      expect(errorOf(Count.create(2.5))).toBeInstanceOf(ConstrainedType.ErrNumberNotInteger);
+    });
+  });
+
+  describe('a money type', () => {
+    it('uses the bound of the currency of the amount', () => {
+      expect(E.isRight(Amount.create(Money.unsafeFromDecimal('100', 'USD')))).toBe(true);
+      expect(errorOf(Amount.create(Money.unsafeFromDecimal('100.01', 'USD')))).toBeInstanceOf(ConstrainedType.ErrNumberGreaterThanMax);
+      expect(E.isRight(Amount.create(Money.unsafeFromDecimal('10000', 'JPY')))).toBe(true);
+    });
+
+    it('rejects a negative amount', () => {
+      expect(errorOf(Amount.create(Money.unsafeFromDecimal('-0.01', 'USD')))).toBeInstanceOf(ConstrainedType.ErrNumberLessThanMin);
+    });
+  });
+
+  it('throws from unsafeCreate if the value is invalid', () => {
+    expect(() => Count.unsafeCreate(0)).toThrow();
+  });
+
+  it('keeps create bound to the class when it is passed around point-free', () => {
+    const results = ['A', 'B'].map(Code.create);
+    expect(results).toEqual([E.right(new Code('A')), E.right(new Code('B'))]);
+  });
+
+  it('can be inspected', () => {
+    expect(Count.constraints).toEqual({ type: 'number', min: 1, max: 10, integer: true });
+    expect(Count.description).toBe('Count: an integer not less than 1 not more than 10');
+    expect(Code.description).toBe(`Code: a non-empty string of at most 5 chars matching '^[A-Z]+$' which is not "NONE"`);
+    expect(Amount.description).toBe('Amount: an amount of money not less than 0 not more than 100 (10000 JPY)');
+  });
+});
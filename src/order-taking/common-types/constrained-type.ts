@@ -1,107 +1,292 @@
 import * as E from 'fp-ts/Either';
-import { flow } from 'fp-ts/lib/function';
+import { pipe } from 'fp-ts/lib/function';
+import { ValueObject } from '../../libs/model-type';
+import type { Money } from './money';
 
-export type ErrPrimitiveConstraints = ErrStringMaxLen | ErrNumberInBetween | ErrStringLike;
+export type ErrPrimitiveConstraints = ErrStringConstraints | ErrNumberConstraints | ErrInvalidDecimal | ErrPredicateFailed;
 
-type ErrStringMaxLen = ErrEmptyString | ErrStringTooLong
-type ErrNumberInBetween = ErrNumberLessThanMin | ErrNumberGreaterThanMax
-type ErrStringLike = ErrEmptyString | ErrPatternUnmatched
+type ErrStringConstraints = ErrEmptyString | ErrStringTooLong | ErrPatternUnmatched
+type ErrNumberConstraints = ErrNumberLessThanMin | ErrNumberGreaterThanMax | ErrNumberNotInteger
 
-const ErrEmptyString = {
-  name: "ErrEmptyString",
-  message: "must not be null or empty",
-} as const;
-type ErrEmptyString = typeof ErrEmptyString
+declare const errEmptyString: unique symbol;
+export class ErrEmptyString extends Error {
+  [errEmptyString]!: never;
+  constructor(readonly value: string) {
+    super("must not be null or empty")
+    this.name = new.target.name
+  }
+}
 
-class ErrStringTooLong extends Error {
-  constructor(readonly maxLen: number) {
+declare const errStringTooLong: unique symbol;
+export class ErrStringTooLong extends Error {
+  [errStringTooLong]!: never;
+  constructor(readonly maxLen: number, readonly value: string) {
     super(`must not be more than ${maxLen} chars`)
     this.name = new.target.name
   }
 }
 
-class ErrPatternUnmatched extends Error {
-  constructor(readonly pattern: string, readonly str: string) {
-    super(`'${str}' must match the pattern '${pattern}'`)
+declare const errPatternUnmatched: unique symbol;
+export class ErrPatternUnmatched extends Error {
+  [errPatternUnmatched]!: never;
+  constructor(readonly pattern: string, readonly value: string) {
+    super(`'${value}' must match the pattern '${pattern}'`)
     this.name = new.target.name
   }
 }
 
-class ErrNumberLessThanMin extends Error {
-  constructor(readonly min: number) {
+declare const errNumberLessThanMin: unique symbol;
+export class ErrNumberLessThanMin extends Error {
+  [errNumberLessThanMin]!: never;
+  constructor(readonly min: number, readonly value: number) {
     super(`must not be less than ${min} value`)
     this.name = new.target.name
   }
 }
 
-class ErrNumberGreaterThanMax extends Error {
-  constructor(readonly max: number) {
+declare const errNumberGreaterThanMax: unique symbol;
+export class ErrNumberGreaterThanMax extends Error {
+  [errNumberGreaterThanMax]!: never;
+  constructor(readonly max: number, readonly value: number) {
     super(`must not be more than ${max} value`)
     this.name = new.target.name
   }
 }
 
+declare const errNumberNotInteger: unique symbol;
+export class ErrNumberNotInteger extends Error {
+  [errNumberNotInteger]!: never;
+  constructor(readonly value: number) {
+    super(`must be an integer`)
+    this.name = new.target.name
+  }
+}
+
+declare const errInvalidDecimal: unique symbol;
+export class ErrInvalidDecimal extends Error {
+  [errInvalidDecimal]!: never;
+  constructor(readonly scale: number, readonly value: string) {
+    super(`'${value}' must be a decimal with at most ${scale} decimal places`)
+    this.name = new.target.name
+  }
+}
+
+declare const errPredicateFailed: unique symbol;
+export class ErrPredicateFailed extends Error {
+  [errPredicateFailed]!: never;
+  constructor(readonly description: string, readonly value: string | number) {
+    super(`must be ${description}`)
+    this.name = new.target.name
+  }
+}
+
 // ===============================
-// Reusable constructors and getters for constrained types
+// Declarative constraints
 // ===============================
 
-// Create a constrained string using the constructor provided
-// Return Error if input is null, empty, or length > maxLen
-export const createString =
-  <T>(ctor: { new(i: string): T }, maxLen: number) =>
-    (str: string): E.Either<ErrPrimitiveConstraints, T> => {
-      if (!str) {
-        return E.left(ErrEmptyString);
-      }
-      if (maxLen < str.length) {
-        return E.left(new ErrStringTooLong(maxLen))
-      }
-      return E.right(new ctor(str));
-    };
-
-// Create a optional constrained string using the constructor provided
-// Return None if input is null, empty.
-// Return error if length > maxLen
-// Return Some if the input is valid
-// export const createStringOption =
-//   <T>(ctor: { new (i: string): T }, maxLen: number) =>
-//   (str: string | null = null): E.Either<ErrPrimitiveConstraints, O.Option<T>> => {
-//     if (!str) {
-//       return E.right(O.none);
-//     }
-//     if (maxLen < str.length) {
-//       return errorFrom(`must not be more than ${maxLen} chars`);
-//     }
-//     return E.right(O.some(new ctor(str)));
-//   };
-
-// Create a constrained number using the constructor provided
-// Return Error if input is less than minVal or more than maxVal
-export const createNumber =
-  <T>(ctor: { new(i: number): T }, min: number, max: number) =>
-    (num: number): E.Either<ErrPrimitiveConstraints, T> => {
-      if (num < min) {
-        return E.left(new ErrNumberLessThanMin(min))
-      }
-      if (max < num) {
-        return E.left(new ErrNumberGreaterThanMax(max))
-      }
-      return E.right(new ctor(num));
-    };
-
-// Create a constrained string using the constructor provided
-// Return Error if input is null. empty, or does not match the regex pattern
-export const createLike = <T>(ctor: { new(i: string): T }, regex: string) => flow(
-  isAlike(regex),
-  E.map(i => new ctor(i))
-)
-
-export const isAlike = (regex: string) => (str: string): E.Either<ErrPrimitiveConstraints, string> => {
+// A custom check, with a description which completes the sentence "must be ..."
+export type Predicate<T> = {
+  readonly description: string;
+  readonly test: (value: T) => boolean;
+};
+
+// Strings are never allowed to be null or empty
+export type StringConstraints = {
+  readonly type: 'string';
+  readonly maxLen?: number;
+  readonly pattern?: RegExp;
+  readonly predicate?: Predicate<string>;
+};
+
+export type NumberConstraints = {
+  readonly type: 'number';
+  readonly min?: number;
+  readonly max?: number;
+  readonly integer?: boolean;
+  readonly predicate?: Predicate<number>;
+};
+
+// A bound on an amount of money: a decimal (e.g. "1000") in whatever currency the amount is in,
+// or a table of them by currency, for the currencies whose unit is worth much more or less than the default's
+export type MoneyBound = string | { readonly default: string; readonly [currency: string]: string };
+
+// Amounts of money are compared exactly, never as floats.
+export type MoneyConstraints = {
+  readonly type: 'money';
+  readonly min?: MoneyBound;
+  readonly max?: MoneyBound;
+  readonly predicate?: Predicate<Money>;
+};
+
+const boundIn = (currency: string) => (bound: MoneyBound): string =>
+  typeof bound === 'string' ? bound : bound[currency] ?? bound.default;
+
+// e.g. "1000" or "1000 (150000 JPY)"
+const describeBound = (bound: MoneyBound): string => {
+  if (typeof bound === 'string') return bound;
+  const { default: byDefault, ...byCurrency } = bound;
+  const exceptions = Object.entries(byCurrency).map(([currency, decimal]) => `${decimal} ${currency}`);
+  return exceptions.length === 0 ? byDefault : `${byDefault} (${exceptions.join(', ')})`;
+};
+
+export type Constraints = StringConstraints | NumberConstraints | MoneyConstraints;
+
+type ValueOf<C extends Constraints> =
+  C extends StringConstraints ? string
+  : C extends NumberConstraints ? number
+  : Money;
+
+// ===============================
+// Reusable validators for constrained types
+// ===============================
+
+// Return Error if input is null, empty, or does not match the regex pattern
+export const isAlike = (regex: RegExp) => (str: string): E.Either<ErrPrimitiveConstraints, string> => {
   if (!str) {
-    return E.left(ErrEmptyString);
+    return E.left(new ErrEmptyString(str));
   }
-  if (!str.match(regex)) {
-    return E.left(new ErrPatternUnmatched(regex, str))
+  if (!regex.test(str)) {
+    return E.left(new ErrPatternUnmatched(regex.source, str))
   }
   return E.right(str);
 }
+
+// Return Error if input is null, empty, length > maxLen, or does not match the pattern
+const validateString = (constraints: StringConstraints) => (str: string): E.Either<ErrPrimitiveConstraints, string> => {
+  if (!str) {
+    return E.left(new ErrEmptyString(str));
+  }
+  if (constraints.maxLen !== undefined && constraints.maxLen < str.length) {
+    return E.left(new ErrStringTooLong(constraints.maxLen, str))
+  }
+  if (constraints.pattern !== undefined && !constraints.pattern.test(str)) {
+    return E.left(new ErrPatternUnmatched(constraints.pattern.source, str))
+  }
+  if (constraints.predicate !== undefined && !constraints.predicate.test(str)) {
+    return E.left(new ErrPredicateFailed(constraints.predicate.description, str))
+  }
+  return E.right(str);
+};
+
+// Return Error if input is less than min, more than max, or not an integer when required
+const validateNumber = (constraints: NumberConstraints) => (num: number): E.Either<ErrPrimitiveConstraints, number> => {
+  if (constraints.min !== undefined && num < constraints.min) {
+    return E.left(new ErrNumberLessThanMin(constraints.min, num))
+  }
+  if (constraints.max !== undefined && constraints.max < num) {
+    return E.left(new ErrNumberGreaterThanMax(constraints.max, num))
+  }
+  if (constraints.integer && !Number.isInteger(num)) {
+    return E.left(new ErrNumberNotInteger(num))
+  }
+  if (constraints.predicate !== undefined && !constraints.predicate.test(num)) {
+    return E.left(new ErrPredicateFailed(constraints.predicate.description, num))
+  }
+  return E.right(num);
+};
+
+// Return Error if input is less than min or more than max
+const validateMoney = (constraints: MoneyConstraints) => (money: Money): E.Either<ErrPrimitiveConstraints, Money> => {
+  const min = constraints.min === undefined ? undefined : boundIn(money.currency)(constraints.min);
+  const max = constraints.max === undefined ? undefined : boundIn(money.currency)(constraints.max);
+  if (min !== undefined && money.compareAmount(min) < 0) {
+    return E.left(new ErrNumberLessThanMin(Number(min), money.toNumber()))
+  }
+  if (max !== undefined && money.compareAmount(max) > 0) {
+    return E.left(new ErrNumberGreaterThanMax(Number(max), money.toNumber()))
+  }
+  if (constraints.predicate !== undefined && !constraints.predicate.test(money)) {
+    return E.left(new ErrPredicateFailed(constraints.predicate.description, money.toDecimalString()))
+  }
+  return E.right(money);
+};
+
+const validatorFor = <C extends Constraints>(constraints: C) =>
+  (constraints.type === 'string'
+    ? validateString(constraints)
+    : constraints.type === 'number'
+      ? validateNumber(constraints)
+      : validateMoney(constraints)) as (value: ValueOf<C>) => E.Either<ErrPrimitiveConstraints, ValueOf<C>>;
+
+// Describe the constraints in words, e.g. "String50: a non-empty string of at most 50 chars"
+export const describe = (name: string, constraints: Constraints): string => {
+  const rules = constraints.type === 'string'
+    ? [
+      'a non-empty string',
+      constraints.maxLen !== undefined ? `of at most ${constraints.maxLen} chars` : '',
+      constraints.pattern !== undefined ? `matching '${constraints.pattern.source}'` : '',
+      constraints.predicate !== undefined ? `which is ${constraints.predicate.description}` : '',
+    ]
+    : constraints.type === 'number'
+      ? [
+        constraints.integer ? 'an integer' : 'a number',
+        constraints.min !== undefined ? `not less than ${constraints.min}` : '',
+        constraints.max !== undefined ? `not more than ${constraints.max}` : '',
+        constraints.predicate !== undefined ? `which is ${constraints.predicate.description}` : '',
+      ]
+      : [
+        'an amount of money',
+        constraints.min !== undefined ? `not less than ${describeBound(constraints.min)}` : '',
+        constraints.max !== undefined ? `not more than ${describeBound(constraints.max)}` : '',
+        constraints.predicate !== undefined ? `which is ${constraints.predicate.description}` : '',
+      ];
+  return `${name}: ${rules.filter(Boolean).join(' ')}`;
+};
+
+// ===============================
+// Factory for constrained types
+// ===============================
+
+export declare const constrained: unique symbol;
+
+// Define a constrained type from its name and constraints. Extend the result to name the type:
+//
+//   export class String50 extends ConstrainedType.define('String50', { type: 'string', maxLen: 50 }) {}
+//
+// The brand keeps types with the same constraints (e.g. String50 and OrderId) apart.
+export const define = <Name extends string, C extends Constraints>(name: Name, constraints: C) => {
+  type T = ValueOf<C>;
+  const validate = validatorFor(constraints);
+
+  class Constrained extends ValueObject {
+    [constrained]!: Name;
+    constructor(readonly value: T) {
+      super();
+    }
+
+    static readonly constraints: C = constraints;
+    static readonly description: string = describe(name, constraints);
+
+    // Create a value from a primitive
+    // Return Error if the input violates the constraints
+    static create: (v: T) => E.Either<ErrPrimitiveConstraints, Constrained>;
+
+    // Create a value from a primitive
+    // Throw an exception if invalid. This should only be used if you know the value is valid.
+    static unsafeCreate: (v: T) => Constrained;
+  }
+
+  // Installed as getters rather than static fields, so that `this` is the subclass the
+  // function is looked up on, even when the function is then passed around point-free.
+  Object.defineProperties(Constrained, {
+    create: {
+      get(this: new (v: T) => Constrained) {
+        const ctor = this;
+        return (v: T) => pipe(validate(v), E.map(valid => new ctor(valid)));
+      },
+    },
+    unsafeCreate: {
+      get(this: typeof Constrained) {
+        const create = this.create;
+        return (v: T) => pipe(
+          create(v),
+          E.getOrElseW(err => {
+            throw `Not expecting ${name} to be invalid: ${err.message}`;
+          }),
+        );
+      },
+    },
+  });
+
+  return Constrained;
+};
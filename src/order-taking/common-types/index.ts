@@ -1,2 +1,3 @@
 export * from './compound-types';
+export * from './money';
 export * from './simple-types';
@@ -0,0 +1,93 @@
+import { describe, expect, it } from '@jest/globals';
+import * as E from 'fp-ts/Either';
+import { ErrInvalidDecimal } from './constrained-type';
+import { ErrCurrencyMismatch, ExchangeRate, HalfEven, HalfUp, Money } from './money';
+
+const usd = (decimal: string) => Money.unsafeFromDecimal(decimal, 'USD');
+const decimalOf = (result: E.Either<Error, Money>) => E.isRight(result) ? result.right.toDecimalString() : result.left;
+
+describe('Money', () => {
+  describe('fromDecimal', () => {
+    it('keeps the amount exactly, in minor units', () => {
+      expect(usd('12.5').minorUnits).toBe(1250n);
+      expect(usd('12.5').toDecimalString()).toBe('12.50');
+    });
+
+    it('reads a number by its shortest representation', () => {
+      expect(Money.unsafeFromDecimal(0.1, 'USD').toDecimalString()).toBe('0.10');
+      expect(Money.unsafeFromDecimal(1e2, 'USD').toDecimalString()).toBe('100.00');
+    });
+
+    it('rejects more decimal places than the currency has', () => {
+      const result = Money.fromDecimal('1.005', 'USD');
+      expect(E.isLeft(result) && result.left).toBeInstanceOf(ErrInvalidDecimal);
+      expect(E.isLeft(Money.fromDecimal('1.5', 'JPY'))).toBe(true);
+    });
+
+    it('rejects what is not a decimal', () => {
+      expect(E.isLeft(Money.fromDecimal('1,50', 'USD'))).toBe(true);
+      expect(E.isLeft(Money.fromDecimal(NaN, 'USD'))).toBe(true);
+    });
+  });
+
+  it('uses the scale of each currency', () => {
+    expect(Money.scaleOf('USD')).toBe(2);
+    expect(Money.scaleOf('JPY')).toBe(0);
+    expect(Money.scaleOf('KWD')).toBe(3);
+    expect(Money.unsafeFromDecimal('1500', 'JPY').toDecimalString()).toBe('1500');
+    expect(Money.unsafeFromDecimal('1.5', 'KWD').toDecimalString()).toBe('1.500');
+  });
+
+  it('adds without floating point noise', () => {
+    expect(usd('0.1').add(usd('0.2')).toDecimalString()).toBe('0.30');
+  });
+
+  it('gives a negative amount when subtracting a larger one', () => {
+    expect(usd('1').subtract(usd('2.5')).toDecimalString()).toBe('-1.50');
+  });
+
+  describe('multiply', () => {
+    it('rounds ties to the even neighbour with HalfEven', () => {
+      expect(decimalOf(usd('0.05').multiply('0.5', HalfEven))).toBe('0.02');
+      expect(decimalOf(usd('0.15').multiply('0.5', HalfEven))).toBe('0.08');
+    });
+
+    it('rounds ties away from zero with HalfUp', () => {
+      expect(decimalOf(usd('0.05').multiply('0.5', HalfUp))).toBe('0.03');
+      expect(decimalOf(usd('-0.05').multiply('0.5', HalfUp))).toBe('-0.03');
+    });
+
+    it('rejects a factor which is not a finite decimal', () => {
+      expect(E.isLeft(usd('1').multiply(Infinity, HalfEven))).toBe(true);
+    });
+  });
+
+  it('compares amounts, and amounts with decimals', () => {
+    expect(usd('1').compare(usd('2'))).toBe(-1);
+    expect(usd('2').compare(usd('2.00'))).toBe(0);
+    expect(usd('2').compareAmount('1.99')).toBe(1);
+  });
+
+  it('throws if amounts in different currencies are combined', () => {
+    const eur: Money = Money.unsafeFromDecimal('1', 'EUR');
+    const dollar: Money = usd('1');
+    expect(() => dollar.add(eur)).toThrow(ErrCurrencyMismatch);
+    expect(() => dollar.compare(eur)).toThrow(ErrCurrencyMismatch);
+  });
+});
+
+describe('ExchangeRate', () => {
+  it('converts and rounds to the scale of the currency converted to', () => {
+    const rate = new ExchangeRate('USD', 'JPY', '151.235');
+    expect(decimalOf(rate.convert(usd('10.01'), HalfEven))).toBe('1514');
+  });
+
+  it('leaves an amount as it is when a currency is exchanged for itself', () => {
+    expect(decimalOf(ExchangeRate.identity('USD').convert(usd('3.21'), HalfEven))).toBe('3.21');
+  });
+
+  it('throws if the amount is not in the currency the rate is from', () => {
+    const rate: ExchangeRate = new ExchangeRate('EUR', 'USD', '1.1');
+    expect(() => rate.convert(usd('1'), HalfEven)).toThrow(ErrCurrencyMismatch);
+  });
+});
@@ -0,0 +1,206 @@
+import * as E from 'fp-ts/Either';
+import { pipe } from 'fp-ts/function';
+import type { Monoid } from 'fp-ts/Monoid';
+import { ValueObject } from '../../libs/model-type';
+import { ErrInvalidDecimal } from './constrained-type';
+
+// ===============================
+// Exact decimal amounts of money.
+//
+// Amounts are held as an integer number of minor units (e.g. cents),
+// so adding them never picks up floating point noise, and any rounding
+// (e.g. when multiplying by a fractional quantity) is explicit.
+// ===============================
+
+export const HalfEven = 'HalfEven' as const; // round ties to the even neighbour ("banker's rounding")
+export const HalfUp = 'HalfUp' as const; // round ties away from zero
+export type RoundingMode = typeof HalfEven | typeof HalfUp;
+
+// An exact decimal, i.e. units * 10^-scale
+type Decimal = { readonly units: bigint; readonly scale: number };
+
+const pow10 = (n: number): bigint => 10n ** BigInt(n);
+
+// The number of decimal places of the currencies which do not have 2 (their ISO 4217 minor unit)
+const scaleByCurrency: Readonly<Record<string, number>> = {
+  BHD: 3, CLP: 0, IQD: 3, ISK: 0, JOD: 3, JPY: 0, KRW: 0, KWD: 3, LYD: 3, OMR: 3, TND: 3, VND: 0,
+};
+
+// Amounts in different currencies are never added or compared.
+// The types prevent it in code which is generic in the currency,
+// and this is thrown if it happens anyway, e.g. with amounts typed as Money<string>.
+declare const errCurrencyMismatch: unique symbol;
+export class ErrCurrencyMismatch extends Error {
+  [errCurrencyMismatch]!: never;
+  constructor(readonly expected: string, readonly actual: string) {
+    super(`expected an amount in ${expected}, not in ${actual}`);
+    this.name = new.target.name;
+  }
+}
+
+// Parse a decimal from a string such as "12.50" or "-0.1",
+// or from a number, in which case its shortest round-tripping representation is used (0.1 is "0.1")
+const parseDecimal = (decimal: string | number, expectedScale: number): E.Either<ErrInvalidDecimal, Decimal> => {
+  const text = typeof decimal === 'number' ? String(decimal) : decimal.trim();
+  const parts = /^([-+]?)(\d+)(?:\.(\d+))?(?:[eE]([-+]?\d+))?$/.exec(text);
+  if (!parts) {
+    return E.left(new ErrInvalidDecimal(expectedScale, text));
+  }
+  const [, sign, whole, fraction = '', exponent = '0'] = parts;
+  const digits = BigInt(whole + fraction) * (sign === '-' ? -1n : 1n);
+  const scale = fraction.length - Number(exponent);
+  return E.right(scale >= 0 ? { units: digits, scale } : { units: digits * pow10(-scale), scale: 0 });
+};
+
+// Bring a decimal down to the given scale, rounding with the given mode
+const roundTo = (targetScale: number, rounding: RoundingMode) => ({ units, scale }: Decimal): bigint => {
+  if (scale <= targetScale) {
+    return units * pow10(targetScale - scale);
+  }
+  const divisor = pow10(scale - targetScale);
+  const quotient = units / divisor; // truncates toward zero
+  const remainder = units % divisor;
+  const twiceRemainder = 2n * (remainder < 0n ? -remainder : remainder);
+  const awayFromZero = twiceRemainder > divisor
+    || (twiceRemainder === divisor && (rounding === HalfUp || quotient % 2n !== 0n));
+  return awayFromZero ? quotient + (units < 0n ? -1n : 1n) : quotient;
+};
+
+// An amount of money in the currency C (an ISO 4217 code such as 'USD').
+// Amounts in different currencies cannot be added or compared:
+// code which is generic in the currency gets a type error if it tries to,
+// and ErrCurrencyMismatch is thrown if it happens anyway.
+export class Money<C extends string = string> extends ValueObject {
+  // the amount in minor units, i.e. the decimal amount times 10^scale
+  constructor(
+    readonly minorUnits: bigint,
+    readonly currency: C,
+  ) {
+    super();
+  }
+
+  // the number of decimal places kept for the currency, e.g. 2 for USD and 0 for JPY
+  static scaleOf(currency: string): number {
+    return scaleByCurrency[currency] ?? 2;
+  }
+
+  get scale(): number {
+    return Money.scaleOf(this.currency);
+  }
+
+  static zero<C extends string>(currency: C): Money<C> {
+    return new Money(0n, currency);
+  }
+
+  // Create Money from a decimal such as "12.50"
+  // Return Error if input is not a decimal, or has more decimal places than the scale
+  static fromDecimal<C extends string>(decimal: string | number, currency: C): E.Either<ErrInvalidDecimal, Money<C>> {
+    const scale = Money.scaleOf(currency);
+    return E.flatMap(parseDecimal(decimal, scale), parsed => parsed.scale > scale
+      ? E.left(new ErrInvalidDecimal(scale, String(decimal)))
+      : E.right(new Money(roundTo(scale, HalfEven)(parsed), currency)));
+  }
+
+  // Create Money from a decimal.
+  // Throw an exception if invalid. This should only be used if you know the value is valid.
+  static unsafeFromDecimal<C extends string>(decimal: string | number, currency: C): Money<C> {
+    return E.getOrElseW((err: ErrInvalidDecimal) => {
+      throw 'Not expecting Money to be invalid: ' + err.message;
+    })(Money.fromDecimal(decimal, currency));
+  }
+
+  // Throw ErrCurrencyMismatch if other is in another currency
+  private sameCurrency(other: Money<C>): Money<C> {
+    if (other.currency !== this.currency) {
+      throw new ErrCurrencyMismatch(this.currency, other.currency);
+    }
+    return other;
+  }
+
+  add(other: Money<C>): Money<C> {
+    return new Money(this.minorUnits + this.sameCurrency(other).minorUnits, this.currency);
+  }
+
+  // The result is negative if other is the larger amount
+  subtract(other: Money<C>): Money<C> {
+    return new Money(this.minorUnits - this.sameCurrency(other).minorUnits, this.currency);
+  }
+
+  // Multiply by a decimal factor (e.g. a quantity), rounding the result to the scale
+  // Return Error if the factor is not a finite decimal
+  multiply(factor: number | string, rounding: RoundingMode): E.Either<ErrInvalidDecimal, Money<C>> {
+    return pipe(
+      parseDecimal(factor, this.scale),
+      E.map(({ units, scale }) => new Money(
+        roundTo(this.scale, rounding)({ units: this.minorUnits * units, scale: this.scale + scale }),
+        this.currency,
+      )),
+    );
+  }
+
+  compare(other: Money<C>): -1 | 0 | 1 {
+    const { minorUnits } = this.sameCurrency(other);
+    return this.minorUnits < minorUnits ? -1 : this.minorUnits > minorUnits ? 1 : 0;
+  }
+
+  // Compare with a decimal amount in the same currency, e.g. a bound such as "1000"
+  compareAmount(decimal: string): -1 | 0 | 1 {
+    return this.compare(Money.unsafeFromDecimal(decimal, this.currency));
+  }
+
+  isPositive(): boolean {
+    return this.minorUnits > 0n;
+  }
+
+  // The exact amount as a decimal string with exactly `scale` decimal places, e.g. "0.02"
+  toDecimalString(): string {
+    const negative = this.minorUnits < 0n;
+    const { scale } = this;
+    const digits = (negative ? -this.minorUnits : this.minorUnits).toString().padStart(scale + 1, '0');
+    const whole = digits.slice(0, digits.length - scale);
+    const fraction = digits.slice(digits.length - scale);
+    return `${negative ? '-' : ''}${whole}${scale > 0 ? '.' + fraction : ''}`;
+  }
+
+  // Only for display or reporting: the amount may not be exactly representable as a number
+  toNumber(): number {
+    return Number(this.toDecimalString());
+  }
+}
+
+export const getMonoidSum = <C extends string>(currency: C): Monoid<Money<C>> => ({
+  concat: (x, y) => x.add(y),
+  empty: Money.zero(currency),
+});
+
+// The rate at which an amount in one currency is exchanged for the other
+export class ExchangeRate<From extends string = string, To extends string = string> extends ValueObject {
+  constructor(
+    readonly from: From,
+    readonly to: To,
+    readonly rate: string, // an exact decimal, e.g. "1.0825"
+  ) {
+    super();
+  }
+
+  // Exchanging a currency for itself
+  static identity<C extends string>(currency: C): ExchangeRate<C, C> {
+    return new ExchangeRate(currency, currency, '1');
+  }
+
+  // Convert an amount, rounding the result to the scale of the currency it is converted to
+  // Return Error if the rate is not a decimal
+  convert(money: Money<From>, rounding: RoundingMode): E.Either<ErrInvalidDecimal, Money<To>> {
+    if (money.currency !== this.from) {
+      throw new ErrCurrencyMismatch(this.from, money.currency);
+    }
+    const toScale = Money.scaleOf(this.to);
+    return pipe(
+      parseDecimal(this.rate, toScale),
+      E.map(({ units, scale }) => new Money(
+        roundTo(toScale, rounding)({ units: money.minorUnits * units, scale: money.scale + scale }),
+        this.to,
+      )),
+    );
+  }
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from '@jest/globals';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import { ErrNumberGreaterThanMax, ErrPatternUnmatched } from './constrained-type';
+import { HalfEven, Money } from './money';
+import {
+  BillingAmount,
+  createOrderQuantity,
+  createProductCode,
+  createVipStatus,
+  EmailAddress,
+  GizmoCode,
+  KilogramQuantity,
+  OrderId,
+  Price,
+  String50,
+  UnitQuantity,
+  WidgetCode,
+  ZipCode,
+} from './simple-types';
+
+const usd = (decimal: string) => Price.unsafeCreate(Money.unsafeFromDecimal(decimal, 'USD'));
+
+describe('simple types', () => {
+  it('limits a String50 to 50 chars', () => {
+    expect(E.isRight(String50.create('x'.repeat(50)))).toBe(true);
+    expect(E.isLeft(String50.create('x'.repeat(51)))).toBe(true);
+  });
+
+  it('requires an "@" in an email address', () => {
+    expect(E.isRight(EmailAddress.create('a@b.com'))).toBe(true);
+    expect(E.isLeft(EmailAddress.create('ab.com'))).toBe(true);
+  });
+
+  it('requires a zip code to be 5 digits', () => {
+    expect(E.isRight(ZipCode.create('94105'))).toBe(true);
+    expect(E.isLeft(ZipCode.create('d5555'))).toBe(true);
+    expect(E.isLeft(ZipCode.create('9410'))).toBe(true);
+  });
+
+  it('keeps types with the same constraints apart', () => {
+    expect(OrderId.unsafeCreate('o1').equals(String50.unsafeCreate('o1'))).toBe(false);
+    expect(OrderId.unsafeCreate('o1').equals(OrderId.unsafeCreate('o1'))).toBe(true);
+  });
+
+  describe('product codes', () => {
+    it('creates a widget code from "W" and four digits', () => {
+      expect(createProductCode('W1234')).toEqual(E.right(new WidgetCode('W1234')));
+    });
+
+    it('creates a gizmo code from "G" and three digits', () => {
+      expect(createProductCode('G123')).toEqual(E.right(new GizmoCode('G123')));
+    });
+
+    it('rejects any other code', () => {
+      const result = createProductCode('Wdddd');
+      expect(E.isLeft(result) && result.left).toBeInstanceOf(ErrPatternUnmatched);
+    });
+  });
+
+  it('counts widgets in units and gizmos in kilograms', () => {
+    expect(createOrderQuantity(new WidgetCode('W1234'))(3)).toEqual(E.right(new UnitQuantity(3)));
+    expect(createOrderQuantity(new GizmoCode('G123'))(1.5)).toEqual(E.right(new KilogramQuantity(1.5)));
+    expect(E.isLeft(createOrderQuantity(new WidgetCode('W1234'))(1.5))).toBe(true);
+  });
+
+  it('only knows the Normal and VIP statuses', () => {
+    expect(createVipStatus('VIP')).toEqual(E.right('VIP'));
+    expect(E.isLeft(createVipStatus('Gold'))).toBe(true);
+  });
+
+  describe('Price', () => {
+    it('is at most 1000 in most currencies', () => {
+      expect(E.isRight(Price.create(Money.unsafeFromDecimal('1000', 'USD')))).toBe(true);
+      const result = Price.create(Money.unsafeFromDecimal('1000.01', 'USD'));
+      expect(E.isLeft(result) && result.left).toBeInstanceOf(ErrNumberGreaterThanMax);
+    });
+
+    it('has a bound of its own in currencies whose unit is worth much less', () => {
+      expect(E.isRight(Price.create(Money.unsafeFromDecimal('150000', 'JPY')))).toBe(true);
+      expect(E.isLeft(Price.create(Money.unsafeFromDecimal('150001', 'JPY')))).toBe(true);
+    });
+
+    it('is multiplied by a quantity with the given rounding', () => {
+      const result = usd('0.05').multiply(1.5, HalfEven);
+      expect(E.isRight(result) && result.right.value.toDecimalString()).toBe('0.08');
+      expect(E.isLeft(usd('600').multiply(2, HalfEven))).toBe(true);
+    });
+  });
+
+  describe('BillingAmount.sumPrices', () => {
+    it('adds the prices exactly, and skips the lines without one', () => {
+      const result = BillingAmount.sumPrices('USD', [O.some(usd('0.1')), O.none, O.some(usd('0.2'))]);
+      expect(E.isRight(result) && result.right.value.toDecimalString()).toBe('0.30');
+    });
+
+    it('is zero for no prices', () => {
+      const result = BillingAmount.sumPrices('USD', []);
+      expect(E.isRight(result) && result.right.value.toDecimalString()).toBe('0.00');
+    });
+
+    it('rejects a total over the bound', () => {
+      expect(E.isLeft(BillingAmount.sumPrices('USD', Array.from({ length: 11 }, () => O.some(usd('1000')))))).toBe(true);
+    });
+  });
+});
@@ -1,14 +1,17 @@
 import * as A from 'fp-ts/Array';
 import * as E from 'fp-ts/Either';
 import { flow, pipe } from 'fp-ts/function';
-import * as NA from 'fp-ts/NonEmptyArray';
-import * as N from 'fp-ts/number';
+import { concatAll } from 'fp-ts/Monoid';
+import * as O from 'fp-ts/Option';
 import { match, P } from 'ts-pattern';
-import { Wrapper } from '../../libs/brand';
 import * as ConstrainedType from './constrained-type';
-import { ValueObject } from '../../libs/model-type';
+// lets declaration emit name the brand of the types defined below
+import type { constrained } from './constrained-type';
+import { getMonoidSum } from './money';
 import { bound } from '../../libs/decorator';
 
+import type { ExchangeRate, Money, RoundingMode } from './money';
+
 // ===============================
 // Simple types and constrained types related to the OrderTaking domain.
 //
@@ -16,110 +19,34 @@ import { bound } from '../../libs/decorator';
 // ===============================
 
 // Constrained to be 50 chars or less, not null
-declare const string50: unique symbol;
-export class String50 extends ValueObject implements Wrapper<string, typeof string50> {
-  [string50]!: never;
-  constructor(readonly value: string) {
-    super();
-  }
-  // Create an String50 from a string
-  // Return Error if input is null, empty, or length > 50
-  static create: (s: string) => E.Either<ConstrainedType.ErrPrimitiveConstraints, String50> = ConstrainedType.createString(String50, 50);
-
-  // Create an String50 from a string
-  // Return None if input is null, empty.
-  // Return error if length > maxLen
-  // Return Some if the input is valid
-  // static createOption: (s: string) => E.Either<ConstrainedType.ErrPrimitiveConstraints, O.Option<String50>> = ConstrainedType.createStringOption(
-  //   String50,
-  //   50,
-  // );
-}
+export class String50 extends ConstrainedType.define('String50', { type: 'string', maxLen: 50 }) {}
 
 // An email address
-declare const emailAddress: unique symbol;
-export class EmailAddress extends ValueObject implements Wrapper<string, typeof emailAddress> {
-  [emailAddress]!: never;
-  constructor(readonly value: string) {
-    super();
-  }
-
-  // Create an EmailAddress from a string
-  // Return Error if input is null, empty, or doesn't have an "@" in it
-  static create: (s: string) => E.Either<ConstrainedType.ErrPrimitiveConstraints, EmailAddress> = ConstrainedType.createLike(EmailAddress, '.+@.+'); // anything separated by an "@"
-}
+// anything separated by an "@"
+export class EmailAddress extends ConstrainedType.define('EmailAddress', { type: 'string', pattern: /^.+@.+$/ }) {}
 
 // A zip code
-declare const zipCode: unique symbol;
-export class ZipCode extends ValueObject implements Wrapper<string, typeof zipCode> {
-  [zipCode]!: never;
-  constructor(readonly value: string) {
-    super();
-  }
-
-  // Create a ZipCode from a string
-  // Return Error if input is null, empty, or doesn't have 5 digits
-  static create: (s: string) => E.Either<ConstrainedType.ErrPrimitiveConstraints, ZipCode> = ConstrainedType.createLike(ZipCode, 'd{5}');
-}
+// Constrained to be 5 digits
+export class ZipCode extends ConstrainedType.define('ZipCode', { type: 'string', pattern: /^\d{5}$/ }) {}
 
 // An Id for Orders. Constrained to be a non-empty string <= 50 chars
-declare const orderId: unique symbol;
-export class OrderId extends ValueObject implements Wrapper<string, typeof orderId> {
-  [orderId]!: never;
-  constructor(readonly value: string) {
-    super();
-  }
-
-  // Create an OrderId from a string
-  // Return Error if input is null, empty, or length > 50
-  static create: (s: string) => E.Either<ConstrainedType.ErrPrimitiveConstraints, OrderId> = ConstrainedType.createString(OrderId, 50);
-}
+export class OrderId extends ConstrainedType.define('OrderId', { type: 'string', maxLen: 50 }) {}
 
 // An Id for OrderLines. Constrained to be a non-empty string <= 50 chars
-declare const orderLineId: unique symbol;
-export class OrderLineId extends ValueObject implements Wrapper<string, typeof orderLineId> {
-  [orderLineId]!: never;
-  constructor(readonly value: string) {
-    super();
-  }
-
-  // Create an OrderLineId from a string
-  // Return Error if input is null, empty, or length > 50
-  static create: (s: string) => E.Either<ConstrainedType.ErrPrimitiveConstraints, OrderLineId> = ConstrainedType.createString(OrderLineId, 50);
-}
+export class OrderLineId extends ConstrainedType.define('OrderLineId', { type: 'string', maxLen: 50 }) {}
 
 // The codes for Widgets start with a "W" and then four digits
-declare const widgetCode: unique symbol;
-export class WidgetCode extends ValueObject implements Wrapper<string, typeof widgetCode> {
-  [widgetCode]!: never;
-  constructor(readonly value: string) {
-    super();
-  }
-  // Create an WidgetCode from a string
-  // Return Error if input is null. empty, or not matching pattern
-  // The codes for Widgets start with a "W" and then four digits
-  static create: (s: string) => E.Either<ConstrainedType.ErrPrimitiveConstraints, WidgetCode> = ConstrainedType.createLike(WidgetCode, 'Wd{4}');
-}
+export class WidgetCode extends ConstrainedType.define('WidgetCode', { type: 'string', pattern: /^W\d{4}$/ }) {}
 
 // The codes for Gizmos start with a "G" and then three digits.
-declare const gizmoCode: unique symbol;
-export class GizmoCode extends ValueObject implements Wrapper<string, typeof gizmoCode> {
-  [gizmoCode]!: never;
-  constructor(readonly value: string) {
-    super();
-  }
-  // Create an GizmoCode from a string
-  // Return Error if input is null, empty, or not matching pattern
-  // The codes for Gizmos start with a "G" and then three digits.
-  static create: (s: string) => E.Either<ConstrainedType.ErrPrimitiveConstraints, GizmoCode> = ConstrainedType.createLike(GizmoCode, 'Gd{3}');
-}
+export class GizmoCode extends ConstrainedType.define('GizmoCode', { type: 'string', pattern: /^G\d{3}$/ }) {}
 
 // A ProductCode is either a Widget or a Gizmo
 export type ProductCode = WidgetCode | GizmoCode;
 // Create an ProductCode from a string
 // Return Error if input is null, empty, or not matching pattern
 export const createProductCode = flow(
-  ConstrainedType.isAlike('W\d{4}|G\d{3}'),
+  ConstrainedType.isAlike(/^(W\d{4}|G\d{3})$/),
   E.flatMap<string, ConstrainedType.ErrPrimitiveConstraints, ProductCode>(
     code => {
       if (code.startsWith('W')) {
@@ -135,28 +62,10 @@ export const createProductCode = flow(
 
 
 // Constrained to be a integer between 1 and 1000
-declare const unitQuantity: unique symbol;
-export class UnitQuantity extends ValueObject implements Wrapper<number, typeof unitQuantity> {
-  [unitQuantity]!: never;
-  constructor(readonly value: number) {
-    super();
-  }
-  // Create a UnitQuantity from a int
-  // Return Error if input is not an integer between 1 and 1000
-  static create: (i: number) => E.Either<ConstrainedType.ErrPrimitiveConstraints, UnitQuantity> = ConstrainedType.createNumber(UnitQuantity, 1, 1000);
-}
+export class UnitQuantity extends ConstrainedType.define('UnitQuantity', { type: 'number', min: 1, max: 1000, integer: true }) {}
 
 // Constrained to be a decimal between 0.05 and 100.00
-declare const kilogramQuantity: unique symbol;
-export class KilogramQuantity extends ValueObject implements Wrapper<number, typeof kilogramQuantity> {
-  [kilogramQuantity]!: never;
-  constructor(readonly value: number) {
-    super();
-  }
-  // Create a KilogramQuantity from a decimal.
-  // Return Error if input is not a decimal between 0.05 and 100.00
-  static create: (i: number) => E.Either<ConstrainedType.ErrPrimitiveConstraints, KilogramQuantity> = ConstrainedType.createNumber(KilogramQuantity, 0.05, 100);
-}
+export class KilogramQuantity extends ConstrainedType.define('KilogramQuantity', { type: 'number', min: 0.05, max: 100 }) {}
 
 // A Quantity is either a Unit or a Kilogram
 export type OrderQuantity = UnitQuantity | KilogramQuantity;
@@ -168,57 +77,68 @@ export const createOrderQuantity = (productCode: ProductCode): ((num: number) =>
     .with(P.instanceOf(GizmoCode), () => KilogramQuantity.create)
     .exhaustive();
 
-// Constrained to be a decimal between 0.0 and 1000.00
-declare const price: unique symbol;
-export class Price extends ValueObject implements Wrapper<number, typeof price> {
-  [price]!: never;
-  constructor(readonly value: number) {
-    super();
-  }
-  // Create a Price from a decimal.
-  // Return Error if input is not a decimal between 0.0 and 1000.00
-  static create: (i: number) => E.Either<ConstrainedType.ErrPrimitiveConstraints, Price> = ConstrainedType.createNumber(Price, 0, 1000);
-
-  // Create a Price from a decimal.
-  // Throw an exception if out of bounds. This should only be used if you know the value is valid.
-  static unsafeCreate: (v: number) => Price = flow(
-    Price.create,
-    E.getOrElseW(err => {
-      throw 'Not expecting Price to be out of bounds: ' + err;
-    }),
-  );
-
-  // Multiply a Price by a decimal qty.
+// Whether a customer is a VIP, who gets extra benefits such as free shipping
+export const Normal = 'Normal' as const;
+export const Vip = 'VIP' as const;
+export type VipStatus = typeof Normal | typeof Vip;
+// Create a VipStatus from a string
+// Return Error if input is null, empty, or not one of the statuses
+export const createVipStatus = flow(
+  ConstrainedType.isAlike(/^(Normal|VIP)$/),
+  E.map(status => status as VipStatus),
+);
+
+// The free text of a comment line, e.g. a gift message. Constrained to be a non-empty string <= 200 chars
+export class CommentText extends ConstrainedType.define('CommentText', { type: 'string', maxLen: 200 }) {}
+
+// A code which gives a customer promotional prices. Constrained to be a non-empty string <= 50 chars
+export class PromotionCode extends ConstrainedType.define('PromotionCode', { type: 'string', maxLen: 50 }) {}
+
+// An ISO 4217 currency code, e.g. "USD"
+export class Currency extends ConstrainedType.define('Currency', { type: 'string', pattern: /^[A-Z]{3}$/ }) {}
+
+// The bounds of prices and billing amounts are about the same value in every currency,
+// so the currencies whose unit is worth much less than a dollar or a euro have bounds of their own
+const priceMax = { default: '1000', JPY: '150000', KRW: '1500000' };
+const billingAmountMax = { default: '10000', JPY: '1500000', KRW: '15000000' };
+
+// Constrained to be an amount between 0 and 1000.00 (or about as much in JPY or KRW), in the currency C
+export class Price<C extends string = string> extends ConstrainedType.define('Price', { type: 'money', min: '0', max: priceMax }) {
+  declare readonly value: Money<C>;
+  declare static create: <C extends string>(i: Money<C>) => E.Either<ConstrainedType.ErrPrimitiveConstraints, Price<C>>;
+  declare static unsafeCreate: <C extends string>(i: Money<C>) => Price<C>;
+
+  // Multiply a Price by a decimal qty, rounding to the nearest minor unit with the given mode.
   // Return Error if new price is out of bounds.
   @bound
-  multiply(qty: number): E.Either<ConstrainedType.ErrPrimitiveConstraints, Price> {
-    return Price.create(qty * this.value);
+  multiply(qty: number, rounding: RoundingMode): E.Either<ConstrainedType.ErrPrimitiveConstraints, Price<C>> {
+    return pipe(this.value.multiply(qty, rounding), E.flatMap(Price.create));
   }
-}
 
-// Constrained to be a decimal between 0.0 and 10000.00
-declare const billingAmount: unique symbol;
-export class BillingAmount extends ValueObject implements Wrapper<number, typeof billingAmount> {
-  [billingAmount]!: never;
-  constructor(readonly value: number) {
-    super();
+  // Convert a Price into another currency, rounding to the nearest minor unit with the given mode.
+  // Return Error if new price is out of bounds.
+  @bound
+  exchange<To extends string>(rate: ExchangeRate<C, To>, rounding: RoundingMode): E.Either<ConstrainedType.ErrPrimitiveConstraints, Price<To>> {
+    return pipe(rate.convert(this.value, rounding), E.flatMap(Price.create));
   }
+}
 
-  // Create a BillingAmount from a decimal.
-  // Return Error if input is not a decimal between 0.0 and 10000.00
-  static create: (i: number) => E.Either<ConstrainedType.ErrPrimitiveConstraints, BillingAmount> = ConstrainedType.createNumber(BillingAmount, 0, 10000);
+// Constrained to be an amount between 0 and 10000.00 (or about as much in JPY or KRW), in the currency C
+export class BillingAmount<C extends string = string> extends ConstrainedType.define('BillingAmount', { type: 'money', min: '0', max: billingAmountMax }) {
+  declare readonly value: Money<C>;
+  declare static create: <C extends string>(i: Money<C>) => E.Either<ConstrainedType.ErrPrimitiveConstraints, BillingAmount<C>>;
+  declare static unsafeCreate: <C extends string>(i: Money<C>) => BillingAmount<C>;
 
-  // Sum a list of prices to make a billing amount
+  // Sum a list of prices, all in the given currency, to make a billing amount.
+  // A line without a price (e.g. a comment line) is None, and adds nothing.
+  // The sum is exact, so no rounding is needed.
   // Return Error if total is out of bounds
-  static sumPrices = (prices: Price[]): E.Either<ConstrainedType.ErrPrimitiveConstraints, BillingAmount> =>
+  static sumPrices = <C extends string>(currency: C, prices: O.Option<Price<C>>[]): E.Either<ConstrainedType.ErrPrimitiveConstraints, BillingAmount<C>> =>
     pipe(
-      A.isNonEmpty(prices)
-        ? pipe(
-          prices,
-          NA.map(p => p.value),
-          NA.concatAll(N.SemigroupSum),
-        )
-        : 0,
+      prices,
+      A.compact,
+      A.map(p => p.value),
+      concatAll(getMonoidSum(currency)),
       BillingAmount.create,
     );
-}
\ No newline at end of file
+}
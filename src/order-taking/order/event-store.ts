@@ -0,0 +1,198 @@
+// ======================================================
+// This file contains the event store port, where the events of each order are kept,
+// the command handler which runs the Order aggregate against it,
+// and the ways of starting an order once it has been placed
+//
+// The store is append-only: events are never changed or removed.
+// Each order has its own stream of events, and appending to a stream
+// only succeeds if nobody else has appended to it since it was read
+// (optimistic concurrency), so two commands can never both be decided
+// on the same state of an order.
+// ======================================================
+
+import * as E from 'fp-ts/Either';
+import { pipe } from 'fp-ts/function';
+import * as O from 'fp-ts/Option';
+import * as RA from 'fp-ts/ReadonlyArray';
+import * as T from 'fp-ts/Task';
+import * as TE from 'fp-ts/TaskEither';
+import { match, P } from 'ts-pattern';
+import { ValueObject } from '../../libs/model-type';
+import { OrderPlaced, RemoteServiceError } from '../place-order/public-types';
+import { Amend, applyEvents, Cancel, decide, Deliver, IllegalTransition, OrderNotFound, Place, replay, Ship } from './order';
+
+import type { OrderId } from '../common-types';
+import type { OrderPlacedDto } from '../place-order/dto';
+import type { EventHandler } from '../place-order/event-dispatcher';
+import type { SaveOrder } from '../place-order/implementation.types';
+import type { Order, OrderCommand, OrderError, OrderEvent } from './order';
+
+// -------------------------------
+// the port
+// -------------------------------
+
+/// An event as it was recorded in its stream
+export class RecordedEvent<T> extends ValueObject {
+  constructor(
+    readonly streamId: string,
+    readonly version: number, // the position of the event in its stream, starting at 1
+    readonly event: T,
+    readonly recordedAt: number, // in milliseconds since the epoch
+  ) { super() }
+}
+
+/// The stream was appended to by someone else since it was read
+declare const concurrencyConflict: unique symbol;
+export class ConcurrencyConflict extends Error {
+  [concurrencyConflict]!: never;
+  constructor(
+    readonly streamId: string,
+    readonly expectedVersion: number,
+    readonly actualVersion: number,
+  ) {
+    super(`stream ${streamId} is at version ${actualVersion}, not ${expectedVersion}`);
+  }
+}
+
+export type EventStore<T> = {
+  /// The events of the stream, oldest first. A stream which does not exist has no events.
+  readonly load: (streamId: string) => TE.TaskEither<RemoteServiceError, readonly RecordedEvent<T>[]>;
+  /// Append the events if the stream is still at the expected version (0 for a new stream)
+  readonly append: (
+    streamId: string,
+    expectedVersion: number,
+    events: readonly T[],
+  ) => TE.TaskEither<ConcurrencyConflict | RemoteServiceError, readonly RecordedEvent<T>[]>;
+};
+
+export type OrderEventStore = EventStore<OrderEvent>;
+
+// -------------------------------
+// in-memory adapter
+// -------------------------------
+
+/// The events are kept for as long as the process runs. Meant for tests.
+export const createInMemoryEventStore = <T>(): EventStore<T> => {
+  const streams = new Map<string, readonly RecordedEvent<T>[]>();
+
+  return {
+    load: streamId => TE.fromIO(() => streams.get(streamId) ?? []),
+    // checking the version and appending happen at once, so that no other append can come in between
+    append: (streamId, expectedVersion, events) => TE.fromIOEither(() => {
+      const stream = streams.get(streamId) ?? [];
+      if (stream.length !== expectedVersion) {
+        return E.left(new ConcurrencyConflict(streamId, expectedVersion, stream.length));
+      }
+      const now = Date.now();
+      const recorded = events.map((event, i) => new RecordedEvent(streamId, expectedVersion + i + 1, event, now));
+      streams.set(streamId, [...stream, ...recorded]);
+      return E.right(recorded);
+    }),
+  };
+};
+
+// -------------------------------
+// running commands
+// -------------------------------
+
+export type OrderCommandError = OrderError | ConcurrencyConflict | RemoteServiceError;
+
+const streamIdOf = (orderId: OrderId): string => `Order-${orderId.value}`;
+
+const orderIdOf = (command: OrderCommand): OrderId =>
+  match(command)
+    .with(P.union(P.instanceOf(Place), P.instanceOf(Amend)), c => c.event.orderId)
+    .with(P.union(P.instanceOf(Ship), P.instanceOf(Deliver), P.instanceOf(Cancel)), c => c.orderId)
+    .exhaustive();
+
+/// Rebuild an order from its events
+/// Return None if the order has never been placed
+export const loadOrder = (store: OrderEventStore) => (orderId: OrderId): TE.TaskEither<OrderError | RemoteServiceError, O.Option<Order>> => pipe(
+  store.load(streamIdOf(orderId)),
+  TE.flatMapEither(recorded => replay(recorded.map(r => r.event))),
+);
+
+/// An order with the version of the stream it was rebuilt from,
+/// so that a command prepared from it is only run if the order has not changed since
+export class VersionedOrder extends ValueObject {
+  constructor(
+    readonly order: Order,
+    readonly version: number,
+  ) { super() }
+}
+
+/// Rebuild an order from its events, with the version it is at
+/// Return None if the order has never been placed
+export const loadVersionedOrder = (store: OrderEventStore) => (orderId: OrderId): TE.TaskEither<OrderError | RemoteServiceError, O.Option<VersionedOrder>> => pipe(
+  store.load(streamIdOf(orderId)),
+  TE.flatMapEither(recorded => pipe(
+    replay(recorded.map(r => r.event)),
+    E.map(O.map(order => new VersionedOrder(order, recorded.length))),
+  )),
+);
+
+/// Load the order, decide on the command, and append the events it caused.
+/// When an expected version is given, e.g. because the command was prepared from the order at that version,
+/// the command fails with ConcurrencyConflict if the order has changed since.
+/// Return the new state of the order.
+export const executeOrderCommand = (store: OrderEventStore) => (
+  command: OrderCommand,
+  expectedVersion: O.Option<number> = O.none,
+): TE.TaskEither<OrderCommandError, Order> => {
+  const orderId = orderIdOf(command);
+  const streamId = streamIdOf(orderId);
+  return pipe(
+    TE.Do,
+    TE.bind('recorded', () => store.load(streamId)),
+    TE.tap(({ recorded }) => pipe(
+      expectedVersion,
+      O.filter(version => version !== recorded.length),
+      O.match(
+        () => TE.right(undefined),
+        version => TE.left(new ConcurrencyConflict(streamId, version, recorded.length)),
+      ),
+    )),
+    TE.bindW('history', ({ recorded }) => TE.fromEither(replay(recorded.map(r => r.event)))),
+    TE.bindW('events', ({ history }) => TE.fromEither(decide(command)(history))),
+    TE.tap(({ recorded, events }) => store.append(streamId, recorded.length, events)),
+    // the events were decided on this history, so applying them to it cannot fail
+    TE.flatMapEither(({ history, events }) => pipe(
+      applyEvents(history, events),
+      E.flatMap(E.fromOption(() => new OrderNotFound(orderId))),
+    )),
+  );
+};
+
+// -------------------------------
+// starting orders
+// -------------------------------
+
+/// Start the life of each order which is placed, by handling the OrderPlaced events from the outbox.
+/// An order which was already started is left as it is, as an event can be delivered more than once.
+export const startPlacedOrders = (store: OrderEventStore): EventHandler<OrderPlacedDto> => dto => pipe(
+  dto.toDomain(),
+  E.mapLeft(err => new Error(`OrderPlaced ${dto.orderId}: ${err.message}`)),
+  TE.fromEither,
+  TE.flatMap(event => pipe(
+    executeOrderCommand(store)(new Place(event)),
+    TE.map(() => undefined),
+    TE.orElse(err => err instanceof IllegalTransition ? TE.right(undefined) : TE.left(err)),
+  )),
+  TE.mapLeft(err => err instanceof RemoteServiceError ? err.exception : err),
+);
+
+/// Start the order as soon as it is saved, so that it can be cancelled or changed straight away,
+/// rather than only once its OrderPlaced event has been delivered from the outbox.
+/// The order is placed either way: if it cannot be started now, it is started when the event is delivered.
+export const startOrdersOnSave = (store: OrderEventStore) => (saveOrder: SaveOrder): SaveOrder => (order, events) => pipe(
+  saveOrder(order, events),
+  TE.tap(() => pipe(
+    events,
+    RA.filter((event): event is OrderPlaced => event instanceof OrderPlaced),
+    T.traverseArray(event => pipe(
+      executeOrderCommand(store)(new Place(event)),
+      T.map(() => undefined),
+    )),
+    TE.fromTask,
+  )),
+);
@@ -0,0 +1,239 @@
+import { describe, expect, it } from '@jest/globals';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import * as TE from 'fp-ts/TaskEither';
+import {
+  checkAddressExists,
+  checkProductExists,
+  createOrderAcknowledgmentLetter,
+  getExchangeRate,
+  getPricingFunction,
+  getShippingRateTable,
+  getTaxRateTable,
+  publishNothing,
+  saveNothing,
+  sendOrderAcknowledgment,
+} from '../../composition-root';
+import { Money, OrderId, String50 } from '../common-types';
+import { deserializeOrderForm, placeOrderFromForm } from '../place-order/api';
+import { OrderPlaced, RemoteServiceError, ServiceInfo } from '../place-order/public-types';
+import { createInMemoryEventStore, executeOrderCommand, loadOrder, startOrdersOnSave } from './event-store';
+import {
+  Amend,
+  Cancel,
+  CancelledOrder,
+  decide,
+  Deliver,
+  DeliveredOrder,
+  IllegalTransition,
+  OrderAmended,
+  OrderCancelled,
+  OrderDelivered,
+  OrderNotFound,
+  OrderShipped,
+  Place,
+  PlacedOrder,
+  replay,
+  Ship,
+  ShippedOrder,
+  statusOf,
+} from './order';
+
+import type { OrderEvent } from './order';
+
+const shippingAddress = { addressLine1: '1 Main St', city: 'Springfield', zipCode: '94105' };
+const billingAddress = { addressLine1: '2 High St', city: 'Shelbyville', zipCode: '94106' };
+
+/// The OrderPlaced event of an order with two lines, placed with the dummy dependencies
+const placeOrder = async (orderId: string): Promise<OrderPlaced> => {
+  const orderForm = deserializeOrderForm(JSON.stringify({
+    orderId,
+    customerInfo: { firstName: 'Ada', lastName: 'Lovelace', emailAddress: 'ada@example.com', vipStatus: 'Normal' },
+    shippingAddress,
+    billingAddress,
+    lines: [
+      { orderLineId: 'line-1', productCode: 'W1234', quantity: 2 },
+      { orderLineId: 'line-2', productCode: 'G123', quantity: 1.5 },
+    ],
+    currency: 'USD',
+  }));
+  if (E.isLeft(orderForm)) throw orderForm.left;
+  const events = await placeOrderFromForm({
+    checkProductExists,
+    checkAddressExists,
+    getPricingFunction,
+    getExchangeRate,
+    getTaxRateTable,
+    getShippingRateTable,
+    saveOrder: saveNothing,
+    createOrderAcknowledgmentLetter,
+    sendOrderAcknowledgment,
+    publishEvents: publishNothing,
+  })(orderForm.right)();
+  if (E.isLeft(events)) throw events.left;
+  const placed = events.right.find((event): event is OrderPlaced => event instanceof OrderPlaced);
+  if (placed === undefined) throw new Error('no OrderPlaced event');
+  return placed;
+};
+
+/// An amendment which drops the second line and ships to the billing address
+const amendmentOf = (placed: OrderPlaced, pricingNote: O.Option<string> = O.some('amended')) => new OrderAmended(
+  placed.orderId,
+  placed.billingAddress,
+  placed.billingAddress,
+  placed.lines.slice(0, 1),
+  placed.shippingInfo,
+  placed.vipBenefits,
+  placed.amountToBill,
+  placed.taxTotal,
+  Money.zero(placed.currency.value),
+  placed.currency,
+  pricingNote,
+);
+
+const trackingNumber = String50.unsafeCreate('TRACK-1');
+const reason = String50.unsafeCreate('changed my mind');
+
+const rightOf = <A>(either: E.Either<unknown, A>): A => {
+  if (E.isLeft(either)) throw either.left;
+  return either.right;
+};
+
+describe('the Order aggregate', () => {
+  it('has no state before it is placed', () => {
+    expect(replay([])).toEqual(E.right(O.none));
+  });
+
+  it('goes from Placed to Shipped to Delivered', async () => {
+    const placed = await placeOrder('order-1');
+    const events: OrderEvent[] = [placed, new OrderShipped(placed.orderId, trackingNumber), new OrderDelivered(placed.orderId)];
+
+    const order = rightOf(replay(events));
+
+    expect(O.isSome(order) && order.value).toBeInstanceOf(DeliveredOrder);
+    expect(O.isSome(order) && statusOf(order.value)).toBe('Delivered');
+    expect(O.isSome(order) && order.value.id.equals(placed.orderId)).toBe(true);
+  });
+
+  it('can be cancelled while it is Placed', async () => {
+    const placed = await placeOrder('order-1');
+
+    const order = rightOf(replay([placed, new OrderCancelled(placed.orderId, reason)]));
+
+    expect(O.isSome(order) && order.value).toBeInstanceOf(CancelledOrder);
+  });
+
+  it('keeps the details of an amendment, and its own note unless the amendment has one', async () => {
+    const placed = await placeOrder('order-1');
+    const amended = amendmentOf(placed);
+
+    const order = rightOf(replay([placed, amended]));
+
+    if (O.isNone(order) || !(order.value instanceof PlacedOrder)) throw new Error('expected a placed order');
+    const { details } = order.value;
+    expect(details.lines.map(line => line.orderLineId.value)).toEqual(['line-1']);
+    expect(details.shippingAddress.city.value).toBe('Shelbyville');
+    expect(details.shippingInfo).toBe(amended.shippingInfo);
+    expect(details.pricingNote).toEqual(O.some('amended'));
+    expect(details.customerInfo).toBe(placed.customerInfo);
+
+    const withoutNote = rightOf(replay([placed, amendmentOf(placed, O.none)]));
+    expect(O.isSome(withoutNote) && withoutNote.value.details.pricingNote).toEqual(placed.pricingNote);
+  });
+
+  it('rejects an event which could not have happened in its state', async () => {
+    const placed = await placeOrder('order-1');
+
+    const result = replay([placed, new OrderShipped(placed.orderId, trackingNumber), new OrderCancelled(placed.orderId, reason)]);
+
+    expect(result).toEqual(E.left(new IllegalTransition(placed.orderId, 'Shipped', 'OrderCancelled')));
+    expect(E.isLeft(result) && result.left.message).toBe('order order-1 is Shipped, so OrderCancelled is not allowed');
+  });
+
+  it('rejects an event for an order which was never placed', () => {
+    const orderId = OrderId.unsafeCreate('order-1');
+
+    expect(replay([new OrderDelivered(orderId)])).toEqual(E.left(new OrderNotFound(orderId)));
+  });
+
+  describe('decide', () => {
+    it('turns a command into the event it causes', async () => {
+      const placed = await placeOrder('order-1');
+      const state = rightOf(replay([placed]));
+
+      const events = rightOf(decide(new Ship(placed.orderId, trackingNumber))(state));
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toBeInstanceOf(OrderShipped);
+    });
+
+    it('does not place an order twice', async () => {
+      const placed = await placeOrder('order-1');
+
+      expect(decide(new Place(placed))(rightOf(replay([placed]))))
+        .toEqual(E.left(new IllegalTransition(placed.orderId, 'Placed', 'OrderPlaced')));
+    });
+
+    it('does not amend an order which has been shipped', async () => {
+      const placed = await placeOrder('order-1');
+      const state = rightOf(replay([placed, new OrderShipped(placed.orderId, trackingNumber)]));
+
+      expect(E.isLeft(decide(new Amend(amendmentOf(placed)))(state))).toBe(true);
+    });
+  });
+});
+
+describe('the order event store', () => {
+  it('records the events of each command, and rebuilds the order from them', async () => {
+    const store = createInMemoryEventStore<OrderEvent>();
+    const placed = await placeOrder('order-1');
+    const execute = executeOrderCommand(store);
+
+    await execute(new Place(placed))();
+    await execute(new Ship(placed.orderId, trackingNumber))();
+    const delivered = await execute(new Deliver(placed.orderId))();
+
+    expect(E.isRight(delivered) && delivered.right).toBeInstanceOf(DeliveredOrder);
+    const loaded = rightOf(await loadOrder(store)(placed.orderId)());
+    expect(O.isSome(loaded) && loaded.value).toBeInstanceOf(DeliveredOrder);
+  });
+
+  it('rejects a command which is not allowed, and records nothing for it', async () => {
+    const store = createInMemoryEventStore<OrderEvent>();
+    const placed = await placeOrder('order-1');
+    const execute = executeOrderCommand(store);
+    await execute(new Place(placed))();
+    await execute(new Cancel(placed.orderId, reason))();
+
+    const shipped = await execute(new Ship(placed.orderId, trackingNumber))();
+
+    expect(E.isLeft(shipped) && shipped.left).toBeInstanceOf(IllegalTransition);
+    const loaded = rightOf(await loadOrder(store)(placed.orderId)());
+    expect(O.isSome(loaded) && loaded.value).toBeInstanceOf(CancelledOrder);
+  });
+
+  it('starts an order as soon as it is saved, but not when it cannot be saved', async () => {
+    const store = createInMemoryEventStore<OrderEvent>();
+    const placed = await placeOrder('order-1');
+    const other = await placeOrder('order-2');
+    const down = new RemoteServiceError(new ServiceInfo('Orders', new URL('memory:orders')), new Error('down'));
+
+    // the order itself is only passed on to the save
+    await startOrdersOnSave(store)(() => TE.right(undefined))({} as never, [placed])();
+    await startOrdersOnSave(store)(() => TE.left(down))({} as never, [other])();
+
+    const started = rightOf(await loadOrder(store)(placed.orderId)());
+    expect(O.isSome(started) && started.value).toBeInstanceOf(PlacedOrder);
+    expect(rightOf(await loadOrder(store)(other.orderId)())).toEqual(O.none);
+  });
+});
+
+describe('statusOf', () => {
+  it('names the state of an order', async () => {
+    const placed = await placeOrder('order-1');
+
+    expect(statusOf(new PlacedOrder(placed))).toBe('Placed');
+    expect(statusOf(new ShippedOrder(placed, trackingNumber))).toBe('Shipped');
+    expect(statusOf(new CancelledOrder(placed, reason))).toBe('Cancelled');
+  });
+});
@@ -0,0 +1,317 @@
+// ======================================================
+// This file contains the Order aggregate, i.e. the life of an order after it has been placed
+//
+// The state of an order is never stored: it is rebuilt by folding its events,
+// starting with the OrderPlaced event of the PlaceOrder workflow.
+// A command is checked against the current state, and either rejected
+// or turned into the events which record what happened.
+//
+// The lifecycle is
+//   Placed -> Shipped -> Delivered
+//   Placed -> Cancelled
+// and an order can be amended for as long as it is Placed
+// ======================================================
+
+import * as E from 'fp-ts/Either';
+import { pipe } from 'fp-ts/function';
+import * as O from 'fp-ts/Option';
+import * as RA from 'fp-ts/ReadonlyArray';
+import { match, P } from 'ts-pattern';
+import { Entity, ValueObject } from '../../libs/model-type';
+import { OrderPlaced } from '../place-order/public-types';
+
+import type { Address, BillingAmount, Currency, Money, OrderId, String50 } from '../common-types';
+import type { PricedOrderLine, ShippingInfo, VipBenefit } from '../place-order/public-types';
+
+// ------------------------------------
+// events
+
+/// Event will be created when the order has been handed over to the carrier
+declare const orderShipped: unique symbol;
+export class OrderShipped extends ValueObject {
+  [orderShipped]!: never;
+  constructor(
+    readonly orderId: OrderId,
+    readonly trackingNumber: String50,
+  ) { super() }
+}
+
+/// Event will be created when the carrier has delivered the order to the customer
+declare const orderDelivered: unique symbol;
+export class OrderDelivered extends ValueObject {
+  [orderDelivered]!: never;
+  constructor(readonly orderId: OrderId) { super() }
+}
+
+/// Event will be created when the order was cancelled before it was shipped
+declare const orderCancelled: unique symbol;
+export class OrderCancelled extends ValueObject {
+  [orderCancelled]!: never;
+  constructor(
+    readonly orderId: OrderId,
+    readonly reason: String50,
+  ) { super() }
+}
+
+/// Event will be created when the lines or addresses of the order were changed before it was shipped
+/// Event to send to billing context, which charges or refunds the difference
+declare const orderAmended: unique symbol;
+export class OrderAmended extends ValueObject {
+  [orderAmended]!: never;
+  constructor(
+    readonly orderId: OrderId,
+    readonly shippingAddress: Address,
+    readonly billingAddress: Address,
+    readonly lines: readonly PricedOrderLine[], // all the lines of the order, as amended
+    readonly shippingInfo: ShippingInfo, // the shipping of the lines as amended
+    readonly vipBenefits: readonly VipBenefit[],
+    readonly amountToBill: BillingAmount, // the new amount, including tax and shipping
+    readonly taxTotal: BillingAmount, // the new sales tax, included in amountToBill
+    readonly billingDelta: Money, // the new amount less the old one; negative for a refund
+    readonly currency: Currency,
+    readonly pricingNote: O.Option<string>, // why the changed lines were not priced as the order was, if they were not
+  ) { super() }
+}
+
+/// Every event in the life of an order. The first one is always OrderPlaced.
+export type OrderEvent = OrderPlaced | OrderAmended | OrderShipped | OrderDelivered | OrderCancelled;
+
+// ------------------------------------
+// states
+
+export const Placed = 'Placed' as const;
+export const Shipped = 'Shipped' as const;
+export const Delivered = 'Delivered' as const;
+export const Cancelled = 'Cancelled' as const;
+export type OrderStatus = typeof Placed | typeof Shipped | typeof Delivered | typeof Cancelled;
+
+/// Every state keeps the details of the order as it was placed
+abstract class OrderState extends Entity<OrderId> {
+  abstract readonly details: OrderPlaced;
+
+  get id(): OrderId {
+    return this.details.orderId;
+  }
+}
+
+declare const placedOrder: unique symbol;
+export class PlacedOrder extends OrderState {
+  [placedOrder]!: never;
+  constructor(readonly details: OrderPlaced) {
+    super();
+  }
+
+  isSameClass<PlacedOrder>(obj: unknown): obj is PlacedOrder {
+    return obj instanceof PlacedOrder;
+  }
+}
+
+declare const shippedOrder: unique symbol;
+export class ShippedOrder extends OrderState {
+  [shippedOrder]!: never;
+  constructor(
+    readonly details: OrderPlaced,
+    readonly trackingNumber: String50,
+  ) {
+    super();
+  }
+
+  isSameClass<ShippedOrder>(obj: unknown): obj is ShippedOrder {
+    return obj instanceof ShippedOrder;
+  }
+}
+
+declare const deliveredOrder: unique symbol;
+export class DeliveredOrder extends OrderState {
+  [deliveredOrder]!: never;
+  constructor(
+    readonly details: OrderPlaced,
+    readonly trackingNumber: String50,
+  ) {
+    super();
+  }
+
+  isSameClass<DeliveredOrder>(obj: unknown): obj is DeliveredOrder {
+    return obj instanceof DeliveredOrder;
+  }
+}
+
+declare const cancelledOrder: unique symbol;
+export class CancelledOrder extends OrderState {
+  [cancelledOrder]!: never;
+  constructor(
+    readonly details: OrderPlaced,
+    readonly reason: String50,
+  ) {
+    super();
+  }
+
+  isSameClass<CancelledOrder>(obj: unknown): obj is CancelledOrder {
+    return obj instanceof CancelledOrder;
+  }
+}
+
+export type Order = PlacedOrder | ShippedOrder | DeliveredOrder | CancelledOrder;
+
+export const statusOf = (order: Order): OrderStatus =>
+  match(order)
+    .with(P.instanceOf(PlacedOrder), () => Placed)
+    .with(P.instanceOf(ShippedOrder), () => Shipped)
+    .with(P.instanceOf(DeliveredOrder), () => Delivered)
+    .with(P.instanceOf(CancelledOrder), () => Cancelled)
+    .exhaustive();
+
+// ------------------------------------
+// commands
+
+declare const placeCommand: unique symbol;
+export class Place extends ValueObject {
+  [placeCommand]!: never;
+  constructor(readonly event: OrderPlaced) { super() }
+}
+
+/// The amendment has already been priced, see the ChangeOrder workflow
+declare const amendCommand: unique symbol;
+export class Amend extends ValueObject {
+  [amendCommand]!: never;
+  constructor(readonly event: OrderAmended) { super() }
+}
+
+declare const shipCommand: unique symbol;
+export class Ship extends ValueObject {
+  [shipCommand]!: never;
+  constructor(
+    readonly orderId: OrderId,
+    readonly trackingNumber: String50,
+  ) { super() }
+}
+
+declare const deliverCommand: unique symbol;
+export class Deliver extends ValueObject {
+  [deliverCommand]!: never;
+  constructor(readonly orderId: OrderId) { super() }
+}
+
+declare const cancelCommand: unique symbol;
+export class Cancel extends ValueObject {
+  [cancelCommand]!: never;
+  constructor(
+    readonly orderId: OrderId,
+    readonly reason: String50,
+  ) { super() }
+}
+
+export type OrderCommand = Place | Amend | Ship | Deliver | Cancel;
+
+// ------------------------------------
+// error outputs
+
+/// A command other than Place was given for an order which has no events
+declare const orderNotFound: unique symbol;
+export class OrderNotFound extends Error {
+  [orderNotFound]!: never;
+  constructor(readonly orderId: OrderId) {
+    super(`order ${orderId.value} does not exist`);
+  }
+}
+
+/// The order is not in a state in which the command (or event) is allowed,
+/// e.g. cancelling an order which has already been shipped
+declare const illegalTransition: unique symbol;
+export class IllegalTransition extends Error {
+  [illegalTransition]!: never;
+  constructor(
+    readonly orderId: OrderId,
+    readonly status: OrderStatus,
+    readonly attempted: string, // the name of the event which the command would have caused
+  ) {
+    super(`order ${orderId.value} is ${status}, so ${attempted} is not allowed`);
+  }
+}
+
+export type OrderError = OrderNotFound | IllegalTransition;
+
+// ------------------------------------
+// transitions
+
+const eventNameOf = (event: OrderEvent): string =>
+  match(event)
+    .with(P.instanceOf(OrderPlaced), () => 'OrderPlaced')
+    .with(P.instanceOf(OrderAmended), () => 'OrderAmended')
+    .with(P.instanceOf(OrderShipped), () => 'OrderShipped')
+    .with(P.instanceOf(OrderDelivered), () => 'OrderDelivered')
+    .with(P.instanceOf(OrderCancelled), () => 'OrderCancelled')
+    .exhaustive();
+
+/// The details of an order after an amendment. Everything else is as it was placed,
+/// and the note of the order is kept unless the amendment has one of its own.
+const amendDetails = (details: OrderPlaced, amendment: OrderAmended): OrderPlaced => new OrderPlaced(
+  details.orderId,
+  details.customerInfo,
+  amendment.shippingAddress,
+  amendment.billingAddress,
+  amendment.amountToBill,
+  amendment.lines,
+  details.currency,
+  amendment.taxTotal,
+  details.pricingMethod,
+  pipe(amendment.pricingNote, O.alt(() => details.pricingNote)),
+  amendment.shippingInfo,
+  amendment.vipBenefits,
+);
+
+/// Apply an event to the state of an order (None before it was placed).
+/// This is the only place where the transitions are defined:
+/// commands are checked by applying the events they would cause.
+export const evolve = (state: O.Option<Order>, event: OrderEvent): E.Either<OrderError, Order> => {
+  const illegal = (order: Order) => E.left(new IllegalTransition(order.id, statusOf(order), eventNameOf(event)));
+
+  return pipe(
+    state,
+    O.match(
+      (): E.Either<OrderError, Order> => event instanceof OrderPlaced
+        ? E.right(new PlacedOrder(event))
+        : E.left(new OrderNotFound(event.orderId)),
+      order => match([order, event] as const)
+        .with([P.instanceOf(PlacedOrder), P.instanceOf(OrderAmended)], ([o, e]) => E.right(new PlacedOrder(amendDetails(o.details, e))))
+        .with([P.instanceOf(PlacedOrder), P.instanceOf(OrderShipped)], ([o, e]) => E.right(new ShippedOrder(o.details, e.trackingNumber)))
+        .with([P.instanceOf(PlacedOrder), P.instanceOf(OrderCancelled)], ([o, e]) => E.right(new CancelledOrder(o.details, e.reason)))
+        .with([P.instanceOf(ShippedOrder), P.instanceOf(OrderDelivered)], ([o]) => E.right(new DeliveredOrder(o.details, o.trackingNumber)))
+        .otherwise(() => illegal(order)),
+    ),
+  );
+};
+
+/// Apply events, oldest first, to the state of an order
+/// Return an error if the events could not have happened in that state
+export const applyEvents = (state: O.Option<Order>, events: readonly OrderEvent[]): E.Either<OrderError, O.Option<Order>> => pipe(
+  events,
+  RA.reduce(E.right<OrderError, O.Option<Order>>(state), (current, event) => pipe(
+    current,
+    E.flatMap(s => evolve(s, event)),
+    E.map(O.some),
+  )),
+);
+
+/// Rebuild the state of an order from all of its events
+/// Return None if there are no events, and an error if the events are not a possible history
+export const replay = (events: readonly OrderEvent[]): E.Either<OrderError, O.Option<Order>> => applyEvents(O.none, events);
+
+const toEvent = (command: OrderCommand): OrderEvent =>
+  match(command)
+    .with(P.instanceOf(Place), c => c.event)
+    .with(P.instanceOf(Amend), c => c.event)
+    .with(P.instanceOf(Ship), c => new OrderShipped(c.orderId, c.trackingNumber))
+    .with(P.instanceOf(Deliver), c => new OrderDelivered(c.orderId))
+    .with(P.instanceOf(Cancel), c => new OrderCancelled(c.orderId, c.reason))
+    .exhaustive();
+
+/// Decide which events a command causes, given the current state of the order
+/// Return an error if the command is not allowed in that state
+export const decide = (command: OrderCommand) => (state: O.Option<Order>): E.Either<OrderError, readonly OrderEvent[]> => {
+  const event = toEvent(command);
+  return pipe(
+    evolve(state, event),
+    E.as([event]),
+  );
+};
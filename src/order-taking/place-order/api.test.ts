@@ -0,0 +1,190 @@
+import { describe, expect, it } from '@jest/globals';
+import * as TE from 'fp-ts/TaskEither';
+import {
+  checkAddressExists,
+  checkProductExists,
+  createOrderAcknowledgmentLetter,
+  getExchangeRate,
+  getPricingFunction,
+  getShippingRateTable,
+  getTaxRateTable,
+  publishNothing,
+  sendOrderAcknowledgment,
+} from '../../composition-root';
+import { createPlaceOrderApi, HttpRequest } from './api';
+import { createInMemoryIdempotencyStore } from './idempotency-store';
+import { RemoteServiceError, ServiceInfo } from './public-types';
+
+import type { HttpResponse } from './api';
+import type { SaveOrder } from './implementation.types';
+
+const address = { addressLine1: '1 Main St', city: 'Springfield', zipCode: '94105' };
+
+const orderForm = (orderId: string, quantity = 2) => ({
+  orderId,
+  customerInfo: { firstName: 'Ada', lastName: 'Lovelace', emailAddress: 'ada@example.com', vipStatus: 'Normal' },
+  shippingAddress: address,
+  billingAddress: address,
+  lines: [{ orderLineId: 'line-1', productCode: 'W1234', quantity }],
+  currency: 'USD',
+});
+
+const post = (body: unknown, headers: Record<string, string> = {}) =>
+  new HttpRequest('POST', '/orders', headers, typeof body === 'string' ? body : JSON.stringify(body));
+
+/// The API with the dummy dependencies, saving the orders with the given function
+const apiSaving = (saveOrder: SaveOrder) => createPlaceOrderApi({
+  checkProductExists,
+  checkAddressExists,
+  getPricingFunction,
+  getExchangeRate,
+  getTaxRateTable,
+  getShippingRateTable,
+  saveOrder,
+  createOrderAcknowledgmentLetter,
+  sendOrderAcknowledgment,
+  publishEvents: publishNothing,
+  idempotencyStore: createInMemoryIdempotencyStore<HttpResponse>(),
+});
+
+/// The API, and the number of orders it has saved
+const countingApi = () => {
+  const saved = { count: 0 };
+  const api = apiSaving(() => TE.fromIO(() => {
+    saved.count++;
+  }));
+  return { api, saved };
+};
+
+describe('the PlaceOrder API', () => {
+  it('answers with the events of the order', async () => {
+    const { api } = countingApi();
+    const response = await api(post(orderForm('order-1')));
+
+    expect(response.httpStatusCode).toBe(200);
+    expect(JSON.parse(response.body).map((dto: object) => Object.keys(dto)[0]))
+      .toEqual(['OrderPlaced', 'OrderAcknowledgmentSent', 'BillableOrderPlaced']);
+  });
+
+  it('answers an invalid order form with a 422 problem, listing every invalid field', async () => {
+    const { api } = countingApi();
+    const response = await api(post({ ...orderForm(''), lines: [{ orderLineId: 'line-1', productCode: 'X', quantity: 1 }] }));
+
+    expect(response.httpStatusCode).toBe(422);
+    expect(response.headers['Content-Type']).toBe('application/problem+json');
+    expect(JSON.parse(response.body).errors.map((e: { path: string }) => e.path)).toEqual(['orderId', 'lines[0].productCode']);
+  });
+
+  it('answers a body which is not JSON with a 400 problem, without echoing it', async () => {
+    const { api } = countingApi();
+    const response = await api(post('{"orderId": "order-1", '));
+
+    expect(response.httpStatusCode).toBe(400);
+    expect(JSON.parse(response.body).code).toBe('MalformedForm');
+    expect(response.body).not.toContain('order-1');
+  });
+
+  it('answers a body which does not have the shape of an order form with a 400 problem, listing every mismatch', async () => {
+    const { api, saved } = countingApi();
+    const response = await api(post({ ...orderForm('order-1'), lines: [{ orderLineId: 'line-1', productCode: 'W1234', quantity: '2' }], currency: 1 }));
+
+    expect(response.httpStatusCode).toBe(400);
+    expect(response.headers['Content-Type']).toBe('application/problem+json');
+    expect(JSON.parse(response.body).errors.map((e: { path: string }) => e.path)).toEqual(['lines[0].quantity', 'currency']);
+    expect(saved.count).toBe(0);
+  });
+
+  describe('idempotency', () => {
+    it('places an order which is posted again only once, and replays the first response', async () => {
+      const { api, saved } = countingApi();
+      const first = await api(post(orderForm('order-1')));
+      const retry = await api(post(orderForm('order-1')));
+
+      expect(saved.count).toBe(1);
+      expect(retry.httpStatusCode).toBe(first.httpStatusCode);
+      expect(retry.body).toBe(first.body);
+      expect(retry.headers['Idempotent-Replayed']).toBe('true');
+    });
+
+    it('places an order only once when it is posted again while it is still being placed', async () => {
+      const { api, saved } = countingApi();
+      const responses = await Promise.all([api(post(orderForm('order-1'))), api(post(orderForm('order-1')))]);
+
+      expect(saved.count).toBe(1);
+      expect(responses.map(r => r.httpStatusCode)).toEqual([200, 200]);
+    });
+
+    it('does not tell apart order forms which only differ in their whitespace', async () => {
+      const { api, saved } = countingApi();
+      await api(post(orderForm('order-1')));
+      const retry = await api(post(JSON.stringify(orderForm('order-1'), null, 2)));
+
+      expect(saved.count).toBe(1);
+      expect(retry.headers['Idempotent-Replayed']).toBe('true');
+    });
+
+    it('answers a different order form with the same key with a 409', async () => {
+      const { api, saved } = countingApi();
+      await api(post(orderForm('order-1')));
+      const response = await api(post(orderForm('order-1', 3)));
+
+      expect(saved.count).toBe(1);
+      expect(response.httpStatusCode).toBe(409);
+      expect(JSON.parse(response.body).code).toBe('IdempotencyConflict');
+    });
+
+    it('uses the Idempotency-Key header as the key when there is one', async () => {
+      const { api, saved } = countingApi();
+      await api(post(orderForm('order-1'), { 'Idempotency-Key': 'k1' }));
+      const retry = await api(post(orderForm('order-1'), { 'idempotency-key': 'k1' }));
+      const other = await api(post(orderForm('order-2'), { 'Idempotency-Key': 'k1' }));
+
+      expect(saved.count).toBe(1);
+      expect(retry.headers['Idempotent-Replayed']).toBe('true');
+      expect(other.httpStatusCode).toBe(409);
+    });
+
+    it('lets an order form which was rejected be corrected, and sent again with the same OrderId', async () => {
+      const { api, saved } = countingApi();
+      const rejected = await api(post({ ...orderForm('order-1'), lines: [{ orderLineId: 'line-1', productCode: 'X', quantity: 1 }] }));
+      const corrected = await api(post(orderForm('order-1')));
+
+      expect(rejected.httpStatusCode).toBe(422);
+      expect(corrected.httpStatusCode).toBe(200);
+      expect(corrected.headers['Idempotent-Replayed']).toBeUndefined();
+      expect(saved.count).toBe(1);
+    });
+
+    it('answers a workflow which throws with a 500, without the exception, and lets the order be retried', async () => {
+      let attempts = 0;
+      const api = apiSaving(() => {
+        attempts++;
+        if (attempts === 1) throw new Error('secret connection string');
+        return TE.right(undefined);
+      });
+      const failed = await api(post(orderForm('order-1')));
+      const retry = await api(post(orderForm('order-1')));
+
+      expect(failed.httpStatusCode).toBe(500);
+      expect(JSON.parse(failed.body).code).toBe('InternalError');
+      expect(failed.body).not.toContain('secret');
+      expect(retry.httpStatusCode).toBe(200);
+    });
+
+    it('does not replay the failure of a remote service, so that the order can be retried', async () => {
+      let attempts = 0;
+      const api = apiSaving(() => {
+        attempts++;
+        return attempts === 1
+          ? TE.left(new RemoteServiceError(new ServiceInfo('Orders', new URL('memory:orders')), new Error('down')))
+          : TE.right(undefined);
+      });
+      const failed = await api(post(orderForm('order-1')));
+      const retry = await api(post(orderForm('order-1')));
+
+      expect(failed.httpStatusCode).toBe(502);
+      expect(retry.httpStatusCode).toBe(200);
+      expect(retry.headers['Idempotent-Replayed']).toBeUndefined();
+    });
+  });
+});
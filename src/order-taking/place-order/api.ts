@@ -9,47 +9,79 @@
 import * as A from 'fp-ts/Array';
 import * as E from 'fp-ts/Either';
 import { flow, pipe } from 'fp-ts/function';
+import * as NA from 'fp-ts/NonEmptyArray';
+import * as O from 'fp-ts/Option';
+import * as T from 'fp-ts/Task';
 import * as TE from 'fp-ts/TaskEither';
-import { Price } from '../common-types';
-import { OrderFormDto, PlaceOrderErrorDto, placeOrderEventDtoFromDomain } from './dto';
-import { createCheckedAddress, HtmlString, Sent } from './implementation.types';
+import { match, P } from 'ts-pattern';
+import * as C from '../../libs/codec';
+import { fingerprintOf, IdempotencyRecord } from './idempotency-store';
+import {
+  OrderFormDto,
+  PlaceOrderErrorDto,
+  placeOrderEventDtoCodec,
+  placeOrderEventDtoFromDomain,
+  ProblemDetailsDto,
+} from './dto';
+import { MalformedForm, OrderAlreadyPlaced, PricingError, RemoteServiceError, ValidationError, ValidationErrors } from './public-types';
 
 import type {
   CheckAddressExists,
   CheckProductCodeExists,
   CreateOrderAcknowledgmentLetter,
-  GetProductPrice,
+  GetExchangeRate,
+  GetPricingFunction,
+  GetShippingRateTable,
+  GetTaxRateTable,
+  PublishEvents,
+  SaveOrder,
   SendOrderAcknowledgment,
 } from './implementation.types';
-import { placeOrder } from './implementation';
+import type { IdempotencyStore } from './idempotency-store';
+import type { PlaceOrder, PlaceOrderError, PlaceOrderEvent, PlaceOrders } from './public-types';
+import { placeOrder, placeOrders } from './implementation';
 
-type JsonString = string;
+export type JsonString = string;
 
-namespace Json {
+export namespace Json {
   // This function serialize a domain object into a json string
   export const serialize = JSON.stringify
 
-  // This function deserialize a json string into a domain object
-  export const deserialize = <T extends object>(cls: { prototype: T }) =>
-    flow(
-      JSON.parse,
-      obj => Object.setPrototypeOf(obj, cls.prototype) as T,
+  // This function deserialize a json string into a DTO,
+  // checking the parsed value against the codec of the DTO
+  export const deserialize = <T>(codec: C.Codec<T>) => (json: JsonString): C.DecodeResult<T> =>
+    pipe(
+      E.tryCatch(
+        (): unknown => JSON.parse(json),
+        // the body is not echoed back in the error, as it can be as large as the body limit
+        () => NA.of(new C.DecodeError([], 'a JSON document', undefined)),
+      ),
+      E.flatMap(codec.decode),
     )
 }
 
 /// Very simplified version!
-class HttpRequest {
+export class HttpRequest {
   constructor(
     readonly action: string,
     readonly uri: string,
+    readonly headers: Readonly<Record<string, string>>,
     readonly body: JsonString,
   ) { }
 }
 
+/// Header names are case-insensitive
+export const headerOf = (request: HttpRequest, name: string): O.Option<string> => pipe(
+  Object.entries(request.headers),
+  A.findFirst(([key]) => key.toLowerCase() === name.toLowerCase()),
+  O.map(([, value]) => value),
+);
+
 /// Very simplified version!
-class HttpResponse {
+export class HttpResponse {
   constructor(
     readonly httpStatusCode: number,
+    readonly headers: Readonly<Record<string, string>>,
     readonly body: JsonString,
   ) { }
 }
@@ -61,51 +93,202 @@ type PlaceOrderApi = (i: HttpRequest) => Promise<HttpResponse>;
 // Implementation
 // =============================
 
-// setup dummy dependencies
+/// The dependencies of the PlaceOrder workflow.
+/// They are set up once, at the composition root.
+export type PlaceOrderWorkflowDependencies = {
+  readonly checkProductExists: CheckProductCodeExists;
+  readonly checkAddressExists: CheckAddressExists;
+  readonly getPricingFunction: GetPricingFunction;
+  readonly getExchangeRate: GetExchangeRate;
+  readonly getTaxRateTable: GetTaxRateTable;
+  readonly getShippingRateTable: GetShippingRateTable;
+  readonly saveOrder: SaveOrder;
+  readonly createOrderAcknowledgmentLetter: CreateOrderAcknowledgmentLetter;
+  readonly sendOrderAcknowledgment: SendOrderAcknowledgment;
+  readonly publishEvents: PublishEvents;
+};
+
+/// The dependencies of the PlaceOrder workflow, and of the API around it
+export type PlaceOrderDependencies = PlaceOrderWorkflowDependencies & {
+  readonly idempotencyStore: IdempotencyStore<HttpResponse>;
+};
+
+// -------------------------------
+// error responses
+// -------------------------------
+
+/// The HTTP status and problem title used for each kind of PlaceOrderError
+const problemOf = (err: PlaceOrderError): { status: number; title: string } =>
+  match(err)
+    .with(P.instanceOf(MalformedForm), () => ({ status: 400, title: 'The request body is not an order form' }))
+    .with(P.instanceOf(ValidationErrors), () => ({ status: 422, title: 'The order form is invalid' }))
+    .with(P.instanceOf(PricingError), () => ({ status: 422, title: 'The order could not be priced' }))
+    .with(P.instanceOf(OrderAlreadyPlaced), () => ({ status: 409, title: 'The order has already been placed' }))
+    .with(P.instanceOf(RemoteServiceError), e => O.isSome(e.retryAfterSeconds)
+      ? { status: 503, title: `${e.service.name} is temporarily unavailable` }
+      : { status: 502, title: `${e.service.name} failed` })
+    .exhaustive();
+
+/// Tell the client when to retry, if the failing service gave us a hint
+const retryHeadersOf = (err: PlaceOrderError): Record<string, string> =>
+  match(err)
+    .with(P.instanceOf(RemoteServiceError), e => pipe(
+      e.retryAfterSeconds,
+      O.match(() => ({}), seconds => ({ 'Retry-After': `${seconds}` })),
+    ))
+    .otherwise(() => ({}));
+
+const toErrorResponse = (err: PlaceOrderError): HttpResponse => {
+  const { status, title } = problemOf(err);
+  return pipe(
+    err,
+    PlaceOrderErrorDto.fromDomain,
+    dto => ProblemDetailsDto.fromErrorDto(status, title, dto),
+    ProblemDetailsDto.codec.encode,
+    Json.serialize,
+    json => new HttpResponse(status, { 'Content-Type': 'application/problem+json', ...retryHeadersOf(err) }, json),
+  );
+};
+
+// -------------------------------
+// idempotency
+// -------------------------------
+
+const toConflictResponse = (key: string): HttpResponse => pipe(
+  new PlaceOrderErrorDto('IdempotencyConflict', `The key '${key}' was already used for a different order form`, []),
+  dto => ProblemDetailsDto.fromErrorDto(409, 'The idempotency key was reused', dto),
+  ProblemDetailsDto.codec.encode,
+  Json.serialize,
+  json => new HttpResponse(409, { 'Content-Type': 'application/problem+json' }, json),
+);
+
+const toReplayedResponse = (response: HttpResponse): HttpResponse =>
+  new HttpResponse(response.httpStatusCode, { ...response.headers, 'Idempotent-Replayed': 'true' }, response.body);
+
+/// Only the responses which the same order form would always get are recorded: the order was placed, or had been already.
+/// A form which was invalid or could not be priced can be corrected and sent again with the same OrderId,
+/// and a remote service which failed may well work the next time.
+const isReplayable = (response: HttpResponse) => response.httpStatusCode === 200 || response.httpStatusCode === 409;
 
-export const checkProductExists: CheckProductCodeExists = productCode => true; // dummy implementation
+/// A workflow which throws, rather than returning an error, has a bug.
+/// The exception is not passed on to the client, as it may tell more about the server than it should.
+const toInternalErrorResponse = (): HttpResponse => pipe(
+  new PlaceOrderErrorDto('InternalError', 'The order could not be placed because of an unexpected error', []),
+  dto => ProblemDetailsDto.fromErrorDto(500, 'The order could not be placed', dto),
+  ProblemDetailsDto.codec.encode,
+  Json.serialize,
+  json => new HttpResponse(500, { 'Content-Type': 'application/problem+json' }, json),
+);
 
-export const checkAddressExists: CheckAddressExists = flow(createCheckedAddress, E.right, TE.fromEither);
+/// Respond to the first request with a key by running it, and to any later request
+/// with the same key and payload by replaying that response, even while it is still running.
+/// A later request with the same key but a different payload is a conflict.
+const idempotently = (store: IdempotencyStore<HttpResponse>) => {
+  const inFlight = new Map<string, IdempotencyRecord<Promise<HttpResponse>>>();
 
-export const getProductPrice: GetProductPrice = productCode => Price.unsafeCreate(1); // dummy implementation
+  const runAndRecord = (key: string, fingerprint: string, run: () => Promise<HttpResponse>) => pipe(
+    store.get(key),
+    TE.flatMap(O.match(
+      () => pipe(
+        TE.tryCatch(run, toInternalErrorResponse),
+        TE.orElseW(response => TE.right(response)), // and answered like any response which is not recorded
+        TE.tap(response => isReplayable(response)
+          // the order has been placed by now, so failing to record the response must not hide it
+          ? pipe(store.put(key, new IdempotencyRecord(fingerprint, response)), TE.orElse(() => TE.right(undefined)))
+          : TE.right(undefined)),
+      ),
+      record => TE.right(record.fingerprint === fingerprint ? toReplayedResponse(record.response) : toConflictResponse(key)),
+    )),
+    TE.getOrElse(err => T.of(toErrorResponse(err))),
+  )();
 
-export const createOrderAcknowledgmentLetter: CreateOrderAcknowledgmentLetter = pricedOrder =>
-  new HtmlString('some text'); // dummy implementation
+  return (key: string, fingerprint: string, run: () => Promise<HttpResponse>): Promise<HttpResponse> => pipe(
+    O.fromNullable(inFlight.get(key)),
+    O.match(
+      () => {
+        const response = runAndRecord(key, fingerprint, run).finally(() => inFlight.delete(key));
+        inFlight.set(key, new IdempotencyRecord(fingerprint, response));
+        return response;
+      },
+      pending => pending.fingerprint === fingerprint
+        ? pending.response.then(toReplayedResponse)
+        : Promise.resolve(toConflictResponse(key)),
+    ),
+  );
+};
 
-export const sendOrderAcknowledgment: SendOrderAcknowledgment = orderAcknowledgement => Sent;
+/// The client can give its own key, and otherwise the OrderId is the key
+const idempotencyKeyOf = (request: HttpRequest, orderForm: OrderFormDto): string => pipe(
+  headerOf(request, 'Idempotency-Key'),
+  O.match(() => `OrderId:${orderForm.orderId}`, key => `Idempotency-Key:${key}`),
+);
 
 // -------------------------------
 // workflow
 // -------------------------------
 
-export const placeOrderApi: PlaceOrderApi = (request: HttpRequest) => pipe(
-  request.body,             // orderFormJson
-  Json.deserialize(OrderFormDto), // following the approach in "A Complete Serialization Pipeline" in chapter 11
-  (orderForm) => orderForm.toUnvalidatedOrder(), // convert to domain object
-  TE.of,
-  TE.flatMap(
+/// An order form which cannot be deserialized is malformed, and is not validated at all
+export const deserializeOrderForm = (orderFormJson: JsonString): E.Either<MalformedForm, OrderFormDto> => pipe(
+  orderFormJson,
+  Json.deserialize(OrderFormDto.codec), // following the approach in "A Complete Serialization Pipeline" in chapter 11
+  E.mapLeft(flow(NA.map(ValidationError.fromDecodeError), errors => new MalformedForm(errors))),
+);
+
+/// The workflow, with its dependencies set up
+const placeOrderWith = (deps: PlaceOrderWorkflowDependencies): PlaceOrder => placeOrder(
+  // setup the dependencies. See "Injecting Dependencies" in chapter 9
+  deps.checkProductExists,
+  deps.checkAddressExists,
+  deps.getPricingFunction,
+  deps.getExchangeRate,
+  deps.getTaxRateTable,
+  deps.getShippingRateTable,
+  deps.saveOrder,
+  deps.createOrderAcknowledgmentLetter,
+  deps.sendOrderAcknowledgment,
+  deps.publishEvents,
+);
+
+/// Run the workflow on an order form which has been deserialized, but not validated yet.
+/// Used by every adapter which takes order forms, e.g. this API or the command-line tool.
+export const placeOrderFromForm = (deps: PlaceOrderWorkflowDependencies) =>
+  (orderForm: OrderFormDto): TE.TaskEither<PlaceOrderError, PlaceOrderEvent[]> => pipe(
+    orderForm.toUnvalidatedOrder(), // convert to domain object
     // now we are in the pure domain
-    placeOrder(
-      // setup the dependencies. See "Injecting Dependencies" in chapter 9
-      checkProductExists,
-      checkAddressExists,
-      getProductPrice,
-      createOrderAcknowledgmentLetter,
-      sendOrderAcknowledgment,
-    ),
-  ),
-)().then(
-  // now convert from the pure domain back to a HttpResponse
-  E.match(
-    flow(
-      PlaceOrderErrorDto.fromDomain,
-      Json.serialize,
-      json => new HttpResponse(401, json),
+    placeOrderWith(deps),
+  );
+
+/// Run the workflow on many orders at once, e.g. for a bulk import, with at most `maxConcurrent` of them at a time
+export const placeOrderBatch = (deps: PlaceOrderWorkflowDependencies, maxConcurrent: number): PlaceOrders =>
+  placeOrders(placeOrderWith(deps), maxConcurrent);
+
+const respondToForm = (deps: PlaceOrderWorkflowDependencies) => (orderForm: OrderFormDto): Promise<HttpResponse> =>
+  placeOrderFromForm(deps)(orderForm)().then(
+    // now convert from the pure domain back to a HttpResponse
+    E.match(
+      toErrorResponse,
+      flow(
+        A.map(flow(placeOrderEventDtoFromDomain, placeOrderEventDtoCodec.encode)),
+        Json.serialize,
+        json => new HttpResponse(200, { 'Content-Type': 'application/json' }, json),
+      ),
     ),
-    flow(
-      A.map(placeOrderEventDtoFromDomain),
-      Json.serialize,
-      json => new HttpResponse(200, json),
+  );
+
+export const createPlaceOrderApi = (deps: PlaceOrderDependencies): PlaceOrderApi => {
+  const placeOrderIdempotently = idempotently(deps.idempotencyStore);
+
+  return (request: HttpRequest) => pipe(
+    request.body,             // orderFormJson
+    deserializeOrderForm,
+    E.match(
+      err => Promise.resolve(toErrorResponse(err)),
+      orderForm => placeOrderIdempotently(
+        idempotencyKeyOf(request, orderForm),
+        // the form is encoded again so that the fingerprint does not depend on e.g. whitespace or the order of fields
+        fingerprintOf(pipe(orderForm, OrderFormDto.codec.encode, Json.serialize)),
+        () => respondToForm(deps)(orderForm),
+      ),
     ),
-  ),
-)
\ No newline at end of file
+  );
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from '@jest/globals';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import { AddressDto } from './dto';
+
+describe('AddressDto', () => {
+  it('has null on the wire for the address lines which are not given', () => {
+    const dto = new AddressDto('1 Main St', 'Springfield', '94105', O.some('Apt 4'), O.none, O.none);
+
+    expect(AddressDto.codec.encode(dto)).toEqual({
+      addressLine1: '1 Main St',
+      city: 'Springfield',
+      zipCode: '94105',
+      addressLine2: 'Apt 4',
+      addressLine3: null,
+      addressLine4: null,
+    });
+  });
+
+  it('reads a missing or null address line as None, and passes it on to the domain as it is', () => {
+    const decoded = AddressDto.codec.decode({ addressLine1: '1 Main St', city: 'Springfield', zipCode: '94105', addressLine3: null });
+    if (E.isLeft(decoded)) throw decoded.left;
+
+    const address = decoded.right.toUnvalidatedAddress();
+    expect([address.addressLine2, address.addressLine3, address.addressLine4]).toEqual([O.none, O.none, O.none]);
+  });
+});
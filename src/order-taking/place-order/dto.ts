@@ -10,32 +10,87 @@
 import * as E from 'fp-ts/Either';
 import * as O from 'fp-ts/Option';
 import * as RA from 'fp-ts/ReadonlyArray';
-import { pipe } from 'fp-ts/function';
+import { flow, pipe } from 'fp-ts/function';
 import { match, P } from 'ts-pattern';
+import * as C from '../../libs/codec';
 import { bound } from '../../libs/decorator';
 import {
   BillableOrderPlaced,
+  MalformedForm,
   OrderAcknowledgmentSent,
+  OrderAlreadyPlaced,
   OrderPlaced,
   PlaceOrderError,
   PlaceOrderEvent,
+  PricedCommentLine,
+  PricedOrder,
   PricedOrderLine,
+  PricedOrderWithShippingInfo,
+  PricedProductLine,
   PricingError,
+  PricingMethod,
+  Promotion,
   RemoteServiceError,
+  ShippingInfo,
+  ShippingMethod,
+  Standard,
   UnvalidatedAddress,
+  UnvalidatedCommentLine,
   UnvalidatedCustomerInfo,
   UnvalidatedOrder,
   UnvalidatedOrderLine,
+  UnvalidatedProductLine,
   ValidationError,
+  ValidationErrors,
+  VipBenefit,
 } from './public-types';
 import { ValueObject } from '../../libs/model-type'
-import { Address, CustomerInfo, EmailAddress, PersonalName, String50, ZipCode } from '../common-types';
-import { ErrPrimitiveConstraints } from '../common-types/constrained-type';
+import {
+  Address,
+  BillingAmount,
+  CommentText,
+  createOrderQuantity,
+  createProductCode,
+  createVipStatus,
+  Currency,
+  CustomerInfo,
+  EmailAddress,
+  Money,
+  OrderId,
+  OrderLineId,
+  PersonalName,
+  Price,
+  PromotionCode,
+  String50,
+  ZipCode,
+} from '../common-types';
+import {
+  ErrEmptyString,
+  ErrInvalidDecimal,
+  ErrNumberGreaterThanMax,
+  ErrNumberLessThanMin,
+  ErrNumberNotInteger,
+  ErrPatternUnmatched,
+  ErrPredicateFailed,
+  ErrPrimitiveConstraints,
+  ErrStringTooLong,
+  isAlike,
+} from '../common-types/constrained-type';
 
 // ==================================
 // DTOs for PlaceOrder workflow
 // ==================================
 
+// Amounts of money are exact decimal strings on the wire, e.g. "12.50",
+// in the currency which is given alongside them
+const toPrice = (currency: string) => (decimal: string): E.Either<ErrPrimitiveConstraints, Price> =>
+  pipe(Money.fromDecimal(decimal, currency), E.flatMap(Price.create));
+
+const toBillingAmount = (currency: string) => (decimal: string): E.Either<ErrPrimitiveConstraints, BillingAmount> =>
+  pipe(Money.fromDecimal(decimal, currency), E.flatMap(BillingAmount.create));
+
+const toVipBenefit = flow(isAlike(/^(FreeShipping|ExpressUpgrade)$/), E.map(benefit => benefit as VipBenefit));
+
 //===============================================
 // DTO for CustomerInfo
 //===============================================
@@ -45,7 +100,15 @@ export class CustomerInfoDto extends ValueObject {
     readonly firstName: string,
     readonly lastName: string,
     readonly emailAddress: string,
+    readonly vipStatus: string, // "Normal" or "VIP"
   ) { super() }
+
+  static readonly codec: C.Codec<CustomerInfoDto> = C.classOf(
+    CustomerInfoDto,
+    { firstName: C.string, lastName: C.string, emailAddress: C.string, vipStatus: C.string },
+    p => new CustomerInfoDto(p.firstName, p.lastName, p.emailAddress, p.vipStatus),
+  );
+
   /// Convert the DTO into a UnvalidatedCustomerInfo object.
   /// This always succeeds because there is no validation.
   /// Used when importing an OrderForm from the outside world into the domain.
@@ -55,7 +118,7 @@ export class CustomerInfoDto extends ValueObject {
     // to avoid ambiguity between records with the same field names.
 
     // this is a simple 1:1 copy which always succeeds
-    return new UnvalidatedCustomerInfo(this.firstName, this.lastName, this.emailAddress);
+    return new UnvalidatedCustomerInfo(this.firstName, this.lastName, this.emailAddress, this.vipStatus);
   }
 
   /// Convert the DTO into a CustomerInfo object
@@ -68,9 +131,10 @@ export class CustomerInfoDto extends ValueObject {
       E.bind('first', () => String50.create(this.firstName)),
       E.bind('last', () => String50.create(this.lastName)),
       E.bind('email', () => EmailAddress.create(this.emailAddress)),
+      E.bind('vipStatus', () => createVipStatus(this.vipStatus)),
       // combine the components to create the domain object
       E.let('name', ({ first, last }) => new PersonalName(first, last)),
-      E.map(scope => new CustomerInfo(scope.name, scope.email)),
+      E.map(scope => new CustomerInfo(scope.name, scope.email, scope.vipStatus)),
     );
   }
 
@@ -82,6 +146,7 @@ export class CustomerInfoDto extends ValueObject {
       domainObj.name.firstName.value,
       domainObj.name.lastName.value,
       domainObj.emailAddress.value,
+      domainObj.vipStatus,
     );
   }
 }
@@ -100,6 +165,19 @@ export class AddressDto extends ValueObject {
     readonly addressLine4: O.Option<string>,
   ) { super() }
 
+  static readonly codec: C.Codec<AddressDto> = C.classOf(
+    AddressDto,
+    {
+      addressLine1: C.string,
+      city: C.string,
+      zipCode: C.string,
+      addressLine2: C.optionFromNullable(C.string),
+      addressLine3: C.optionFromNullable(C.string),
+      addressLine4: C.optionFromNullable(C.string),
+    },
+    p => new AddressDto(p.addressLine1, p.city, p.zipCode, p.addressLine2, p.addressLine3, p.addressLine4),
+  );
+
   /// Convert the DTO into a UnvalidatedAddress
   /// This always succeeds because there is no validation.
   /// Used when importing an OrderForm from the outside world into the domain.
@@ -170,46 +248,316 @@ export class AddressDto extends ValueObject {
 // DTOs for OrderLines
 //===============================================
 
-/// From the order form used as input
-export class OrderFormLineDto extends ValueObject {
+/// A product line from the order form used as input
+export class OrderFormProductLineDto extends ValueObject {
   constructor(
     readonly orderLineId: string,
     readonly productCode: string,
     readonly quantity: number,
   ) { super() }
 
+  static readonly codec: C.Codec<OrderFormProductLineDto> = C.classOf(
+    OrderFormProductLineDto,
+    { orderLineId: C.string, productCode: C.string, quantity: C.number },
+    p => new OrderFormProductLineDto(p.orderLineId, p.productCode, p.quantity),
+  );
+
+  /// Convert the OrderFormLine into a UnvalidatedOrderLine
+  /// This always succeeds because there is no validation.
+  /// Used when importing an OrderForm from the outside world into the domain.
+  @bound
+  toUnvalidatedOrderLine(): UnvalidatedOrderLine {
+    // this is a simple 1:1 copy
+    return new UnvalidatedProductLine(this.orderLineId, this.productCode, this.quantity);
+  }
+}
+
+/// A comment line from the order form used as input, e.g. a gift message
+export class OrderFormCommentLineDto extends ValueObject {
+  constructor(
+    readonly orderLineId: string,
+    readonly comment: string,
+  ) { super() }
+
+  static readonly codec: C.Codec<OrderFormCommentLineDto> = C.classOf(
+    OrderFormCommentLineDto,
+    { orderLineId: C.string, comment: C.string },
+    p => new OrderFormCommentLineDto(p.orderLineId, p.comment),
+  );
+
   /// Convert the OrderFormLine into a UnvalidatedOrderLine
   /// This always succeeds because there is no validation.
   /// Used when importing an OrderForm from the outside world into the domain.
   @bound
   toUnvalidatedOrderLine(): UnvalidatedOrderLine {
     // this is a simple 1:1 copy
-    return new UnvalidatedOrderLine(this.orderLineId, this.productCode, this.quantity);
+    return new UnvalidatedCommentLine(this.orderLineId, this.comment);
   }
 }
 
+export type OrderFormLineDto = OrderFormProductLineDto | OrderFormCommentLineDto;
+
+/// A line with a comment is a comment line, and any other line is a product line
+export const orderFormLineDtoCodec: C.Codec<OrderFormLineDto> = C.select(
+  u => 'comment' in u ? OrderFormCommentLineDto.codec : OrderFormProductLineDto.codec,
+  OrderFormProductLineDto.codec,
+  OrderFormCommentLineDto.codec,
+);
+
 //===============================================
 // DTOs for PricedOrderLines
 //===============================================
 
 /// Used in the output of the workflow
-export class PricedOrderLineDto extends ValueObject {
+export class PricedProductLineDto extends ValueObject {
   constructor(
     readonly orderLineId: string,
     readonly productCode: string,
     readonly quantity: number,
-    readonly linePrice: number,
+    readonly linePrice: string, // an exact decimal, e.g. "12.50"
+    readonly lineTax: string, // an exact decimal, e.g. "1.03"
   ) { super() }
 
-  /// Convert a PricedOrderLine object into the corresponding DTO.
+  static readonly codec: C.Codec<PricedProductLineDto> = C.classOf(
+    PricedProductLineDto,
+    { orderLineId: C.string, productCode: C.string, quantity: C.number, linePrice: C.string, lineTax: C.string },
+    p => new PricedProductLineDto(p.orderLineId, p.productCode, p.quantity, p.linePrice, p.lineTax),
+  );
+
+  /// Convert the DTO into a PricedProductLine object, whose amounts are in the given currency
+  /// Used when importing from the outside world into the domain, eg loading from a database
+  @bound
+  toDomain(currency: string): E.Either<ErrPrimitiveConstraints, PricedProductLine> {
+    return pipe(
+      E.Do,
+      // get each (validated) simple type from the DTO as a success or failure
+      E.bind('orderLineId', () => OrderLineId.create(this.orderLineId)),
+      E.bind('productCode', () => createProductCode(this.productCode)),
+      E.bind('quantity', ({ productCode }) => createOrderQuantity(productCode)(this.quantity)),
+      E.bind('linePrice', () => toPrice(currency)(this.linePrice)),
+      E.bind('lineTax', () => toPrice(currency)(this.lineTax)),
+      // combine the components to create the domain object
+      E.map(scope => new PricedProductLine(
+        scope.orderLineId,
+        scope.productCode,
+        scope.quantity,
+        scope.linePrice,
+        scope.lineTax,
+      )),
+    );
+  }
+
+  /// Convert a PricedProductLine object into the corresponding DTO.
   /// Used when exporting from the domain to the outside world.
-  static fromDomain(domainObj: PricedOrderLine): PricedOrderLineDto {
+  static fromDomain(domainObj: PricedProductLine): PricedProductLineDto {
     // this is a simple 1:1 copy
-    return new PricedOrderLineDto(
+    return new PricedProductLineDto(
       domainObj.orderLineId.value,
       domainObj.productCode.value,
       domainObj.quantity.value,
-      domainObj.linePrice.value,
+      domainObj.linePrice.value.toDecimalString(),
+      domainObj.lineTax.value.toDecimalString(),
+    );
+  }
+}
+
+/// Used in the output of the workflow
+export class PricedCommentLineDto extends ValueObject {
+  constructor(
+    readonly orderLineId: string,
+    readonly comment: string,
+  ) { super() }
+
+  static readonly codec: C.Codec<PricedCommentLineDto> = C.classOf(
+    PricedCommentLineDto,
+    { orderLineId: C.string, comment: C.string },
+    p => new PricedCommentLineDto(p.orderLineId, p.comment),
+  );
+
+  /// Convert the DTO into a PricedCommentLine object
+  /// Used when importing from the outside world into the domain, eg loading from a database
+  @bound
+  toDomain(): E.Either<ErrPrimitiveConstraints, PricedCommentLine> {
+    return pipe(
+      E.Do,
+      E.bind('orderLineId', () => OrderLineId.create(this.orderLineId)),
+      E.bind('comment', () => CommentText.create(this.comment)),
+      E.map(scope => new PricedCommentLine(scope.orderLineId, scope.comment)),
+    );
+  }
+
+  /// Convert a PricedCommentLine object into the corresponding DTO.
+  /// Used when exporting from the domain to the outside world.
+  static fromDomain(domainObj: PricedCommentLine): PricedCommentLineDto {
+    // this is a simple 1:1 copy
+    return new PricedCommentLineDto(domainObj.orderLineId.value, domainObj.comment.value);
+  }
+}
+
+export type PricedOrderLineDto = PricedProductLineDto | PricedCommentLineDto;
+
+/// A line with a comment is a comment line, and any other line is a product line
+export const pricedOrderLineDtoCodec: C.Codec<PricedOrderLineDto> = C.select(
+  u => 'comment' in u ? PricedCommentLineDto.codec : PricedProductLineDto.codec,
+  PricedProductLineDto.codec,
+  PricedCommentLineDto.codec,
+);
+
+/// Convert a PricedOrderLine object into the corresponding DTO.
+/// Used when exporting from the domain to the outside world.
+export const pricedOrderLineDtoFromDomain = (domainObj: PricedOrderLine): PricedOrderLineDto =>
+  match(domainObj)
+    .with(P.instanceOf(PricedProductLine), PricedProductLineDto.fromDomain)
+    .with(P.instanceOf(PricedCommentLine), PricedCommentLineDto.fromDomain)
+    .exhaustive();
+
+/// Convert the DTO into a PricedOrderLine object, whose amounts are in the given currency
+/// Used when importing from the outside world into the domain, eg loading from a database
+export const pricedOrderLineDtoToDomain = (currency: string) => (dto: PricedOrderLineDto): E.Either<ErrPrimitiveConstraints, PricedOrderLine> =>
+  match(dto)
+    .with(P.instanceOf(PricedProductLineDto), line => line.toDomain(currency))
+    .with(P.instanceOf(PricedCommentLineDto), line => line.toDomain())
+    .exhaustive();
+
+//===============================================
+// DTO for PricingMethod
+//===============================================
+
+export class PricingMethodDto extends ValueObject {
+  constructor(
+    readonly method: string, // "Standard" or "Promotion"
+    readonly promotionCode: O.Option<string>, // only for a Promotion
+  ) { super() }
+
+  static readonly codec: C.Codec<PricingMethodDto> = C.classOf(
+    PricingMethodDto,
+    { method: C.string, promotionCode: C.optionFromNullable(C.string) },
+    p => new PricingMethodDto(p.method, p.promotionCode),
+  );
+
+  /// Convert the DTO into a PricingMethod object
+  /// Used when importing from the outside world into the domain, eg loading from a database
+  @bound
+  toDomain(): E.Either<ErrPrimitiveConstraints, PricingMethod> {
+    return pipe(
+      this.promotionCode,
+      O.match(
+        () => pipe(
+          isAlike(/^Standard$/)(this.method),
+          E.map((): PricingMethod => new Standard()),
+        ),
+        promotionCode => pipe(
+          isAlike(/^Promotion$/)(this.method),
+          E.flatMap(() => PromotionCode.create(promotionCode)),
+          E.map(code => new Promotion(code)),
+        ),
+      ),
+    );
+  }
+
+  /// Convert a PricingMethod object into the corresponding DTO.
+  /// Used when exporting from the domain to the outside world.
+  static fromDomain(domainObj: PricingMethod): PricingMethodDto {
+    return match(domainObj)
+      .with(P.instanceOf(Promotion), p => new PricingMethodDto('Promotion', O.some(p.promotionCode.value)))
+      .with(P.instanceOf(Standard), () => new PricingMethodDto('Standard', O.none))
+      .exhaustive();
+  }
+}
+
+//===============================================
+// DTO for PricedOrder
+//===============================================
+
+/// Used to store a priced order, e.g. in a database
+export class PricedOrderDto extends ValueObject {
+  constructor(
+    readonly orderId: string,
+    readonly customerInfo: CustomerInfoDto,
+    readonly shippingAddress: AddressDto,
+    readonly billingAddress: AddressDto,
+    readonly amountToBill: string, // an exact decimal, e.g. "12.50"
+    readonly lines: PricedOrderLineDto[],
+    readonly currency: string, // the currency of every amount in the order
+    readonly taxTotal: string, // an exact decimal, included in amountToBill
+    readonly pricingMethod: PricingMethodDto,
+    readonly pricingNote: O.Option<string>,
+  ) { super() }
+
+  static readonly codec: C.Codec<PricedOrderDto> = C.classOf(
+    PricedOrderDto,
+    {
+      orderId: C.string,
+      customerInfo: CustomerInfoDto.codec,
+      shippingAddress: AddressDto.codec,
+      billingAddress: AddressDto.codec,
+      amountToBill: C.string,
+      lines: C.array(pricedOrderLineDtoCodec),
+      currency: C.string,
+      taxTotal: C.string,
+      pricingMethod: PricingMethodDto.codec,
+      pricingNote: C.optionFromNullable(C.string),
+    },
+    p => new PricedOrderDto(
+      p.orderId,
+      p.customerInfo,
+      p.shippingAddress,
+      p.billingAddress,
+      p.amountToBill,
+      p.lines,
+      p.currency,
+      p.taxTotal,
+      p.pricingMethod,
+      p.pricingNote,
+    ),
+  );
+
+  /// Convert the DTO into a PricedOrder object
+  /// Used when importing from the outside world into the domain, eg loading from a database
+  @bound
+  toDomain(): E.Either<ErrPrimitiveConstraints, PricedOrder> {
+    return pipe(
+      E.Do,
+      // get each (validated) simple type from the DTO as a success or failure
+      E.bind('orderId', () => OrderId.create(this.orderId)),
+      E.bind('customerInfo', () => this.customerInfo.toDomain()),
+      E.bind('shippingAddress', () => this.shippingAddress.toDomain()),
+      E.bind('billingAddress', () => this.billingAddress.toDomain()),
+      E.bind('currency', () => Currency.create(this.currency)),
+      E.bind('amountToBill', () => toBillingAmount(this.currency)(this.amountToBill)),
+      E.bind('lines', () => pipe(this.lines, E.traverseArray(pricedOrderLineDtoToDomain(this.currency)))),
+      E.bind('taxTotal', () => toBillingAmount(this.currency)(this.taxTotal)),
+      E.bind('pricingMethod', () => this.pricingMethod.toDomain()),
+      // combine the components to create the domain object
+      E.map(scope => new PricedOrder(
+        scope.orderId,
+        scope.customerInfo,
+        scope.shippingAddress,
+        scope.billingAddress,
+        scope.amountToBill,
+        scope.lines,
+        scope.currency,
+        scope.taxTotal,
+        scope.pricingMethod,
+        this.pricingNote,
+      )),
+    );
+  }
+
+  /// Convert a PricedOrder object into the corresponding DTO.
+  /// Used when exporting from the domain to the outside world.
+  static fromDomain(domainObj: PricedOrder): PricedOrderDto {
+    return new PricedOrderDto(
+      domainObj.orderId.value,
+      CustomerInfoDto.fromDomain(domainObj.customerInfo),
+      AddressDto.fromDomain(domainObj.shippingAddress),
+      AddressDto.fromDomain(domainObj.billingAddress),
+      domainObj.amountToBill.value.toDecimalString(),
+      pipe(domainObj.lines, RA.map(pricedOrderLineDtoFromDomain), RA.toArray),
+      domainObj.currency.value,
+      domainObj.taxTotal.value.toDecimalString(),
+      PricingMethodDto.fromDomain(domainObj.pricingMethod),
+      domainObj.pricingNote,
     );
   }
 }
@@ -225,8 +573,32 @@ export class OrderFormDto extends ValueObject {
     readonly shippingAddress: AddressDto,
     readonly billingAddress: AddressDto,
     readonly lines: OrderFormLineDto[],
+    readonly currency: string, // an ISO 4217 code, e.g. "USD"
+    readonly promotionCode: O.Option<string>,
   ) { super() }
 
+  static readonly codec: C.Codec<OrderFormDto> = C.classOf(
+    OrderFormDto,
+    {
+      orderId: C.string,
+      customerInfo: CustomerInfoDto.codec,
+      shippingAddress: AddressDto.codec,
+      billingAddress: AddressDto.codec,
+      lines: C.array(orderFormLineDtoCodec),
+      currency: C.string,
+      promotionCode: C.optionFromNullable(C.string),
+    },
+    p => new OrderFormDto(
+      p.orderId,
+      p.customerInfo,
+      p.shippingAddress,
+      p.billingAddress,
+      p.lines,
+      p.currency,
+      p.promotionCode,
+    ),
+  );
+
   /// Convert the OrderForm into a UnvalidatedOrder
   /// This always succeeds because there is no validation.
   @bound
@@ -237,6 +609,97 @@ export class OrderFormDto extends ValueObject {
       this.shippingAddress.toUnvalidatedAddress(),
       this.billingAddress.toUnvalidatedAddress(),
       this.lines.map(l => l.toUnvalidatedOrderLine()),
+      this.currency,
+      this.promotionCode,
+    );
+  }
+}
+
+//===============================================
+// DTO for ShippingInfo
+//===============================================
+
+export class ShippingInfoDto extends ValueObject {
+  constructor(
+    readonly shippingMethod: string,
+    readonly shippingCost: string, // an exact decimal, e.g. "12.50"
+  ) { super() }
+
+  static readonly codec: C.Codec<ShippingInfoDto> = C.classOf(
+    ShippingInfoDto,
+    { shippingMethod: C.string, shippingCost: C.string },
+    p => new ShippingInfoDto(p.shippingMethod, p.shippingCost),
+  );
+
+  /// Convert the DTO into a ShippingInfo object, whose cost is in the given currency
+  /// Used when importing from the outside world into the domain, eg reading an event
+  @bound
+  toDomain(currency: string): E.Either<ErrPrimitiveConstraints, ShippingInfo> {
+    return pipe(
+      E.Do,
+      E.bind('shippingMethod', () => pipe(
+        isAlike(/^(PostalService|Fedex24|Fedex48|Ups48)$/)(this.shippingMethod),
+        E.map(method => method as ShippingMethod),
+      )),
+      E.bind('shippingCost', () => toPrice(currency)(this.shippingCost)),
+      E.map(scope => new ShippingInfo(scope.shippingMethod, scope.shippingCost)),
+    );
+  }
+
+  /// Convert a ShippingInfo object into the corresponding DTO.
+  /// Used when exporting from the domain to the outside world.
+  static fromDomain(domainObj: ShippingInfo): ShippingInfoDto {
+    return new ShippingInfoDto(domainObj.shippingMethod, domainObj.shippingCost.value.toDecimalString());
+  }
+}
+
+//===============================================
+// DTO for PricedOrderWithShippingInfo
+//===============================================
+
+/// An order as it is kept once it has been placed: priced, and with its shipping and VIP benefits
+export class PricedOrderWithShippingInfoDto extends ValueObject {
+  constructor(
+    readonly pricedOrder: PricedOrderDto,
+    readonly shippingInfo: ShippingInfoDto,
+    readonly amountToBill: string, // an exact decimal, including the shipping cost
+    readonly vipBenefits: string[], // e.g. "FreeShipping"
+  ) { super() }
+
+  static readonly codec: C.Codec<PricedOrderWithShippingInfoDto> = C.classOf(
+    PricedOrderWithShippingInfoDto,
+    {
+      pricedOrder: PricedOrderDto.codec,
+      shippingInfo: ShippingInfoDto.codec,
+      amountToBill: C.string,
+      vipBenefits: C.array(C.string),
+    },
+    p => new PricedOrderWithShippingInfoDto(p.pricedOrder, p.shippingInfo, p.amountToBill, p.vipBenefits),
+  );
+
+  /// Convert the DTO into a PricedOrderWithShippingInfo object
+  /// Used when importing from the outside world into the domain, eg loading from a database
+  @bound
+  toDomain(): E.Either<ErrPrimitiveConstraints, PricedOrderWithShippingInfo> {
+    const { currency } = this.pricedOrder;
+    return pipe(
+      E.Do,
+      E.bind('pricedOrder', () => this.pricedOrder.toDomain()),
+      E.bind('shippingInfo', () => this.shippingInfo.toDomain(currency)),
+      E.bind('amountToBill', () => toBillingAmount(currency)(this.amountToBill)),
+      E.bind('vipBenefits', () => pipe(this.vipBenefits, E.traverseArray(toVipBenefit))),
+      E.map(scope => new PricedOrderWithShippingInfo(scope.pricedOrder, scope.shippingInfo, scope.amountToBill, scope.vipBenefits)),
+    );
+  }
+
+  /// Convert a PricedOrderWithShippingInfo object into the corresponding DTO.
+  /// Used when exporting from the domain to the outside world.
+  static fromDomain(domainObj: PricedOrderWithShippingInfo): PricedOrderWithShippingInfoDto {
+    return new PricedOrderWithShippingInfoDto(
+      PricedOrderDto.fromDomain(domainObj.pricedOrder),
+      ShippingInfoDto.fromDomain(domainObj.shippingInfo),
+      domainObj.amountToBill.value.toDecimalString(),
+      [...domainObj.vipBenefits],
     );
   }
 }
@@ -252,10 +715,84 @@ export class OrderPlacedDto extends ValueObject {
     readonly customerInfo: CustomerInfoDto,
     readonly shippingAddress: AddressDto,
     readonly billingAddress: AddressDto,
-    readonly amountToBill: number,
+    readonly amountToBill: string, // an exact decimal, e.g. "12.50"
     readonly lines: PricedOrderLineDto[],
+    readonly currency: string, // the currency of every amount in the order
+    readonly taxTotal: string, // an exact decimal, included in amountToBill
+    readonly pricingMethod: PricingMethodDto,
+    readonly pricingNote: O.Option<string>,
+    readonly shippingInfo: ShippingInfoDto,
+    readonly vipBenefits: string[], // e.g. "FreeShipping"
   ) { super() }
 
+  static readonly codec: C.Codec<OrderPlacedDto> = C.classOf(
+    OrderPlacedDto,
+    {
+      orderId: C.string,
+      customerInfo: CustomerInfoDto.codec,
+      shippingAddress: AddressDto.codec,
+      billingAddress: AddressDto.codec,
+      amountToBill: C.string,
+      lines: C.array(pricedOrderLineDtoCodec),
+      currency: C.string,
+      taxTotal: C.string,
+      pricingMethod: PricingMethodDto.codec,
+      pricingNote: C.optionFromNullable(C.string),
+      shippingInfo: ShippingInfoDto.codec,
+      vipBenefits: C.array(C.string),
+    },
+    p => new OrderPlacedDto(
+      p.orderId,
+      p.customerInfo,
+      p.shippingAddress,
+      p.billingAddress,
+      p.amountToBill,
+      p.lines,
+      p.currency,
+      p.taxTotal,
+      p.pricingMethod,
+      p.pricingNote,
+      p.shippingInfo,
+      p.vipBenefits,
+    ),
+  );
+
+  /// Convert the DTO into a OrderPlaced object
+  /// Used when importing from the outside world into the domain, eg reading the event from the outbox
+  @bound
+  toDomain(): E.Either<ErrPrimitiveConstraints, OrderPlaced> {
+    return pipe(
+      E.Do,
+      // get each (validated) simple type from the DTO as a success or failure
+      E.bind('orderId', () => OrderId.create(this.orderId)),
+      E.bind('customerInfo', () => this.customerInfo.toDomain()),
+      E.bind('shippingAddress', () => this.shippingAddress.toDomain()),
+      E.bind('billingAddress', () => this.billingAddress.toDomain()),
+      E.bind('currency', () => Currency.create(this.currency)),
+      E.bind('amountToBill', () => toBillingAmount(this.currency)(this.amountToBill)),
+      E.bind('lines', () => pipe(this.lines, E.traverseArray(pricedOrderLineDtoToDomain(this.currency)))),
+      E.bind('taxTotal', () => toBillingAmount(this.currency)(this.taxTotal)),
+      E.bind('pricingMethod', () => this.pricingMethod.toDomain()),
+      E.bind('shippingInfo', () => this.shippingInfo.toDomain(this.currency)),
+      E.bind('vipBenefits', () => pipe(this.vipBenefits, E.traverseArray(toVipBenefit))),
+      // combine the components to create the domain object
+      E.map(scope => new OrderPlaced(
+        scope.orderId,
+        scope.customerInfo,
+        scope.shippingAddress,
+        scope.billingAddress,
+        scope.amountToBill,
+        scope.lines,
+        scope.currency,
+        scope.taxTotal,
+        scope.pricingMethod,
+        this.pricingNote,
+        scope.shippingInfo,
+        scope.vipBenefits,
+      )),
+    );
+  }
+
   /// Convert a OrderPlaced object into the corresponding DTO.
   /// Used when exporting from the domain to the outside world.
   static fromDomain(domainObj: OrderPlaced): OrderPlacedDto {
@@ -264,8 +801,14 @@ export class OrderPlacedDto extends ValueObject {
       CustomerInfoDto.fromDomain(domainObj.customerInfo),
       AddressDto.fromDomain(domainObj.shippingAddress),
       AddressDto.fromDomain(domainObj.billingAddress),
-      domainObj.amountToBill.value,
-      pipe(domainObj.lines, RA.map(PricedOrderLineDto.fromDomain), RA.toArray),
+      domainObj.amountToBill.value.toDecimalString(),
+      pipe(domainObj.lines, RA.map(pricedOrderLineDtoFromDomain), RA.toArray),
+      domainObj.currency.value,
+      domainObj.taxTotal.value.toDecimalString(),
+      PricingMethodDto.fromDomain(domainObj.pricingMethod),
+      domainObj.pricingNote,
+      ShippingInfoDto.fromDomain(domainObj.shippingInfo),
+      [...domainObj.vipBenefits],
     );
   }
 }
@@ -279,16 +822,35 @@ export class BillableOrderPlacedDto extends ValueObject {
   constructor(
     readonly orderId: string,
     readonly billingAddress: AddressDto,
-    readonly amountToBill: number,
+    readonly amountToBill: string, // an exact decimal, e.g. "12.50"
+    readonly currency: string, // the currency of amountToBill
+    readonly taxTotal: string, // an exact decimal, included in amountToBill
+    readonly shippingInfo: ShippingInfoDto, // the shipping cost is included in amountToBill
   ) { super() }
 
+  static readonly codec: C.Codec<BillableOrderPlacedDto> = C.classOf(
+    BillableOrderPlacedDto,
+    {
+      orderId: C.string,
+      billingAddress: AddressDto.codec,
+      amountToBill: C.string,
+      currency: C.string,
+      taxTotal: C.string,
+      shippingInfo: ShippingInfoDto.codec,
+    },
+    p => new BillableOrderPlacedDto(p.orderId, p.billingAddress, p.amountToBill, p.currency, p.taxTotal, p.shippingInfo),
+  );
+
   /// Convert a BillableOrderPlaced object into the corresponding DTO.
   /// Used when exporting from the domain to the outside world.
   static fromDomain(domainObj: BillableOrderPlaced): BillableOrderPlacedDto {
     return new BillableOrderPlacedDto(
       domainObj.orderId.value,
       AddressDto.fromDomain(domainObj.billingAddress),
-      domainObj.amountToBill.value,
+      domainObj.amountToBill.value.toDecimalString(),
+      domainObj.currency.value,
+      domainObj.taxTotal.value.toDecimalString(),
+      ShippingInfoDto.fromDomain(domainObj.shippingInfo),
     );
   }
 }
@@ -304,6 +866,12 @@ export class OrderAcknowledgmentSentDto extends ValueObject {
     readonly emailAddress: string,
   ) { super() }
 
+  static readonly codec: C.Codec<OrderAcknowledgmentSentDto> = C.classOf(
+    OrderAcknowledgmentSentDto,
+    { orderId: C.string, emailAddress: C.string },
+    p => new OrderAcknowledgmentSentDto(p.orderId, p.emailAddress),
+  );
+
   /// Convert a OrderAcknowledgmentSent object into the corresponding DTO.
   /// Used when exporting from the domain to the outside world.
   static fromDomain(domainObj: OrderAcknowledgmentSent): OrderAcknowledgmentSentDto {
@@ -322,6 +890,12 @@ export type PlaceOrderEventDto =
   | { BillableOrderPlaced: BillableOrderPlacedDto }
   | { OrderAcknowledgmentSent: OrderAcknowledgmentSentDto };
 
+export const placeOrderEventDtoCodec: C.Codec<PlaceOrderEventDto> = C.union(
+  C.struct({ OrderPlaced: OrderPlacedDto.codec }),
+  C.struct({ BillableOrderPlaced: BillableOrderPlacedDto.codec }),
+  C.struct({ OrderAcknowledgmentSent: OrderAcknowledgmentSentDto.codec }),
+);
+
 /// Convert a PlaceOrderEvent into the corresponding DTO.
 /// Used when exporting from the domain to the outside world.
 export const placeOrderEventDtoFromDomain = (domainObj: PlaceOrderEvent): PlaceOrderEventDto =>
@@ -340,18 +914,116 @@ export const placeOrderEventDtoFromDomain = (domainObj: PlaceOrderEvent): PlaceO
 // DTO for PlaceOrderError
 //===============================================
 
+/// The machine-readable description of a violated constraint
+export class ConstraintDto extends ValueObject {
+  constructor(
+    readonly kind: string,
+    readonly params: Record<string, string | number>,
+  ) { super() }
+
+  static readonly codec: C.Codec<ConstraintDto> = C.classOf(
+    ConstraintDto,
+    { kind: C.string, params: C.record(C.union(C.string, C.number)) },
+    p => new ConstraintDto(p.kind, p.params),
+  );
+
+  static fromDomain(domainObj: ErrPrimitiveConstraints): ConstraintDto {
+    return match(domainObj)
+      .with(P.instanceOf(ErrEmptyString), () => new ConstraintDto('required', {}))
+      .with(P.instanceOf(ErrStringTooLong), err => new ConstraintDto('maxLen', { maxLen: err.maxLen }))
+      .with(P.instanceOf(ErrPatternUnmatched), err => new ConstraintDto('pattern', { pattern: err.pattern }))
+      .with(P.instanceOf(ErrNumberLessThanMin), err => new ConstraintDto('min', { min: err.min }))
+      .with(P.instanceOf(ErrNumberGreaterThanMax), err => new ConstraintDto('max', { max: err.max }))
+      .with(P.instanceOf(ErrNumberNotInteger), () => new ConstraintDto('integer', {}))
+      .with(P.instanceOf(ErrInvalidDecimal), err => new ConstraintDto('decimal', { scale: err.scale }))
+      .with(P.instanceOf(ErrPredicateFailed), err => new ConstraintDto('predicate', { description: err.description }))
+      .exhaustive();
+  }
+}
+
+/// A single validation failure, so that the client can map it to the form field
+export class ValidationErrorDto extends ValueObject {
+  constructor(
+    readonly path: string,
+    readonly message: string,
+    readonly constraint: ConstraintDto | null,
+    readonly rejectedValue: string | number | null,
+  ) { super() }
+
+  static readonly codec: C.Codec<ValidationErrorDto> = C.classOf(
+    ValidationErrorDto,
+    {
+      path: C.string,
+      message: C.string,
+      constraint: C.nullable(ConstraintDto.codec),
+      rejectedValue: C.nullable(C.union(C.string, C.number)),
+    },
+    p => new ValidationErrorDto(p.path, p.message, p.constraint, p.rejectedValue),
+  );
+
+  static fromDomain(domainObj: ValidationError): ValidationErrorDto {
+    return new ValidationErrorDto(
+      C.pathToString(domainObj.path),
+      domainObj.message,
+      pipe(domainObj.constraint, O.map(ConstraintDto.fromDomain), O.toNullable),
+      O.toNullable(domainObj.rejectedValue),
+    );
+  }
+}
+
 export class PlaceOrderErrorDto extends ValueObject {
   constructor(
     readonly code: string,
     readonly message: string,
+    readonly errors: ValidationErrorDto[],
   ) { super() }
 
+  static readonly codec: C.Codec<PlaceOrderErrorDto> = C.classOf(
+    PlaceOrderErrorDto,
+    { code: C.string, message: C.string, errors: C.array(ValidationErrorDto.codec) },
+    p => new PlaceOrderErrorDto(p.code, p.message, p.errors),
+  );
+
   static fromDomain(domainObj: PlaceOrderError): PlaceOrderErrorDto {
     return match(domainObj)
-      .with(P.instanceOf(ValidationError), err => new PlaceOrderErrorDto('ValidationError', err.message))
-      .with(P.instanceOf(PricingError), err => new PlaceOrderErrorDto('PricingError', err.message))
+      .with(P.instanceOf(MalformedForm), err =>
+        new PlaceOrderErrorDto('MalformedForm', err.message, err.errors.map(ValidationErrorDto.fromDomain)))
+      .with(P.instanceOf(ValidationErrors), err =>
+        new PlaceOrderErrorDto('ValidationError', err.message, err.errors.map(ValidationErrorDto.fromDomain)))
+      .with(P.instanceOf(PricingError), err => new PlaceOrderErrorDto('PricingError', err.message, []))
+      .with(P.instanceOf(OrderAlreadyPlaced), err => new PlaceOrderErrorDto('OrderAlreadyPlaced', err.message, []))
       .with(P.instanceOf(RemoteServiceError), err =>
-        new PlaceOrderErrorDto('RemoveServiceError', `${err.service.name}: ${err.exception.message}`))
+        new PlaceOrderErrorDto('RemoveServiceError', `${err.service.name}: ${err.exception.message}`, []))
       .exhaustive();
   }
 }
+
+/// An error body in the "application/problem+json" format (RFC 7807),
+/// extended with the PlaceOrderErrorDto members
+export class ProblemDetailsDto extends ValueObject {
+  constructor(
+    readonly type: string,
+    readonly title: string,
+    readonly status: number,
+    readonly detail: string,
+    readonly code: string,
+    readonly errors: ValidationErrorDto[],
+  ) { super() }
+
+  static readonly codec: C.Codec<ProblemDetailsDto> = C.classOf(
+    ProblemDetailsDto,
+    {
+      type: C.string,
+      title: C.string,
+      status: C.number,
+      detail: C.string,
+      code: C.string,
+      errors: C.array(ValidationErrorDto.codec),
+    },
+    p => new ProblemDetailsDto(p.type, p.title, p.status, p.detail, p.code, p.errors),
+  );
+
+  static fromErrorDto(status: number, title: string, dto: PlaceOrderErrorDto): ProblemDetailsDto {
+    return new ProblemDetailsDto(`urn:order-taking:place-order:${dto.code}`, title, status, dto.message, dto.code, dto.errors);
+  }
+}
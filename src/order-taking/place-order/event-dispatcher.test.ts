@@ -0,0 +1,208 @@
+import { describe, expect, it } from '@jest/globals';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import * as TE from 'fp-ts/TaskEither';
+import {
+  checkAddressExists,
+  checkProductExists,
+  createOrderAcknowledgmentLetter,
+  getExchangeRate,
+  getPricingFunction,
+  getShippingRateTable,
+  getTaxRateTable,
+  publishNothing,
+  saveNothing,
+  sendOrderAcknowledgment,
+} from '../../composition-root';
+import { OrderAmended } from '../order/order';
+import { deserializeOrderForm, placeOrderFromForm } from './api';
+import { createEventDispatcher, DispatchReport, noHandlers, pollOutbox, RetryPolicy } from './event-dispatcher';
+import { createInMemoryDeadLetterStore, createInMemoryOutbox, OutboxMessage } from './outbox';
+import { OrderPlaced } from './public-types';
+
+import type { OrderAmendedDto } from '../change-order/dto';
+import type { OrderPlacedDto } from './dto';
+import type { EventHandler } from './event-dispatcher';
+import type { PlaceOrderEvent, RemoteServiceError } from './public-types';
+
+const address = { addressLine1: '1 Main St', city: 'Springfield', zipCode: '94105' };
+
+/// The events of an order, placed with the dummy dependencies
+const eventsOf = async (orderId: string): Promise<PlaceOrderEvent[]> => {
+  const orderForm = deserializeOrderForm(JSON.stringify({
+    orderId,
+    customerInfo: { firstName: 'Ada', lastName: 'Lovelace', emailAddress: 'ada@example.com', vipStatus: 'Normal' },
+    shippingAddress: address,
+    billingAddress: address,
+    lines: [{ orderLineId: 'line-1', productCode: 'W1234', quantity: 2 }],
+    currency: 'USD',
+  }));
+  if (E.isLeft(orderForm)) throw orderForm.left;
+  const events = await placeOrderFromForm({
+    checkProductExists,
+    checkAddressExists,
+    getPricingFunction,
+    getExchangeRate,
+    getTaxRateTable,
+    getShippingRateTable,
+    saveOrder: saveNothing,
+    createOrderAcknowledgmentLetter,
+    sendOrderAcknowledgment,
+    publishEvents: publishNothing,
+  })(orderForm.right)();
+  if (E.isLeft(events)) throw events.left;
+  return events.right;
+};
+
+const rightOf = async <A>(task: TE.TaskEither<unknown, A>): Promise<A> => {
+  const result = await task();
+  if (E.isLeft(result)) throw result.left;
+  return result.right;
+};
+
+/// An outbox with the events of the orders in it, as they would be saved at the given time
+const outboxWith = async (now: number, ...orderIds: string[]) => {
+  const outbox = createInMemoryOutbox();
+  for (const orderId of orderIds) {
+    await rightOf(outbox.append((await eventsOf(orderId)).map(OutboxMessage.fromDomain(now))));
+  }
+  return outbox;
+};
+
+/// An amendment of the order which changes nothing
+const amendmentOf = async (orderId: string): Promise<OrderAmended> => {
+  const placed = (await eventsOf(orderId)).find((event): event is OrderPlaced => event instanceof OrderPlaced);
+  if (placed === undefined) throw new Error('no OrderPlaced event');
+  return new OrderAmended(
+    placed.orderId,
+    placed.shippingAddress,
+    placed.billingAddress,
+    placed.lines,
+    placed.shippingInfo,
+    placed.vipBenefits,
+    placed.amountToBill,
+    placed.taxTotal,
+    placed.amountToBill.value.subtract(placed.amountToBill.value),
+    placed.currency,
+    O.none,
+  );
+};
+
+const failing: EventHandler<unknown> = () => TE.left(new Error('unavailable'));
+
+describe('the outbox', () => {
+  it('has a message for each event, keyed by the OrderId and the type of event', async () => {
+    const outbox = await outboxWith(0, 'order-1');
+
+    expect((await rightOf(outbox.due(0))).map(message => message.messageId))
+      .toEqual(['order-1/OrderPlaced', 'order-1/OrderAcknowledgmentSent', 'order-1/BillableOrderPlaced']);
+  });
+
+  it('ignores a message which it already has', async () => {
+    const outbox = await outboxWith(0, 'order-1');
+    await rightOf(outbox.append((await eventsOf('order-1')).map(OutboxMessage.fromDomain(0))));
+
+    expect(await rightOf(outbox.due(0))).toHaveLength(3);
+  });
+
+  it('only gives the messages which are due', async () => {
+    const outbox = await outboxWith(1_000, 'order-1');
+
+    expect(await rightOf(outbox.due(999))).toHaveLength(0);
+    expect(await rightOf(outbox.due(1_000))).toHaveLength(3);
+  });
+
+  it('keeps a message in a form which can be read back', async () => {
+    const [message] = await rightOf((await outboxWith(0, 'order-1')).due(0));
+
+    expect(OutboxMessage.codec.decode(JSON.parse(JSON.stringify(OutboxMessage.codec.encode(message))))).toEqual(E.right(message));
+  });
+});
+
+describe('the event dispatcher', () => {
+  it('delivers each event to every handler of its type, and then removes it', async () => {
+    const outbox = await outboxWith(0, 'order-1', 'order-2');
+    const placed: string[] = [];
+    const record: EventHandler<OrderPlacedDto> = dto => TE.fromIO(() => {
+      placed.push(dto.orderId);
+    });
+    const dispatch = createEventDispatcher(outbox, createInMemoryDeadLetterStore(), { ...noHandlers, OrderPlaced: [record, record] });
+
+    expect(await rightOf(dispatch(0))).toEqual(new DispatchReport(6, 0, 0));
+    expect(placed).toEqual(['order-1', 'order-1', 'order-2', 'order-2']);
+    expect(await rightOf(outbox.due(Number.MAX_SAFE_INTEGER))).toHaveLength(0);
+  });
+
+  it('delivers each amendment of an order, told apart by the version of the order', async () => {
+    const outbox = createInMemoryOutbox();
+    const amended = await amendmentOf('order-1');
+    await rightOf(outbox.append([OutboxMessage.fromAmendment(0, 2)(amended), OutboxMessage.fromAmendment(0, 3)(amended)]));
+    const delivered: string[] = [];
+    const record: EventHandler<OrderAmendedDto> = (dto, envelope) => TE.fromIO(() => {
+      delivered.push(`${envelope.eventId}: ${dto.billingDelta}`);
+    });
+    const dispatch = createEventDispatcher(outbox, createInMemoryDeadLetterStore(), { ...noHandlers, OrderAmended: [record] });
+
+    expect(await rightOf(dispatch(0))).toEqual(new DispatchReport(2, 0, 0));
+    expect(delivered).toEqual(['order-1/OrderAmended/2: 0.00', 'order-1/OrderAmended/3: 0.00']);
+  });
+
+  it('retries a message which failed, later each time', async () => {
+    const outbox = await outboxWith(0, 'order-1');
+    const dispatch = createEventDispatcher(outbox, createInMemoryDeadLetterStore(), { ...noHandlers, OrderPlaced: [failing] }, new RetryPolicy(5, 100, 1_000));
+
+    expect(await rightOf(dispatch(0))).toEqual(new DispatchReport(2, 1, 0));
+    expect(await rightOf(dispatch(99))).toEqual(new DispatchReport(0, 0, 0));
+    expect(await rightOf(dispatch(100))).toEqual(new DispatchReport(0, 1, 0));
+    // 200 ms after the second failure
+    expect(await rightOf(dispatch(299))).toEqual(new DispatchReport(0, 0, 0));
+    const [message] = await rightOf(outbox.due(300));
+    expect(message.attempts).toBe(2);
+  });
+
+  it('moves a message to the dead letters once it has used up its attempts', async () => {
+    const outbox = await outboxWith(0, 'order-1');
+    const deadLetters = createInMemoryDeadLetterStore();
+    const dispatch = createEventDispatcher(outbox, deadLetters, { ...noHandlers, OrderPlaced: [failing] }, new RetryPolicy(2, 100, 1_000));
+    await rightOf(dispatch(0));
+
+    expect(await rightOf(dispatch(100))).toEqual(new DispatchReport(0, 0, 1));
+    const [deadLetter] = await rightOf(deadLetters.list());
+    expect(deadLetter.message.messageId).toBe('order-1/OrderPlaced');
+    expect(deadLetter.error).toBe('unavailable');
+    expect(await rightOf(outbox.due(Number.MAX_SAFE_INTEGER))).toHaveLength(0);
+  });
+
+  it('treats a handler which throws like one which failed', async () => {
+    const outbox = await outboxWith(0, 'order-1');
+    const throwing: EventHandler<OrderPlacedDto> = () => {
+      throw new Error('bug');
+    };
+    const dispatch = createEventDispatcher(outbox, createInMemoryDeadLetterStore(), { ...noHandlers, OrderPlaced: [throwing] });
+
+    expect(await rightOf(dispatch(0))).toEqual(new DispatchReport(2, 1, 0));
+  });
+});
+
+describe('pollOutbox', () => {
+  it('keeps polling when a dispatch rejects, or the callback throws, and passes the callback its own failure', async () => {
+    let calls = 0;
+    const results: E.Either<RemoteServiceError, DispatchReport>[] = [];
+    const stop = pollOutbox(
+      () => () => ++calls === 1 ? Promise.reject(new Error('boom')) : Promise.resolve(E.right(new DispatchReport(0, 0, 0))),
+      1,
+      result => {
+        results.push(result);
+        if (results.length === 2) throw new Error('callback failed');
+      },
+    );
+    await new Promise(resolve => setTimeout(resolve, 50));
+    stop();
+
+    expect(results.length).toBeGreaterThanOrEqual(4);
+    expect(E.isLeft(results[0]) && results[0].left.exception.message).toBe('boom');
+    expect(results[1]).toEqual(E.right(new DispatchReport(0, 0, 0)));
+    expect(E.isLeft(results[2]) && results[2].left.exception.message).toBe('callback failed');
+    expect(results[3]).toEqual(E.right(new DispatchReport(0, 0, 0)));
+  });
+});
@@ -0,0 +1,190 @@
+// ======================================================
+// This file contains the dispatcher which delivers the events
+// from the outbox to the handlers registered for each type of event,
+// e.g. the shipping and billing contexts.
+//
+// Delivery is at least once: a message is only removed from the outbox
+// once every handler for it has succeeded, so handlers must be idempotent.
+// ======================================================
+
+import * as A from 'fp-ts/Array';
+import * as E from 'fp-ts/Either';
+import { identity, pipe } from 'fp-ts/function';
+import * as T from 'fp-ts/Task';
+import * as TE from 'fp-ts/TaskEither';
+import { ValueObject } from '../../libs/model-type';
+import { openEnvelope, placeOrderEventSchemas } from './event-envelope';
+import { DeadLetter, OutboxMessage } from './outbox';
+import { RemoteServiceError, ServiceInfo } from './public-types';
+
+import type { OrderAmendedDto } from '../change-order/dto';
+import type { BillableOrderPlacedDto, OrderAcknowledgmentSentDto, OrderPlacedDto } from './dto';
+import type { EventEnvelope } from './event-envelope';
+import type { DeadLetterStore, Outbox } from './outbox';
+
+// -------------------------------
+// handlers
+// -------------------------------
+
+/// The envelope is given too, e.g. so that the handler can tell by the event id that it has seen the event before
+export type EventHandler<T> = (event: T, envelope: EventEnvelope) => TE.TaskEither<Error, void>;
+
+/// The handlers for each type of event. Every handler of the type gets every event of the type.
+export type EventHandlers = {
+  readonly OrderPlaced: readonly EventHandler<OrderPlacedDto>[];
+  readonly BillableOrderPlaced: readonly EventHandler<BillableOrderPlacedDto>[];
+  readonly OrderAcknowledgmentSent: readonly EventHandler<OrderAcknowledgmentSentDto>[];
+  readonly OrderAmended: readonly EventHandler<OrderAmendedDto>[];
+};
+
+export const noHandlers: EventHandlers = { OrderPlaced: [], BillableOrderPlaced: [], OrderAcknowledgmentSent: [], OrderAmended: [] };
+
+const toError = (err: unknown): Error => err instanceof Error ? err : new Error(String(err));
+
+/// A handler which throws rather than returning an error is treated just the same
+const runHandler = <T>(handler: EventHandler<T>, envelope: EventEnvelope) => (event: T): TE.TaskEither<Error, void> => pipe(
+  TE.tryCatch(() => handler(event, envelope)(), toError),
+  TE.flatMapEither(identity),
+);
+
+/// Run the handlers one after the other, stopping at the first failure
+const runHandlers = <T>(handlers: readonly EventHandler<T>[], envelope: EventEnvelope, event: T): TE.TaskEither<Error, void> => pipe(
+  [...handlers],
+  A.map(handler => runHandler(handler, envelope)(event)),
+  TE.sequenceSeqArray,
+  TE.map(() => undefined),
+);
+
+/// An event which cannot be read, e.g. because it was written by newer code, fails like a handler would
+const deliver = (handlers: EventHandlers) => (envelope: EventEnvelope): TE.TaskEither<Error, void> => pipe(
+  openEnvelope(placeOrderEventSchemas)(envelope),
+  TE.fromEither,
+  TE.flatMap(event =>
+    'OrderPlaced' in event ? runHandlers(handlers.OrderPlaced, envelope, event.OrderPlaced)
+      : 'BillableOrderPlaced' in event ? runHandlers(handlers.BillableOrderPlaced, envelope, event.BillableOrderPlaced)
+        : 'OrderAcknowledgmentSent' in event ? runHandlers(handlers.OrderAcknowledgmentSent, envelope, event.OrderAcknowledgmentSent)
+          : runHandlers(handlers.OrderAmended, envelope, event.OrderAmended)),
+);
+
+// -------------------------------
+// retries
+// -------------------------------
+
+/// How often, and how long after each failure, a message is retried before it is given up on.
+/// The delay doubles after each failure, up to maxDelayMs.
+export class RetryPolicy extends ValueObject {
+  constructor(
+    readonly maxAttempts: number,
+    readonly initialDelayMs: number,
+    readonly maxDelayMs: number,
+  ) { super() }
+
+  static readonly default = new RetryPolicy(5, 1_000, 60_000);
+
+  delayAfter(attempts: number): number {
+    return Math.min(this.maxDelayMs, this.initialDelayMs * 2 ** Math.max(0, attempts - 1));
+  }
+}
+
+// -------------------------------
+// dispatcher
+// -------------------------------
+
+export const Delivered = 'Delivered' as const;
+export const Retrying = 'Retrying' as const;
+export const DeadLettered = 'DeadLettered' as const;
+type DeliveryOutcome = typeof Delivered | typeof Retrying | typeof DeadLettered;
+
+/// What happened to the messages which were due
+export class DispatchReport extends ValueObject {
+  constructor(
+    readonly delivered: number,
+    readonly retrying: number,
+    readonly deadLettered: number,
+  ) { super() }
+
+  static of(outcomes: readonly DeliveryOutcome[]): DispatchReport {
+    const count = (outcome: DeliveryOutcome) => outcomes.filter(o => o === outcome).length;
+    return new DispatchReport(count(Delivered), count(Retrying), count(DeadLettered));
+  }
+}
+
+/// Deliver every message which is due at the given time, in the order they were put in the outbox.
+/// A message which fails is retried later, or moved to the dead-letter store once it has used up its attempts.
+export type DispatchEvents = (now: number) => TE.TaskEither<RemoteServiceError, DispatchReport>;
+
+export const createEventDispatcher = (
+  outbox: Outbox,
+  deadLetters: DeadLetterStore,
+  handlers: EventHandlers,
+  retryPolicy: RetryPolicy = RetryPolicy.default,
+): DispatchEvents => {
+  const onFailure = (now: number, message: OutboxMessage) => (err: Error): TE.TaskEither<RemoteServiceError, DeliveryOutcome> => {
+    const attempts = message.attempts + 1;
+    const failed = new OutboxMessage(message.messageId, message.envelope, attempts, now + retryPolicy.delayAfter(attempts));
+    return attempts >= retryPolicy.maxAttempts
+      ? pipe(
+        deadLetters.put(new DeadLetter(failed, err.message, now)),
+        TE.flatMap(() => outbox.remove(message.messageId)),
+        TE.as(DeadLettered),
+      )
+      : pipe(outbox.update(failed), TE.as(Retrying));
+  };
+
+  const dispatchMessage = (now: number) => (message: OutboxMessage): TE.TaskEither<RemoteServiceError, DeliveryOutcome> => pipe(
+    deliver(handlers)(message.envelope),
+    T.flatMap(E.match(
+      onFailure(now, message),
+      () => pipe(outbox.remove(message.messageId), TE.as(Delivered)),
+    )),
+  );
+
+  return now => pipe(
+    outbox.due(now),
+    TE.flatMap(messages => pipe([...messages], A.map(dispatchMessage(now)), TE.sequenceSeqArray)),
+    TE.map(DispatchReport.of),
+  );
+};
+
+const dispatcherService = new ServiceInfo('EventDispatcher', new URL('memory:event-dispatcher'));
+
+/// Dispatch the events every intervalMs until stopped, e.g. in a local deployment.
+/// A pass never overlaps the previous one. Return a function which stops the polling.
+/// A callback which throws is passed its own failure, like a dispatch which failed, but only once.
+export const pollOutbox = (
+  dispatchEvents: DispatchEvents,
+  intervalMs: number,
+  onDispatched: (result: E.Either<RemoteServiceError, DispatchReport>) => void = () => { },
+): (() => void) => {
+  let timer: NodeJS.Timeout | undefined;
+  let stopped = false;
+  const report = (result: E.Either<RemoteServiceError, DispatchReport>) => {
+    try {
+      onDispatched(result);
+    } catch (err) {
+      try {
+        onDispatched(E.left(new RemoteServiceError(dispatcherService, toError(err))));
+      } catch {
+        // there is nothing left to report the failure to
+      }
+    }
+  };
+  const poll = () => {
+    dispatchEvents(Date.now())()
+      // a dispatch which throws is reported like one which failed
+      .catch((err): E.Either<RemoteServiceError, DispatchReport> =>
+        E.left(new RemoteServiceError(dispatcherService, toError(err))))
+      .then(result => {
+        report(result);
+        // the polling goes on whatever the callback does
+        if (!stopped) {
+          timer = setTimeout(poll, intervalMs);
+        }
+      });
+  };
+  timer = setTimeout(poll, 0);
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+};
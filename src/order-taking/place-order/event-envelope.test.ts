@@ -0,0 +1,102 @@
+import { describe, expect, it } from '@jest/globals';
+import * as E from 'fp-ts/Either';
+import { pipe } from 'fp-ts/function';
+import { OrderAcknowledgmentSentDto } from './dto';
+import {
+  currentVersionOf,
+  EventEnvelope,
+  OrderAcknowledgmentSentType,
+  openEnvelope,
+  placeOrderEventSchemas,
+  sealEnvelope,
+} from './event-envelope';
+
+import type { EventSchemaRegistry, Upcaster } from './event-envelope';
+
+// -------------------------------
+// a registry in which OrderAcknowledgmentSent has changed shape twice
+// -------------------------------
+
+/// Version 1 nested the OrderId: { order: { id }, email }
+const unnestOrderId: Upcaster = ({ order, ...payload }) => ({
+  ...payload,
+  orderId: typeof order === 'object' && order !== null && 'id' in order ? order.id : undefined,
+});
+
+/// Version 2 called the email address "email": { orderId, email }
+const renameEmail: Upcaster = ({ email, ...payload }) => ({ ...payload, emailAddress: email });
+
+/// Version 3 is the current shape: { orderId, emailAddress }
+const registry: EventSchemaRegistry = {
+  ...placeOrderEventSchemas,
+  OrderAcknowledgmentSent: {
+    codec: OrderAcknowledgmentSentDto.codec,
+    upcasters: [unnestOrderId, renameEmail],
+  },
+};
+
+const envelopeOf = (schemaVersion: number, payload: unknown) => new EventEnvelope(
+  'order-1/OrderAcknowledgmentSent',
+  OrderAcknowledgmentSentType,
+  schemaVersion,
+  '2024-07-01T12:00:00.000Z',
+  'order-1',
+  payload,
+);
+
+const acknowledgment = { OrderAcknowledgmentSent: new OrderAcknowledgmentSentDto('order-1', 'ada@example.com') };
+
+const errorOf = <A>(result: E.Either<Error, A>) => E.isLeft(result) ? result.left.message : undefined;
+
+// -------------------------------
+// the specs
+// -------------------------------
+
+describe('currentVersionOf', () => {
+  it('is one more than the number of upcasters', () => {
+    expect(currentVersionOf(placeOrderEventSchemas.OrderAcknowledgmentSent)).toBe(1);
+    expect(currentVersionOf(registry.OrderAcknowledgmentSent)).toBe(3);
+  });
+});
+
+describe('sealEnvelope', () => {
+  it('seals an event in the current version of its shape, which opens to the same event, even through JSON', () => {
+    const envelope = sealEnvelope(registry)({ eventId: 'order-1/OrderAcknowledgmentSent', occurredAt: '2024-07-01T12:00:00.000Z', correlationId: 'order-1' })(acknowledgment);
+
+    expect(envelope.schemaVersion).toBe(3);
+    expect(envelope.payload).toEqual({ orderId: 'order-1', emailAddress: 'ada@example.com' });
+    const sent = pipe(envelope, EventEnvelope.codec.encode, JSON.stringify, JSON.parse, EventEnvelope.codec.decode);
+    expect(pipe(sent, E.mapLeft(errors => new Error(errors.map(e => e.message).join('; '))), E.flatMap(openEnvelope(registry)))).toEqual(E.right(acknowledgment));
+  });
+});
+
+describe('openEnvelope', () => {
+  it('upcasts a version 1 payload through every upcaster, into the current shape', () => {
+    const envelope = envelopeOf(1, { order: { id: 'order-1' }, email: 'ada@example.com' });
+
+    expect(openEnvelope(registry)(envelope)).toEqual(E.right(acknowledgment));
+  });
+
+  it('only applies the upcasters from the version of the payload', () => {
+    expect(openEnvelope(registry)(envelopeOf(2, { orderId: 'order-1', email: 'ada@example.com' }))).toEqual(E.right(acknowledgment));
+    expect(openEnvelope(registry)(envelopeOf(3, { orderId: 'order-1', emailAddress: 'ada@example.com' }))).toEqual(E.right(acknowledgment));
+  });
+
+  it('rejects a version which is newer than the current one, or is not a version at all', () => {
+    const payload = { orderId: 'order-1', emailAddress: 'ada@example.com' };
+
+    expect(errorOf(openEnvelope(registry)(envelopeOf(4, payload))))
+      .toBe('OrderAcknowledgmentSent version 4 is unknown; the current version is 3');
+    expect(errorOf(openEnvelope(placeOrderEventSchemas)(envelopeOf(2, payload))))
+      .toBe('OrderAcknowledgmentSent version 2 is unknown; the current version is 1');
+    expect(E.isLeft(openEnvelope(registry)(envelopeOf(0, payload)))).toBe(true);
+    expect(E.isLeft(openEnvelope(registry)(envelopeOf(1.5, payload)))).toBe(true);
+  });
+
+  it('rejects a payload which is not in the shape of its version', () => {
+    expect(errorOf(openEnvelope(registry)(envelopeOf(1, { orderId: 'order-1', email: 'ada@example.com' }))))
+      .toBe('OrderAcknowledgmentSent version 1: expected string at orderId');
+    expect(errorOf(openEnvelope(registry)(envelopeOf(2, 'order-1'))))
+      .toBe('the payload of OrderAcknowledgmentSent version 2 is not an object');
+  });
+});
@@ -0,0 +1,172 @@
+// ======================================================
+// This file contains the envelope which every event of the outbox is published in,
+// i.e. the PlaceOrder events and OrderAmended
+//
+// The envelope carries the metadata of the event (its id, type, schema version,
+// when it happened and what it is correlated with), and the event DTO as its payload.
+//
+// Each type of event has a registry entry with the codec of its current shape,
+// and an upcaster for each older shape, so that an event which was stored or queued
+// by older code can still be read into the current DTO.
+// ======================================================
+
+import * as E from 'fp-ts/Either';
+import { pipe } from 'fp-ts/function';
+import { match } from 'ts-pattern';
+import * as C from '../../libs/codec';
+import { ValueObject } from '../../libs/model-type';
+import { OrderAmendedDto } from '../change-order/dto';
+import { BillableOrderPlacedDto, OrderAcknowledgmentSentDto, OrderPlacedDto } from './dto';
+
+import type { ChangeOrderEventDto } from '../change-order/dto';
+import type { PlaceOrderEventDto } from './dto';
+
+// -------------------------------
+// envelope
+// -------------------------------
+
+export const OrderPlacedType = 'OrderPlaced' as const;
+export const BillableOrderPlacedType = 'BillableOrderPlaced' as const;
+export const OrderAcknowledgmentSentType = 'OrderAcknowledgmentSent' as const;
+export const OrderAmendedType = 'OrderAmended' as const;
+export type PlaceOrderEventType = typeof OrderPlacedType | typeof BillableOrderPlacedType | typeof OrderAcknowledgmentSentType;
+export type PublishedEventType = PlaceOrderEventType | typeof OrderAmendedType;
+
+/// The events which are published through the outbox
+export type PublishedEventDto = PlaceOrderEventDto | ChangeOrderEventDto;
+
+export class EventEnvelope extends ValueObject {
+  constructor(
+    readonly eventId: string, // unique, so that a consumer can ignore an event it has already handled
+    readonly eventType: PublishedEventType,
+    readonly schemaVersion: number, // the version of the shape of the payload
+    readonly occurredAt: string, // an ISO 8601 timestamp, e.g. "2024-07-01T12:00:00.000Z"
+    readonly correlationId: string, // the same for all the events caused by the same thing, e.g. placing an order
+    readonly payload: unknown, // the event DTO as JSON, in the shape of its schema version
+  ) { super() }
+
+  static readonly codec: C.Codec<EventEnvelope> = C.classOf(
+    EventEnvelope,
+    {
+      eventId: C.string,
+      eventType: C.literal(OrderPlacedType, BillableOrderPlacedType, OrderAcknowledgmentSentType, OrderAmendedType),
+      schemaVersion: C.number,
+      occurredAt: C.string,
+      correlationId: C.string,
+      payload: C.unknown, // decoded by openEnvelope, once it has been upcast
+    },
+    p => new EventEnvelope(p.eventId, p.eventType, p.schemaVersion, p.occurredAt, p.correlationId, p.payload),
+  );
+}
+
+// -------------------------------
+// schema registry
+// -------------------------------
+
+/// Convert a payload from one schema version into the next
+export type Upcaster = (payload: Record<string, unknown>) => Record<string, unknown>;
+
+export type EventSchema<T> = {
+  readonly codec: C.Codec<T>; // of the current version
+  /// upcasters[0] converts version 1 into version 2, and so on,
+  /// so the current version is one more than the number of upcasters
+  readonly upcasters: readonly Upcaster[];
+};
+
+export type EventSchemaRegistry = {
+  readonly OrderPlaced: EventSchema<OrderPlacedDto>;
+  readonly BillableOrderPlaced: EventSchema<BillableOrderPlacedDto>;
+  readonly OrderAcknowledgmentSent: EventSchema<OrderAcknowledgmentSentDto>;
+  readonly OrderAmended: EventSchema<OrderAmendedDto>;
+};
+
+export const currentVersionOf = <T>(schema: EventSchema<T>): number => schema.upcasters.length + 1;
+
+const isRecord = (u: unknown): u is Record<string, unknown> =>
+  typeof u === 'object' && u !== null && !Array.isArray(u);
+
+/// Every shape starts at version 1, with no upcasters.
+/// When a shape changes, its codec is updated, and an upcaster from the previous version is added.
+export const placeOrderEventSchemas: EventSchemaRegistry = {
+  OrderPlaced: {
+    codec: OrderPlacedDto.codec,
+    upcasters: [],
+  },
+  BillableOrderPlaced: {
+    codec: BillableOrderPlacedDto.codec,
+    upcasters: [],
+  },
+  OrderAcknowledgmentSent: {
+    codec: OrderAcknowledgmentSentDto.codec,
+    upcasters: [],
+  },
+  OrderAmended: {
+    codec: OrderAmendedDto.codec,
+    upcasters: [],
+  },
+};
+
+// -------------------------------
+// sealing and opening envelopes
+// -------------------------------
+
+/// The metadata of an event, which does not depend on its type
+export type EventMetadata = {
+  readonly eventId: string;
+  readonly occurredAt: string;
+  readonly correlationId: string;
+};
+
+/// Put an event in an envelope, with its payload in the current version of its shape
+export const sealEnvelope = (registry: EventSchemaRegistry) => (metadata: EventMetadata) => (event: PublishedEventDto): EventEnvelope => {
+  const seal = <T>(eventType: PublishedEventType, schema: EventSchema<T>, payload: T) => new EventEnvelope(
+    metadata.eventId,
+    eventType,
+    currentVersionOf(schema),
+    metadata.occurredAt,
+    metadata.correlationId,
+    schema.codec.encode(payload),
+  );
+  return 'OrderPlaced' in event ? seal(OrderPlacedType, registry.OrderPlaced, event.OrderPlaced)
+    : 'BillableOrderPlaced' in event ? seal(BillableOrderPlacedType, registry.BillableOrderPlaced, event.BillableOrderPlaced)
+      : 'OrderAcknowledgmentSent' in event ? seal(OrderAcknowledgmentSentType, registry.OrderAcknowledgmentSent, event.OrderAcknowledgmentSent)
+        : seal(OrderAmendedType, registry.OrderAmended, event.OrderAmended);
+};
+
+/// Bring a payload up to the current version of its shape, and decode it
+const upcastAndDecode = <T>(schema: EventSchema<T>, envelope: EventEnvelope): E.Either<Error, T> => {
+  const { schemaVersion, payload, eventType } = envelope;
+  if (!Number.isInteger(schemaVersion) || schemaVersion < 1 || schemaVersion > currentVersionOf(schema)) {
+    return E.left(new Error(`${eventType} version ${schemaVersion} is unknown; the current version is ${currentVersionOf(schema)}`));
+  }
+  if (!isRecord(payload)) {
+    return E.left(new Error(`the payload of ${eventType} version ${schemaVersion} is not an object`));
+  }
+  return pipe(
+    schema.upcasters.slice(schemaVersion - 1).reduce((p, upcast) => upcast(p), payload),
+    schema.codec.decode,
+    E.mapLeft(errors => new Error(`${eventType} version ${schemaVersion}: ${errors.map(e => e.message).join('; ')}`)),
+  );
+};
+
+/// Take an event out of its envelope, in the current version of its shape
+/// Return Error if the version is unknown, or the payload is not in the shape of its version
+export const openEnvelope = (registry: EventSchemaRegistry) => (envelope: EventEnvelope): E.Either<Error, PublishedEventDto> =>
+  match(envelope.eventType)
+    .with(OrderPlacedType, () => pipe(
+      upcastAndDecode(registry.OrderPlaced, envelope),
+      E.map((dto): PlaceOrderEventDto => ({ OrderPlaced: dto })),
+    ))
+    .with(BillableOrderPlacedType, () => pipe(
+      upcastAndDecode(registry.BillableOrderPlaced, envelope),
+      E.map((dto): PlaceOrderEventDto => ({ BillableOrderPlaced: dto })),
+    ))
+    .with(OrderAcknowledgmentSentType, () => pipe(
+      upcastAndDecode(registry.OrderAcknowledgmentSent, envelope),
+      E.map((dto): PlaceOrderEventDto => ({ OrderAcknowledgmentSent: dto })),
+    ))
+    .with(OrderAmendedType, () => pipe(
+      upcastAndDecode(registry.OrderAmended, envelope),
+      E.map((dto): ChangeOrderEventDto => ({ OrderAmended: dto })),
+    ))
+    .exhaustive();
@@ -0,0 +1,44 @@
+// ======================================================
+// This file contains the idempotency store used by the API,
+// so that a request which is retried (e.g. by a client with a bad connection)
+// is only acted on once, and its original response is replayed
+// ======================================================
+
+import { createHash } from 'crypto';
+import * as O from 'fp-ts/Option';
+import * as TE from 'fp-ts/TaskEither';
+import { ValueObject } from '../../libs/model-type';
+
+import type { RemoteServiceError } from './public-types';
+
+/// The response given to the first request with a key,
+/// and the fingerprint of that request's payload, so that a key which is reused
+/// for a different payload can be told apart from a retry
+export class IdempotencyRecord<R> extends ValueObject {
+  constructor(
+    readonly fingerprint: string,
+    readonly response: R,
+  ) { super() }
+}
+
+export type IdempotencyStore<R> = {
+  /// Return None if no response has been recorded for the key
+  readonly get: (key: string) => TE.TaskEither<RemoteServiceError, O.Option<IdempotencyRecord<R>>>;
+  readonly put: (key: string, record: IdempotencyRecord<R>) => TE.TaskEither<RemoteServiceError, void>;
+};
+
+/// Two payloads have the same fingerprint if and only if they are the same (with overwhelming probability)
+export const fingerprintOf = (payload: string): string =>
+  createHash('sha256').update(payload).digest('hex');
+
+/// The records are kept for as long as the process runs
+export const createInMemoryIdempotencyStore = <R>(): IdempotencyStore<R> => {
+  const records = new Map<string, IdempotencyRecord<R>>();
+
+  return {
+    get: key => TE.right(O.fromNullable(records.get(key))),
+    put: (key, record) => TE.fromIO(() => {
+      records.set(key, record);
+    }),
+  };
+};
@@ -3,23 +3,45 @@ import * as E from 'fp-ts/Either';
 import * as O from 'fp-ts/Option';
 import { flow, pipe } from 'fp-ts/function';
 import * as Common from '../common-types';
-import { placeOrderEvents } from './implementation.common';
-import { ValidatedOrder, ValidatedOrderLine } from './implementation.types';
-import { PricedOrder, PricedOrderLine } from './public-types';
+import { createEvents, placeOrderEvents } from './implementation.common';
+import { ValidatedCommentLine, ValidatedOrder, ValidatedProductLine } from './implementation.types';
+import {
+  ExpressUpgrade,
+  Fedex24,
+  FreeShipping,
+  PricedCommentLine,
+  PricedOrder,
+  PricedOrderWithShippingInfo,
+  PricedProductLine,
+  Promotion,
+  ShippingInfo,
+  Standard,
+  UnvalidatedCommentLine,
+} from './public-types';
 
 import type {
   CheckedAddress,
   CheckProductCodeExists,
   CreateOrderAcknowledgmentLetter,
+  GetExchangeRate,
+  GetPricingFunction,
   GetProductPrice,
+  GetShippingRateTable,
+  GetTaxRateTable,
   SendOrderAcknowledgment,
+  ShippingRate,
+  TaxRates,
+  ValidatedOrderLine,
 } from './implementation.types';
 import type {
   PlaceOrderEvent,
+  PricedOrderLine,
+  PricingMethod,
   UnvalidatedAddress,
   UnvalidatedCustomerInfo,
   UnvalidatedOrder,
   UnvalidatedOrderLine,
+  VipBenefit,
 } from './public-types';
 
 // ======================================================
@@ -58,6 +80,10 @@ namespace EmailAddress {
   export const create = flow(Common.EmailAddress.create, failOnError);
 }
 
+namespace VipStatus {
+  export const create = flow(Common.createVipStatus, failOnError);
+}
+
 namespace ZipCode {
   export const create = flow(Common.ZipCode.create, failOnError);
 }
@@ -94,9 +120,26 @@ namespace OrderQuantity {
   export const create = (productCode: Common.ProductCode) => flow(Common.createOrderQuantity(productCode), failOnError);
 }
 
+namespace CommentText {
+  export const create = flow(Common.CommentText.create, failOnError);
+}
+
+namespace PromotionCode {
+  export const create = flow(Common.PromotionCode.create, failOnError);
+}
+
+namespace Currency {
+  export const create = flow(Common.Currency.create, failOnError);
+}
+
 namespace Price {
   export const create = flow(Common.Price.create, failOnError);
   export const multiply = (p: Common.Price) => flow(p.multiply, failOnError);
+  export const exchange = (p: Common.Price) => flow(p.exchange, failOnError);
+}
+
+namespace Money {
+  export const multiply = (m: Common.Money) => flow(m.multiply.bind(m), failOnError);
 }
 
 namespace BillingAmount {
@@ -137,11 +180,31 @@ type ValidateOrder = (
 // priced state is defined Domain.WorkflowTypes
 
 type PriceOrder = (
-  dep: GetProductPrice, // dependency
+  dep1: GetPricingFunction, // dependency
+  dep2: GetExchangeRate, // dependency
+  dep3: GetTaxRateTable, // dependency
 ) => (
   i: ValidatedOrder, // input
 ) => PricedOrder; // output
 
+// ---------------------------
+// Shipping step
+// ---------------------------
+
+type AddShippingInfoToOrder = (
+  dep1: GetShippingRateTable, // dependency
+  dep2: GetExchangeRate, // dependency
+) => (
+  i: PricedOrder, // input
+) => PricedOrderWithShippingInfo; // output
+
+// ---------------------------
+// Save order step
+// ---------------------------
+
+// throws if the order could not be saved
+type SaveOrder = (i1: PricedOrderWithShippingInfo, i2: readonly PlaceOrderEvent[]) => void;
+
 // ======================================================
 // Section 2 : Implementation
 // ======================================================
@@ -154,7 +217,8 @@ const toCustomerInfo = (unvalidatedCustomerInfo: UnvalidatedCustomerInfo) => {
   const firstName = String50.create(unvalidatedCustomerInfo.firstName);
   const lastName = String50.create(unvalidatedCustomerInfo.lastName);
   const emailAddress = EmailAddress.create(unvalidatedCustomerInfo.emailAddress);
-  return new Common.CustomerInfo(new Common.PersonalName(firstName, lastName), emailAddress);
+  const vipStatus = VipStatus.create(unvalidatedCustomerInfo.vipStatus);
+  return new Common.CustomerInfo(new Common.PersonalName(firstName, lastName), emailAddress, vipStatus);
 };
 
 const toAddress = (checkAddressExists: CheckAddressExists) => (unvalidatedAddress: UnvalidatedAddress) => {
@@ -191,11 +255,14 @@ const toProductCode = (checkProductCodeExists: CheckProductCodeExists) => (produ
 
 /// Helper function for validateOrder
 const toValidatedOrderLine =
-  (checkProductExists: CheckProductCodeExists) => (unvalidatedOrderLine: UnvalidatedOrderLine) => {
+  (checkProductExists: CheckProductCodeExists) => (unvalidatedOrderLine: UnvalidatedOrderLine): ValidatedOrderLine => {
     const orderLineId = OrderLineId.create(unvalidatedOrderLine.orderLineId);
+    if (unvalidatedOrderLine instanceof UnvalidatedCommentLine) {
+      return new ValidatedCommentLine(orderLineId, CommentText.create(unvalidatedOrderLine.comment));
+    }
     const productCode = toProductCode(checkProductExists)(unvalidatedOrderLine.productCode);
     const quantity = OrderQuantity.create(productCode)(unvalidatedOrderLine.quantity);
-    return new ValidatedOrderLine(orderLineId, productCode, quantity);
+    return new ValidatedProductLine(orderLineId, productCode, quantity);
   };
 
 const validateOrder: ValidateOrder = (checkProductCodeExists, checkAddressExists) => unvalidatedOrder => {
@@ -204,32 +271,84 @@ const validateOrder: ValidateOrder = (checkProductCodeExists, checkAddressExists
   const shippingAddress = toAddress(checkAddressExists)(unvalidatedOrder.shippingAddress);
   const billingAddress = toAddress(checkAddressExists)(unvalidatedOrder.billingAddress);
   const lines = pipe(unvalidatedOrder.lines, A.map(toValidatedOrderLine(checkProductCodeExists)));
-  return new ValidatedOrder(orderId, customerInfo, shippingAddress, billingAddress, lines);
+  const currency = Currency.create(unvalidatedOrder.currency);
+  const pricingMethod = pipe(
+    unvalidatedOrder.promotionCode,
+    O.matchW(() => new Standard(), code => new Promotion(PromotionCode.create(code))),
+  );
+  return new ValidatedOrder(orderId, customerInfo, shippingAddress, billingAddress, lines, currency, pricingMethod);
 };
 
 // ---------------------------
 // PriceOrder step
 // ---------------------------
 
-const toPricedOrderLine = (getProductPrice: GetProductPrice) => (validatedOrderLine: ValidatedOrderLine) => {
+/// Helper function for priceOrder
+const toOrderCurrency = (getExchangeRate: GetExchangeRate) => (currency: string) => (catalogPrice: Common.Price) => {
+  const rate = pipe(
+    getExchangeRate(catalogPrice.value.currency, currency),
+    O.getOrElseW(() => {
+      throw Error(`No exchange rate from ${catalogPrice.value.currency} to ${currency}`);
+    }),
+  );
+  return Price.exchange(catalogPrice)(rate, Common.HalfEven);
+};
+
+/// Helper function for priceOrder
+/// Widgets and Gizmos can be taxed at different rates
+const toTaxRate = (taxRates: TaxRates) => (productCode: Common.ProductCode) =>
+  productCode instanceof Common.WidgetCode ? taxRates.widgetRate : taxRates.gizmoRate;
+
+const toPricedOrderLine = (
+  getProductPrice: GetProductPrice,
+  getExchangeRate: GetExchangeRate,
+  taxRates: TaxRates,
+) => (currency: string) => (
+  validatedOrderLine: ValidatedOrderLine,
+): PricedOrderLine => {
+  if (validatedOrderLine instanceof ValidatedCommentLine) {
+    return new PricedCommentLine(validatedOrderLine.orderLineId, validatedOrderLine.comment);
+  }
   const qty = validatedOrderLine.quantity.value;
-  const price = getProductPrice(validatedOrderLine.productCode);
-  const linePrice = Price.multiply(price)(qty);
-  return new PricedOrderLine(
+  const price = toOrderCurrency(getExchangeRate)(currency)(getProductPrice(validatedOrderLine.productCode));
+  const linePrice = Price.multiply(price)(qty, Common.HalfEven);
+  const taxRate = toTaxRate(taxRates)(validatedOrderLine.productCode);
+  const lineTax = Price.create(Money.multiply(linePrice.value)(taxRate, Common.HalfUp));
+  return new PricedProductLine(
     validatedOrderLine.orderLineId,
     validatedOrderLine.productCode,
     validatedOrderLine.quantity,
     linePrice,
+    lineTax,
   );
 };
 
-const priceOrder: PriceOrder = getProductPrice => validatedOrder => {
-  const lines = pipe(validatedOrder.lines, A.map(toPricedOrderLine(getProductPrice)));
-  const amountToBill = pipe(
-    lines,
-    A.map(l => l.linePrice), // get each line price
-    BillingAmount.sumPrices, // add them together as a BillingAmount
-  );
+/// Helper function for priceOrder
+/// An unknown or expired promotion falls back to the standard prices
+const toPricing = (getPricingFunction: GetPricingFunction) => (pricingMethod: PricingMethod) => {
+  const asked = getPricingFunction(pricingMethod);
+  if (O.isSome(asked)) {
+    return { pricingMethod, getProductPrice: asked.value, pricingNote: O.none };
+  }
+  const standard = getPricingFunction(new Standard());
+  if (O.isNone(standard) || pricingMethod instanceof Standard) {
+    throw Error('No standard prices are available');
+  }
+  const pricingNote = `Promotion code ${pricingMethod.promotionCode.value} is unknown or has expired, so standard prices were used`;
+  return { pricingMethod: new Standard() as PricingMethod, getProductPrice: standard.value, pricingNote: O.some(pricingNote) };
+};
+
+const priceOrder: PriceOrder = (getPricingFunction, getExchangeRate, getTaxRateTable) => validatedOrder => {
+  const currency = validatedOrder.currency.value;
+  const { pricingMethod, getProductPrice, pricingNote } = toPricing(getPricingFunction)(validatedOrder.pricingMethod);
+  const taxRateTable = getTaxRateTable();
+  const jurisdiction = taxRateTable.jurisdictions.find(j => j.contains(validatedOrder.shippingAddress.zipCode));
+  const taxRates = jurisdiction ? jurisdiction.rates : taxRateTable.defaultRates;
+  const lines = pipe(validatedOrder.lines, A.map(toPricedOrderLine(getProductPrice, getExchangeRate, taxRates)(currency)));
+  const prices = lines.map(l => l instanceof PricedProductLine ? O.some(l.linePrice) : O.none); // get each line price, if it has one
+  const taxes = lines.map(l => l instanceof PricedProductLine ? O.some(l.lineTax) : O.none); // and its tax
+  const taxTotal = BillingAmount.sumPrices(currency, taxes);
+  const amountToBill = BillingAmount.sumPrices(currency, [...prices, ...taxes]); // add them together as a BillingAmount
   return new PricedOrder(
     validatedOrder.orderId,
     validatedOrder.customerInfo,
@@ -237,9 +356,68 @@ const priceOrder: PriceOrder = getProductPrice => validatedOrder => {
     validatedOrder.billingAddress,
     amountToBill,
     lines,
+    validatedOrder.currency,
+    taxTotal,
+    pricingMethod,
+    pricingNote,
+  );
+};
+
+// ---------------------------
+// Shipping step
+// ---------------------------
+
+/// Helper function for addShippingInfoToOrder
+/// Comment lines are not shipped, so cost nothing
+const toLineShippingCost = (rate: ShippingRate) => (line: PricedOrderLine) =>
+  line instanceof PricedCommentLine
+    ? Common.Money.zero(rate.baseCost.value.currency)
+    : line.quantity instanceof Common.KilogramQuantity
+      ? Money.multiply(rate.costPerKilogram.value)(line.quantity.value, Common.HalfEven)
+      : Money.multiply(rate.costPerItem.value)(line.quantity.value, Common.HalfEven);
+
+const addShippingInfoToOrder: AddShippingInfoToOrder = (getShippingRateTable, getExchangeRate) => pricedOrder => {
+  const rateTable = getShippingRateTable();
+  const zone = rateTable.zones.find(z => z.contains(pricedOrder.shippingAddress.zipCode));
+  const rate = zone ? zone.rate : rateTable.defaultRate;
+  const cost = pricedOrder.lines.map(toLineShippingCost(rate)).reduce((total, c) => total.add(c), rate.baseCost.value);
+  const shippingCost = toOrderCurrency(getExchangeRate)(pricedOrder.currency.value)(Price.create(cost));
+  const amountToBill = BillingAmount.create(pricedOrder.amountToBill.value.add(shippingCost.value));
+  return new PricedOrderWithShippingInfo(pricedOrder, new ShippingInfo(rate.shippingMethod, shippingCost), amountToBill, []);
+};
+
+// ---------------------------
+// VIP shipping step
+// ---------------------------
+
+/// VIPs get free express shipping
+const applyVipBenefits = (shippedOrder: PricedOrderWithShippingInfo): PricedOrderWithShippingInfo => {
+  const { pricedOrder, shippingInfo, vipBenefits } = shippedOrder;
+  if (pricedOrder.customerInfo.vipStatus !== Common.Vip) {
+    return shippedOrder;
+  }
+  const benefits: VipBenefit[] = [
+    ...(shippingInfo.shippingCost.value.isPositive() ? [FreeShipping] : []),
+    ...(shippingInfo.shippingMethod !== Fedex24 ? [ExpressUpgrade] : []),
+  ];
+  const freeShipping = Price.create(Common.Money.zero(pricedOrder.currency.value));
+  return new PricedOrderWithShippingInfo(
+    pricedOrder,
+    new ShippingInfo(Fedex24, freeShipping),
+    pricedOrder.amountToBill,
+    [...vipBenefits, ...benefits],
   );
 };
 
+// ---------------------------
+// SaveOrder step
+// ---------------------------
+
+const saveShippedOrder = (saveOrder: SaveOrder) => (shippedOrder: PricedOrderWithShippingInfo) => {
+  saveOrder(shippedOrder, createEvents(shippedOrder, O.none));
+  return shippedOrder;
+};
+
 // ---------------------------
 // overall workflow
 // ---------------------------
@@ -247,11 +425,19 @@ const priceOrder: PriceOrder = getProductPrice => validatedOrder => {
 const placeOrder = (
   checkCode: CheckProductCodeExists, // dependency
   checkAddress: CheckAddressExists, // dependency
-  getPrice: GetProductPrice, // dependency
+  getPricingFunction: GetPricingFunction, // dependency
+  getRate: GetExchangeRate, // dependency
+  getTaxRates: GetTaxRateTable, // dependency
+  getShippingRates: GetShippingRateTable, // dependency
+  saveOrder: SaveOrder, // dependency
   createAck: CreateOrderAcknowledgmentLetter, // dependency
   sendAck: SendOrderAcknowledgment, // dependency
 ): PlaceOrderWithoutEffects => flow(
   validateOrder(checkCode, checkAddress),
-  priceOrder(getPrice),
+  priceOrder(getPricingFunction, getRate, getTaxRates),
+  addShippingInfoToOrder(getShippingRates, getRate),
+  applyVipBenefits,
+  // the customer is only sent the acknowledgment once the order is saved
+  saveShippedOrder(saveOrder),
   placeOrderEvents(createAck, sendAck),
 );
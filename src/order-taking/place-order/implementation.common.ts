@@ -10,14 +10,15 @@ import type {
   CreateOrderAcknowledgmentLetter,
   SendOrderAcknowledgment,
 } from './implementation.types';
-import type { PlaceOrderEvent, PricedOrder } from './public-types';
+import type { PlaceOrderEvent, PricedOrderWithShippingInfo } from './public-types';
 
 // ---------------------------
 // AcknowledgeOrder step
 // ---------------------------
 
-export const acknowledgeOrder: AcknowledgeOrder = (createAcknowledgmentLetter, sendAcknowledgment) => pricedOrder => {
-  const letter = createAcknowledgmentLetter(pricedOrder);
+export const acknowledgeOrder: AcknowledgeOrder = (createAcknowledgmentLetter, sendAcknowledgment) => shippedOrder => {
+  const { pricedOrder } = shippedOrder;
+  const letter = createAcknowledgmentLetter(shippedOrder);
   const acknowledgment = new OrderAcknowledgement(pricedOrder.customerInfo.emailAddress, letter);
   // if the acknowledgement was successfully sent,
   // return the corresponding event, else return None
@@ -31,12 +32,25 @@ export const acknowledgeOrder: AcknowledgeOrder = (createAcknowledgmentLetter, s
 // Create events
 // ---------------------------
 
-export const createOrderPlacedEvent = (i: PricedOrder) =>
-  new OrderPlaced(i.orderId, i.customerInfo, i.shippingAddress, i.billingAddress, i.amountToBill, i.lines);
+export const createOrderPlacedEvent = ({ pricedOrder: i, shippingInfo, amountToBill, vipBenefits }: PricedOrderWithShippingInfo) =>
+  new OrderPlaced(
+    i.orderId,
+    i.customerInfo,
+    i.shippingAddress,
+    i.billingAddress,
+    amountToBill,
+    i.lines,
+    i.currency,
+    i.taxTotal,
+    i.pricingMethod,
+    i.pricingNote,
+    shippingInfo,
+    vipBenefits,
+  );
 
-export const createBillingEvent: (i: PricedOrder) => O.Option<BillableOrderPlaced> =
-  ({ orderId, billingAddress, amountToBill }) => amountToBill.value > 0
-    ? O.some(new BillableOrderPlaced(orderId, billingAddress, amountToBill))
+export const createBillingEvent: (i: PricedOrderWithShippingInfo) => O.Option<BillableOrderPlaced> =
+  ({ pricedOrder: { orderId, billingAddress, currency, taxTotal }, shippingInfo, amountToBill }) => amountToBill.value.isPositive()
+    ? O.some(new BillableOrderPlaced(orderId, billingAddress, amountToBill, currency, taxTotal, shippingInfo))
     : O.none;
 
 
@@ -46,12 +60,25 @@ export const optionToList: <T>(opt: O.Option<T>) => Array<T> = O.match(
   x => [x],
 );
 
-export const createEvents: CreateEvents = (pricedOrder, acknowledgmentEventOpt) => [
+export const createEvents: CreateEvents = (shippedOrder, acknowledgmentEventOpt) => [
   // return all the events
   pipe(
-    pricedOrder,
+    shippedOrder,
     createOrderPlacedEvent,
-    e => new OrderPlaced(e.orderId, e.customerInfo, e.shippingAddress, e.billingAddress, e.amountToBill, e.lines),
+    e => new OrderPlaced(
+      e.orderId,
+      e.customerInfo,
+      e.shippingAddress,
+      e.billingAddress,
+      e.amountToBill,
+      e.lines,
+      e.currency,
+      e.taxTotal,
+      e.pricingMethod,
+      e.pricingNote,
+      e.shippingInfo,
+      e.vipBenefits,
+    ),
   ),
   ...pipe(
     acknowledgmentEventOpt,
@@ -59,9 +86,9 @@ export const createEvents: CreateEvents = (pricedOrder, acknowledgmentEventOpt)
     optionToList,
   ),
   ...pipe(
-    pricedOrder,
+    shippedOrder,
     createBillingEvent,
-    O.map(e => new BillableOrderPlaced(e.orderId, e.billingAddress, e.amountToBill)),
+    O.map(e => new BillableOrderPlaced(e.orderId, e.billingAddress, e.amountToBill, e.currency, e.taxTotal, e.shippingInfo)),
     optionToList,
   ),
 ];
@@ -69,7 +96,7 @@ export const createEvents: CreateEvents = (pricedOrder, acknowledgmentEventOpt)
 export const placeOrderEvents = (
   createOrderAcknowledgmentLetter: CreateOrderAcknowledgmentLetter,
   sendOrderAcknowledgment: SendOrderAcknowledgment,
-) => (pricedOrder: PricedOrder): PlaceOrderEvent[] => {
-  const ackOpt = acknowledgeOrder(createOrderAcknowledgmentLetter, sendOrderAcknowledgment)(pricedOrder);
-  return createEvents(pricedOrder, ackOpt);
+) => (shippedOrder: PricedOrderWithShippingInfo): PlaceOrderEvent[] => {
+  const ackOpt = acknowledgeOrder(createOrderAcknowledgmentLetter, sendOrderAcknowledgment)(shippedOrder);
+  return createEvents(shippedOrder, ackOpt);
 };
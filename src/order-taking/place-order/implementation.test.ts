@@ -0,0 +1,365 @@
+import { describe, expect, it } from '@jest/globals';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import * as TE from 'fp-ts/TaskEither';
+import { match, P } from 'ts-pattern';
+import { ExchangeRate, Money, Price } from '../common-types';
+import { placeOrder, placeOrders } from './implementation';
+import {
+  createCheckedAddress,
+  HtmlString,
+  NotSent,
+  Sent,
+  ShippingRate,
+  ShippingRateTable,
+  ShippingZone,
+  TaxJurisdiction,
+  TaxRates,
+  TaxRateTable,
+} from './implementation.types';
+import {
+  BillableOrderPlaced,
+  ExpressUpgrade,
+  Fedex24,
+  FreeShipping,
+  OrderAcknowledgmentSent,
+  OrderAlreadyPlaced,
+  OrderPlaced,
+  PostalService,
+  PricingError,
+  Promotion,
+  RemoteServiceError,
+  ServiceInfo,
+  Standard,
+  UnvalidatedAddress,
+  UnvalidatedCommentLine,
+  UnvalidatedCustomerInfo,
+  UnvalidatedOrder,
+  UnvalidatedProductLine,
+  ValidationErrors,
+} from './public-types';
+
+import type {
+  CheckAddressExists,
+  GetExchangeRate,
+  GetPricingFunction,
+  GetProductPrice,
+  PublishEvents,
+  SaveOrder,
+  SendOrderAcknowledgment,
+} from './implementation.types';
+import type { PlaceOrder, PlaceOrderError, PlaceOrderEvent, PricedOrderWithShippingInfo, UnvalidatedOrderLine } from './public-types';
+
+// -------------------------------
+// dependencies
+// -------------------------------
+
+const usd = (decimal: string) => Price.unsafeCreate(Money.unsafeFromDecimal(decimal, 'USD'));
+
+const standardPrice: GetProductPrice = productCode => productCode.value.startsWith('W') ? usd('10') : usd('2.5');
+
+const halfPrice: GetProductPrice = productCode => productCode.value.startsWith('W') ? usd('5') : usd('1.25');
+
+// the only promotion which is running is "HALF"
+const getPricingFunction: GetPricingFunction = pricingMethod =>
+  match(pricingMethod)
+    .with(P.instanceOf(Standard), () => O.some(standardPrice))
+    .with(P.instanceOf(Promotion), ({ promotionCode }) => promotionCode.value === 'HALF' ? O.some(halfPrice) : O.none)
+    .exhaustive();
+
+const getExchangeRate: GetExchangeRate = <From extends string, To extends string>(from: From, to: To) =>
+  from === (to as string) ? O.some(new ExchangeRate(from, to, '1'))
+    : from === 'USD' && to === 'EUR' ? O.some(new ExchangeRate(from, to, '0.9'))
+      : O.none;
+
+const checkAddressExists: CheckAddressExists = address => TE.right(createCheckedAddress(address));
+
+// widgets are taxed at 10% and gizmos at 5% in California, and nothing is taxed elsewhere
+const getTaxRateTable = () => new TaxRateTable([new TaxJurisdiction('California', ['9'], new TaxRates('0.1', '0.05'))], new TaxRates('0', '0'));
+
+const getShippingRateTable = () => new ShippingRateTable(
+  [new ShippingZone('West Coast', ['9'], new ShippingRate(PostalService, usd('5'), usd('1'), usd('0.5')))],
+  new ShippingRate(Fedex24, usd('10'), usd('2'), usd('1')),
+);
+
+const createAck = () => new HtmlString('letter');
+
+type Saved = { readonly order: PricedOrderWithShippingInfo; readonly events: readonly PlaceOrderEvent[] };
+
+const workflowWith = ({
+  saveOrder = () => TE.right(undefined),
+  sendAck = () => Sent,
+  publishEvents = () => TE.right(undefined),
+}: { saveOrder?: SaveOrder; sendAck?: SendOrderAcknowledgment; publishEvents?: PublishEvents } = {}): PlaceOrder => placeOrder(
+  () => true,
+  checkAddressExists,
+  getPricingFunction,
+  getExchangeRate,
+  getTaxRateTable,
+  getShippingRateTable,
+  saveOrder,
+  createAck,
+  sendAck,
+  publishEvents,
+);
+
+// -------------------------------
+// order forms
+// -------------------------------
+
+const address = (zipCode: string) => new UnvalidatedAddress('1 Main St', 'Springfield', zipCode, O.none, O.none, O.none);
+
+const orderOf = ({
+  orderId = 'order-1',
+  zipCode = '94105',
+  vipStatus = 'Normal',
+  currency = 'USD',
+  promotionCode = O.none,
+  lines = [new UnvalidatedProductLine('line-1', 'W1234', 2), new UnvalidatedProductLine('line-2', 'G123', 1.5)],
+}: {
+  orderId?: string;
+  zipCode?: string;
+  vipStatus?: string;
+  currency?: string;
+  promotionCode?: O.Option<string>;
+  lines?: UnvalidatedOrderLine[];
+} = {}) => new UnvalidatedOrder(
+  orderId,
+  new UnvalidatedCustomerInfo('Ada', 'Lovelace', 'ada@example.com', vipStatus),
+  address(zipCode),
+  address(zipCode),
+  lines,
+  currency,
+  promotionCode,
+);
+
+const eventsOf = async (result: Promise<E.Either<PlaceOrderError, PlaceOrderEvent[]>>) => {
+  const events = await result;
+  if (E.isLeft(events)) throw events.left;
+  return events.right;
+};
+
+const errorOf = async (result: Promise<E.Either<PlaceOrderError, PlaceOrderEvent[]>>) => {
+  const events = await result;
+  if (E.isRight(events)) throw new Error('expected the order to fail');
+  return events.left;
+};
+
+const orderPlacedOf = (events: readonly PlaceOrderEvent[]): OrderPlaced => {
+  const orderPlaced = events.find((event): event is OrderPlaced => event instanceof OrderPlaced);
+  if (orderPlaced === undefined) throw new Error('expected an OrderPlaced event');
+  return orderPlaced;
+};
+
+// -------------------------------
+// the specs
+// -------------------------------
+
+describe('placeOrder', () => {
+  it('prices the lines, taxes them where the order is shipped to, and bills the shipping with them', async () => {
+    const orderPlaced = orderPlacedOf(await eventsOf(workflowWith()(orderOf())()));
+
+    // 2 widgets at 10.00, and 1.5 kg of gizmos at 2.50, i.e. 3.75
+    expect(orderPlaced.lines.map(line => 'linePrice' in line ? line.linePrice.value.toDecimalString() : undefined)).toEqual(['20.00', '3.75']);
+    // 10% of 20.00, and 5% of 3.75 (0.1875) rounded half up
+    expect(orderPlaced.taxTotal.value.toDecimalString()).toBe('2.19');
+    // 5.00 per order, 0.50 per widget and 1.00 per kg of gizmos
+    expect(orderPlaced.shippingInfo.shippingMethod).toBe(PostalService);
+    expect(orderPlaced.shippingInfo.shippingCost.value.toDecimalString()).toBe('7.50');
+    expect(orderPlaced.amountToBill.value.toDecimalString()).toBe('33.44');
+  });
+
+  it('does not tax an order shipped outside every jurisdiction', async () => {
+    const orderPlaced = orderPlacedOf(await eventsOf(workflowWith()(orderOf({ zipCode: '10001' }))()));
+
+    expect(orderPlaced.taxTotal.value.toDecimalString()).toBe('0.00');
+    expect(orderPlaced.shippingInfo.shippingMethod).toBe(Fedex24);
+    expect(orderPlaced.amountToBill.value.toDecimalString()).toBe('38.75');
+  });
+
+  it('does not price or ship a comment line', async () => {
+    const lines = [new UnvalidatedProductLine('line-1', 'W1234', 1), new UnvalidatedCommentLine('line-2', 'a gift')];
+    const orderPlaced = orderPlacedOf(await eventsOf(workflowWith()(orderOf({ lines }))()));
+
+    expect(orderPlaced.lines).toHaveLength(2);
+    expect(orderPlaced.amountToBill.value.toDecimalString()).toBe('16.50');
+  });
+
+  it('ships a VIP order for free, upgraded to express shipping', async () => {
+    const orderPlaced = orderPlacedOf(await eventsOf(workflowWith()(orderOf({ vipStatus: 'VIP' }))()));
+
+    expect(orderPlaced.shippingInfo.shippingMethod).toBe(Fedex24);
+    expect(orderPlaced.shippingInfo.shippingCost.value.toDecimalString()).toBe('0.00');
+    expect(orderPlaced.vipBenefits).toEqual([FreeShipping, ExpressUpgrade]);
+    expect(orderPlaced.amountToBill.value.toDecimalString()).toBe('25.94');
+  });
+
+  it('converts the prices into the currency of the order', async () => {
+    const lines = [new UnvalidatedProductLine('line-1', 'W1234', 1)];
+    const orderPlaced = orderPlacedOf(await eventsOf(workflowWith()(orderOf({ lines, currency: 'EUR', zipCode: '10001' }))()));
+
+    expect(orderPlaced.currency.value).toBe('EUR');
+    // 10.00 USD for the widget, and 10.00 + 1.00 USD for its shipping
+    expect(orderPlaced.amountToBill.value.toDecimalString()).toBe('18.90');
+  });
+
+  it('fails with a PricingError when there is no rate for the currency of the order', async () => {
+    expect(await errorOf(workflowWith()(orderOf({ currency: 'GBP' }))())).toBeInstanceOf(PricingError);
+  });
+
+  describe('promotions', () => {
+    it('prices the order with the promotion', async () => {
+      const orderPlaced = orderPlacedOf(await eventsOf(workflowWith()(orderOf({ promotionCode: O.some('HALF') }))()));
+
+      expect(orderPlaced.pricingMethod).toBeInstanceOf(Promotion);
+      expect(orderPlaced.pricingNote).toEqual(O.none);
+      expect(orderPlaced.taxTotal.value.toDecimalString()).toBe('1.09');
+    });
+
+    it('falls back to the standard prices, with a note, when the promotion is unknown', async () => {
+      const orderPlaced = orderPlacedOf(await eventsOf(workflowWith()(orderOf({ promotionCode: O.some('EXPIRED') }))()));
+
+      expect(orderPlaced.pricingMethod).toBeInstanceOf(Standard);
+      expect(orderPlaced.pricingNote).toEqual(O.some('Promotion code EXPIRED is unknown or has expired, so standard prices were used'));
+      expect(orderPlaced.amountToBill.value.toDecimalString()).toBe('33.44');
+    });
+  });
+
+  it('reports every validation error at once, at the path of its field', async () => {
+    const lines = [new UnvalidatedProductLine('line-1', 'X1', 2), new UnvalidatedProductLine('line-2', 'W1234', 0)];
+    const err = await errorOf(workflowWith()(orderOf({ orderId: '', zipCode: 'abc', lines }))());
+
+    expect(err).toBeInstanceOf(ValidationErrors);
+    const paths = (err as ValidationErrors).errors.map(e => e.path.join('.'));
+    expect(paths).toEqual(expect.arrayContaining(['orderId', 'shippingAddress.zipCode', 'lines.0.productCode', 'lines.1.quantity']));
+  });
+
+  describe('saving', () => {
+    it('saves the order with its shipping, and the events without the acknowledgment', async () => {
+      const saved: Saved[] = [];
+      const saveOrder: SaveOrder = (order, events) => TE.fromIO(() => {
+        saved.push({ order, events });
+      });
+      const events = await eventsOf(workflowWith({ saveOrder })(orderOf({ vipStatus: 'VIP' }))());
+
+      expect(saved).toHaveLength(1);
+      expect(saved[0].order.vipBenefits).toEqual([FreeShipping, ExpressUpgrade]);
+      expect(saved[0].order.amountToBill.value.toDecimalString()).toBe('25.94');
+      expect(saved[0].events.map(event => event.constructor)).toEqual([OrderPlaced, BillableOrderPlaced]);
+      expect(events.map(event => event.constructor)).toEqual([OrderPlaced, OrderAcknowledgmentSent, BillableOrderPlaced]);
+    });
+
+    it('does not send the acknowledgment when the order could not be saved', async () => {
+      let sent = 0;
+      const sendAck: SendOrderAcknowledgment = () => {
+        sent++;
+        return Sent;
+      };
+      const unavailable = new RemoteServiceError(new ServiceInfo('Orders', new URL('memory:orders')), new Error('down'));
+      const err = await errorOf(workflowWith({ saveOrder: () => TE.left(unavailable), sendAck })(orderOf())());
+
+      expect(err).toBe(unavailable);
+      expect(sent).toBe(0);
+    });
+
+    it('does not report an acknowledgment which could not be sent', async () => {
+      const events = await eventsOf(workflowWith({ sendAck: () => NotSent })(orderOf())());
+
+      expect(events.map(event => event.constructor)).toEqual([OrderPlaced, BillableOrderPlaced]);
+    });
+
+    it('publishes the acknowledgment once it has been sent, after the order is saved', async () => {
+      const steps: string[] = [];
+      const saveOrder: SaveOrder = () => TE.fromIO(() => {
+        steps.push('saved');
+      });
+      const publishEvents: PublishEvents = events => TE.fromIO(() => {
+        steps.push(...events.map(event => event.constructor.name));
+      });
+      await eventsOf(workflowWith({ saveOrder, publishEvents })(orderOf())());
+
+      expect(steps).toEqual(['saved', 'OrderAcknowledgmentSent']);
+    });
+
+    it('publishes nothing when the acknowledgment could not be sent', async () => {
+      const published: PlaceOrderEvent[] = [];
+      const publishEvents: PublishEvents = events => TE.fromIO(() => {
+        published.push(...events);
+      });
+      await eventsOf(workflowWith({ sendAck: () => NotSent, publishEvents })(orderOf())());
+
+      expect(published).toEqual([]);
+    });
+
+    it('still places the order when the acknowledgment cannot be published', async () => {
+      const unavailable = new RemoteServiceError(new ServiceInfo('Outbox', new URL('memory:outbox')), new Error('down'));
+      const events = await eventsOf(workflowWith({ publishEvents: () => TE.left(unavailable) })(orderOf())());
+
+      expect(events.map(event => event.constructor)).toEqual([OrderPlaced, OrderAcknowledgmentSent, BillableOrderPlaced]);
+    });
+  });
+});
+
+describe('placeOrders', () => {
+  it('places every order of the batch, and keys the results by OrderId', async () => {
+    const batch = [orderOf({ orderId: 'a' }), orderOf({ orderId: 'b', currency: 'GBP' }), orderOf({ orderId: 'c' })];
+    const result = await placeOrders(workflowWith(), 2)(batch)();
+
+    expect([...result.results.keys()]).toEqual(['a', 'b', 'c']);
+    expect(E.isRight(result.results.get('a')!)).toBe(true);
+    expect(E.isLeft(result.results.get('b')!)).toBe(true);
+    expect(result.succeeded).toBe(2);
+    expect(result.failed).toBe(1);
+  });
+
+  it('does not place the orders which share an OrderId', async () => {
+    let placed = 0;
+    const counting: PlaceOrder = order => {
+      placed++;
+      return workflowWith()(order);
+    };
+    const result = await placeOrders(counting, 2)([orderOf({ orderId: 'a' }), orderOf({ orderId: 'a' }), orderOf({ orderId: 'b' })])();
+
+    expect(placed).toBe(1);
+    expect(result.failed).toBe(2);
+    const shared = result.results.get('a')!;
+    expect(E.isLeft(shared) && shared.left).toBeInstanceOf(ValidationErrors);
+  });
+
+  it('has at most maxConcurrent orders in progress at a time', async () => {
+    let inProgress = 0;
+    let mostInProgress = 0;
+    const slow: PlaceOrder = order => () => {
+      inProgress++;
+      mostInProgress = Math.max(mostInProgress, inProgress);
+      return new Promise(resolve => setTimeout(resolve, 5)).then(() => {
+        inProgress--;
+        return E.right([]);
+      });
+    };
+    await placeOrders(slow, 2)(['a', 'b', 'c', 'd', 'e'].map(orderId => orderOf({ orderId })))();
+
+    expect(mostInProgress).toBe(2);
+  });
+
+  it('places one order at a time when maxConcurrent is not a number', async () => {
+    const result = await placeOrders(workflowWith(), NaN)([orderOf({ orderId: 'a' }), orderOf({ orderId: 'b' })])();
+
+    expect(result.succeeded).toBe(2);
+  });
+
+  it('reports a duplicate of an order which was already placed', async () => {
+    const placedIds = new Set<string>();
+    const saveOrder: SaveOrder = order => placedIds.has(order.id.value)
+      ? TE.left(new OrderAlreadyPlaced(order.id))
+      : TE.fromIO(() => {
+        placedIds.add(order.id.value);
+      });
+    const workflow = workflowWith({ saveOrder });
+    await placeOrders(workflow, 1)([orderOf({ orderId: 'a' })])();
+    const result = await placeOrders(workflow, 1)([orderOf({ orderId: 'a' })])();
+
+    const again = result.results.get('a')!;
+    expect(E.isLeft(again) && again.left).toBeInstanceOf(OrderAlreadyPlaced);
+  });
+});
@@ -1,38 +1,101 @@
 import * as A from 'fp-ts/Array';
+import { sequenceS } from 'fp-ts/Apply';
 import * as E from 'fp-ts/Either';
 import { flow, pipe } from 'fp-ts/function';
+import * as NA from 'fp-ts/NonEmptyArray';
 import * as O from 'fp-ts/Option';
+import * as RA from 'fp-ts/ReadonlyArray';
+import * as T from 'fp-ts/Task';
 import * as TE from 'fp-ts/TaskEither';
 import { match, P } from 'ts-pattern';
-import { placeOrderEvents } from './implementation.common';
-import { AddressNotFound, InvalidFormat, ValidatedOrder, ValidatedOrderLine } from './implementation.types';
-import { PricedOrder, PricedOrderLine, PricingError, ValidationError } from './public-types';
+import { traverseArrayWithLimit } from '../../libs/task';
+import { createEvents, placeOrderEvents } from './implementation.common';
+import {
+  AddressNotFound,
+  InvalidFormat,
+  ValidatedCommentLine,
+  ValidatedOrder,
+  ValidatedProductLine,
+} from './implementation.types';
+import {
+  ExpressUpgrade,
+  Fedex24,
+  FreeShipping,
+  OrderAcknowledgmentSent,
+  PricedCommentLine,
+  PricedOrder,
+  PricedOrderWithShippingInfo,
+  PlaceOrdersResult,
+  PricedProductLine,
+  PricingError,
+  Promotion,
+  ShippingInfo,
+  Standard,
+  UnvalidatedCommentLine,
+  UnvalidatedProductLine,
+  ValidationError,
+  ValidationErrors,
+} from './public-types';
 import {
   Address,
   BillingAmount,
+  CommentText,
   createOrderQuantity,
   createProductCode,
+  createVipStatus,
+  Currency,
   CustomerInfo,
+  HalfEven,
   EmailAddress,
+  GizmoCode,
+  HalfUp,
+  KilogramQuantity,
+  Money,
+  Normal,
   OrderId,
   OrderLineId,
   PersonalName,
+  Price,
   ProductCode,
+  PromotionCode,
   String50,
+  UnitQuantity,
+  Vip,
+  WidgetCode,
   ZipCode,
 } from '../common-types';
 
+import type { ErrInvalidDecimal } from '../common-types/constrained-type';
 import type {
+  AddShippingInfoToOrder,
+  ApplyVipBenefits,
+  CalculateShippingInfo,
   CheckAddressExists,
   CheckedAddress,
   CheckProductCodeExists,
   CreateOrderAcknowledgmentLetter,
+  GetExchangeRate,
+  GetPricingFunction,
   GetProductPrice,
+  GetShippingRateTable,
+  GetTaxRateTable,
   PriceOrder,
+  PublishEvents,
+  SaveOrder,
   SendOrderAcknowledgment,
+  ShippingRate,
+  ShippingRateTable,
+  TaxRates,
+  TaxRateTable,
+  ValidatedOrderLine,
 } from './implementation.types';
 import type {
+  FieldPath,
   PlaceOrder,
+  PlaceOrderEvent,
+  PlaceOrders,
+  PricedOrderLine,
+  PricingMethod,
   UnvalidatedAddress,
   UnvalidatedCustomerInfo,
   UnvalidatedOrder,
@@ -69,7 +132,7 @@ type ValidateOrder = (
   dep2: CheckAddressExists, // dependency
 ) => (
   i: UnvalidatedOrder, // input
-) => TE.TaskEither<ValidationError, ValidatedOrder>; // output
+) => TE.TaskEither<ValidationErrors, ValidatedOrder>; // output
 
 // ---------------------------
 // Pricing step
@@ -77,6 +140,12 @@ type ValidateOrder = (
 
 // priced state is defined Domain.WorkflowTypes
 
+// ---------------------------
+// Shipping step
+// ---------------------------
+
+// shipped state and the rate tables are defined in implementation.types
+
 // ======================================================
 // Section 2 : Implementation
 // ======================================================
@@ -85,45 +154,66 @@ type ValidateOrder = (
 // ValidateOrder step
 // ---------------------------
 
+/// A validation result which collects every failure rather than stopping at the first one
+export type Validation<T> = E.Either<NA.NonEmptyArray<ValidationError>, T>;
+
+export const ValidationApplicative = E.getApplicativeValidation(NA.getSemigroup<ValidationError>());
+const AsyncValidationApplicative = TE.getApplicativeTaskValidation(T.ApplyPar, NA.getSemigroup<ValidationError>());
+
+/// Lift a single-failure result into a Validation
+const toValidation = <T>(result: E.Either<ValidationError, T>): Validation<T> => pipe(result, E.mapLeft(NA.of));
+
+/// Nest every error under the given field path
+export const atPath = (...segments: FieldPath) => NA.map((e: ValidationError) => e.at(...segments));
+
+const toString50 = (field: string) => (str: string): Validation<String50> => pipe(
+  str,
+  String50.create,
+  E.mapLeft(e => ValidationError.from(e).at(field)),
+  toValidation,
+);
+
 const toCustomerInfo = (
   unvalidatedCustomerInfo: UnvalidatedCustomerInfo,
-): E.Either<ValidationError, CustomerInfo> => pipe(
-  E.Do,
-  E.bind('firstName', () =>
-    pipe(unvalidatedCustomerInfo.firstName, String50.create, E.mapLeft(ValidationError.from)),
-  ),
-  E.bind('lastName', () =>
-    pipe(unvalidatedCustomerInfo.lastName, String50.create, E.mapLeft(ValidationError.from)),
-  ),
-  E.bind('emailAddress', () =>
-    pipe(unvalidatedCustomerInfo.emailAddress, EmailAddress.create, E.mapLeft(ValidationError.from)),
-  ),
-  E.let('name', ({ firstName, lastName }) => new PersonalName(firstName, lastName)),
-  E.map(scope => new CustomerInfo(scope.name, scope.emailAddress)),
+): Validation<CustomerInfo> => pipe(
+  sequenceS(ValidationApplicative)({
+    firstName: toString50('firstName')(unvalidatedCustomerInfo.firstName),
+    lastName: toString50('lastName')(unvalidatedCustomerInfo.lastName),
+    emailAddress: pipe(
+      unvalidatedCustomerInfo.emailAddress,
+      EmailAddress.create,
+      E.mapLeft(e => ValidationError.from(e).at('emailAddress')),
+      toValidation,
+    ),
+    vipStatus: pipe(
+      unvalidatedCustomerInfo.vipStatus,
+      createVipStatus,
+      E.mapLeft(e => ValidationError.from(e).at('vipStatus')),
+      toValidation,
+    ),
+  }),
+  E.map(scope => new CustomerInfo(new PersonalName(scope.firstName, scope.lastName), scope.emailAddress, scope.vipStatus)),
 );
 
-const optEthToEthOpt: <E, T>(i: O.Option<E.Either<E, T>>) => E.Either<E, O.Option<T>> = O.match(() => E.right(O.none), E.map(O.some));
-const toAddress = (checkedAddress: CheckedAddress): E.Either<ValidationError, Address> => pipe(
-  E.Do,
-  E.bind('addressLine1', () =>
-    pipe(checkedAddress.addressLine1, String50.create, E.mapLeft(ValidationError.from)),
-  ),
-  E.bind('addressLine2', () =>
-    pipe(checkedAddress.addressLine2, O.map(flow(String50.create, E.mapLeft(ValidationError.from))), optEthToEthOpt),
-  ),
-  E.bind('addressLine3', () =>
-    pipe(checkedAddress.addressLine3, O.map(flow(String50.create, E.mapLeft(ValidationError.from))), optEthToEthOpt),
-  ),
-  E.bind('addressLine4', () =>
-    pipe(checkedAddress.addressLine4, O.map(flow(String50.create, E.mapLeft(ValidationError.from))), optEthToEthOpt),
-  ),
-  E.bind('city', () => pipe(checkedAddress.city, String50.create, E.mapLeft(ValidationError.from))),
-  E.bind('zipCode', () => pipe(checkedAddress.zipCode, ZipCode.create, E.mapLeft(ValidationError.from))),
+export const toAddress = (checkedAddress: CheckedAddress): Validation<Address> => pipe(
+  sequenceS(ValidationApplicative)({
+    addressLine1: toString50('addressLine1')(checkedAddress.addressLine1),
+    addressLine2: pipe(checkedAddress.addressLine2, O.traverse(ValidationApplicative)(toString50('addressLine2'))),
+    addressLine3: pipe(checkedAddress.addressLine3, O.traverse(ValidationApplicative)(toString50('addressLine3'))),
+    addressLine4: pipe(checkedAddress.addressLine4, O.traverse(ValidationApplicative)(toString50('addressLine4'))),
+    city: toString50('city')(checkedAddress.city),
+    zipCode: pipe(
+      checkedAddress.zipCode,
+      ZipCode.create,
+      E.mapLeft(e => ValidationError.from(e).at('zipCode')),
+      toValidation,
+    ),
+  }),
   E.map(scope => new Address(scope.addressLine1, scope.addressLine2, scope.addressLine3, scope.addressLine4, scope.city, scope.zipCode)),
 );
 
 /// Call the checkAddressExists and convert the error to a ValidationError
-const toCheckedAddress = (
+export const toCheckedAddress = (
   checkAddress: CheckAddressExists,
 ): ((address: UnvalidatedAddress) => TE.TaskEither<ValidationError, CheckedAddress>) => flow(
   checkAddress,
@@ -135,15 +225,41 @@ const toCheckedAddress = (
   ),
 );
 
+/// Check the address remotely, then validate each of its fields
+const toValidatedAddress = (
+  checkAddress: CheckAddressExists,
+): ((address: UnvalidatedAddress) => TE.TaskEither<NA.NonEmptyArray<ValidationError>, Address>) => flow(
+  toCheckedAddress(checkAddress),
+  TE.mapLeft(NA.of),
+  TE.flatMapEither(toAddress),
+);
+
 const toOrderId: (orderId: string) => E.Either<ValidationError, OrderId> = flow(
   OrderId.create,
-  E.mapLeft(ValidationError.from), // convert creation error into ValidationError
+  E.mapLeft(e => ValidationError.from(e).at('orderId')), // convert creation error into ValidationError
+);
+
+/// Helper function for validateOrder
+const toCurrency: (currency: string) => E.Either<ValidationError, Currency> = flow(
+  Currency.create,
+  E.mapLeft(e => ValidationError.from(e).at('currency')),
+);
+
+/// Helper function for validateOrder
+/// Without a promotion code, the order is priced with the standard prices
+const toPricingMethod: (promotionCode: O.Option<string>) => E.Either<ValidationError, PricingMethod> = O.matchW(
+  () => E.right(new Standard()),
+  flow(
+    PromotionCode.create,
+    E.mapLeft(e => ValidationError.from(e).at('promotionCode')),
+    E.map(code => new Promotion(code)),
+  ),
 );
 
 /// Helper function for validateOrder
 const toOrderLineId: (orderLineId: string) => E.Either<ValidationError, OrderLineId> = flow(
   OrderLineId.create,
-  E.mapLeft(ValidationError.from),
+  E.mapLeft(e => ValidationError.from(e).at('orderLineId')),
 );
 
 /// Helper function for validateOrder
@@ -153,12 +269,12 @@ const toProductCode = (checkProductCodeExists: CheckProductCodeExists) => {
   const checkProduct = (productCode: ProductCode) =>
     checkProductCodeExists(productCode)
       ? E.right(productCode)
-      : E.left(new ValidationError(`Invalid: ${productCode.value}`));
+      : E.left(new ValidationError(`Invalid: ${productCode.value}`, ['productCode'], O.none, O.some(productCode.value)));
 
   // assemble the pipeline
   return flow(
     createProductCode,
-    E.mapLeft(ValidationError.from),
+    E.mapLeft(e => ValidationError.from(e).at('productCode')),
     E.flatMap(checkProduct),
   );
 };
@@ -166,77 +282,227 @@ const toProductCode = (checkProductCodeExists: CheckProductCodeExists) => {
 /// Helper function for validateOrder1
 const toOrderQuantity = (productCode: ProductCode) => flow(
   createOrderQuantity(productCode),
-  E.mapLeft(ValidationError.from),
+  E.mapLeft(e => ValidationError.from(e).at('quantity')),
 );
 
 /// Helper function for validateOrder
-const toValidatedOrderLine = (checkProductCodeExists: CheckProductCodeExists) => ({
+/// The quantity can only be checked once the product code is known,
+/// but the line id is validated independently of both.
+const toValidatedProductLine = (checkProductCodeExists: CheckProductCodeExists) => ({
   orderLineId,
   productCode,
   quantity,
-}: UnvalidatedOrderLine) => pipe(
-  E.Do,
-  E.bind('validId', () => pipe(orderLineId, toOrderLineId)),
-  E.bind('validCode', () => pipe(productCode, toProductCode(checkProductCodeExists))),
-  E.bind('validQuantity', ({ validCode }) => pipe(quantity, toOrderQuantity(validCode))),
-  E.map(scope => new ValidatedOrderLine(scope.validId, scope.validCode, scope.validQuantity)),
+}: UnvalidatedProductLine): Validation<ValidatedProductLine> => pipe(
+  sequenceS(ValidationApplicative)({
+    validId: pipe(orderLineId, toOrderLineId, toValidation),
+    validCodeAndQuantity: pipe(
+      E.Do,
+      E.bind('validCode', () => pipe(productCode, toProductCode(checkProductCodeExists))),
+      E.bind('validQuantity', ({ validCode }) => pipe(quantity, toOrderQuantity(validCode))),
+      toValidation,
+    ),
+  }),
+  E.map(({ validId, validCodeAndQuantity }) =>
+    new ValidatedProductLine(validId, validCodeAndQuantity.validCode, validCodeAndQuantity.validQuantity)),
 );
 
+/// Helper function for validateOrder
+const toValidatedCommentLine = ({ orderLineId, comment }: UnvalidatedCommentLine): Validation<ValidatedCommentLine> => pipe(
+  sequenceS(ValidationApplicative)({
+    validId: pipe(orderLineId, toOrderLineId, toValidation),
+    validComment: pipe(
+      comment,
+      CommentText.create,
+      E.mapLeft(e => ValidationError.from(e).at('comment')),
+      toValidation,
+    ),
+  }),
+  E.map(({ validId, validComment }) => new ValidatedCommentLine(validId, validComment)),
+);
+
+/// Helper function for validateOrder
+export const toValidatedOrderLine = (checkProductCodeExists: CheckProductCodeExists) => (
+  line: UnvalidatedOrderLine,
+): Validation<ValidatedOrderLine> =>
+  match(line)
+    .with(P.instanceOf(UnvalidatedProductLine), toValidatedProductLine(checkProductCodeExists))
+    .with(P.instanceOf(UnvalidatedCommentLine), toValidatedCommentLine)
+    .exhaustive();
+
 const validateOrder: ValidateOrder = (checkProductCodeExists, checkAddressExists) => ({
   orderId,
   customerInfo,
   lines,
   shippingAddress,
   billingAddress,
+  currency,
+  promotionCode,
 }: UnvalidatedOrder) => pipe(
-  E.Do,
-  E.bind('validId', () => toOrderId(orderId)),
-  E.bind('validInfo', () => toCustomerInfo(customerInfo)),
-  E.bind('validLines', () => pipe(lines, A.map(toValidatedOrderLine(checkProductCodeExists)), E.sequenceArray),),
-  TE.fromEither,
-  TE.bind('checkedShippingAddress', () => pipe(shippingAddress, toCheckedAddress(checkAddressExists))),
-  TE.bind('validShipAdr', ({ checkedShippingAddress }) => pipe(checkedShippingAddress, toAddress, TE.fromEither)),
-  TE.bind('checkedBillingAddress', () => pipe(billingAddress, toCheckedAddress(checkAddressExists))),
-  TE.bind('validBillingAdr', ({ checkedBillingAddress }) => pipe(checkedBillingAddress, toAddress, TE.fromEither)),
-  TE.map(scope => new ValidatedOrder(scope.validId, scope.validInfo, scope.validShipAdr, scope.validBillingAdr, scope.validLines)),
+  sequenceS(AsyncValidationApplicative)({
+    validId: pipe(orderId, toOrderId, toValidation, TE.fromEither),
+    validInfo: pipe(customerInfo, toCustomerInfo, E.mapLeft(atPath('customerInfo')), TE.fromEither),
+    validLines: pipe(
+      lines,
+      A.traverseWithIndex(ValidationApplicative)((index, line) => pipe(
+        line,
+        toValidatedOrderLine(checkProductCodeExists),
+        E.mapLeft(atPath('lines', index)),
+      )),
+      TE.fromEither,
+    ),
+    validShipAdr: pipe(shippingAddress, toValidatedAddress(checkAddressExists), TE.mapLeft(atPath('shippingAddress'))),
+    validBillingAdr: pipe(billingAddress, toValidatedAddress(checkAddressExists), TE.mapLeft(atPath('billingAddress'))),
+    validCurrency: pipe(currency, toCurrency, toValidation, TE.fromEither),
+    validPricingMethod: pipe(promotionCode, toPricingMethod, toValidation, TE.fromEither),
+  }),
+  TE.mapLeft(errors => new ValidationErrors(errors)),
+  TE.map(scope => new ValidatedOrder(
+    scope.validId,
+    scope.validInfo,
+    scope.validShipAdr,
+    scope.validBillingAdr,
+    scope.validLines,
+    scope.validCurrency,
+    scope.validPricingMethod,
+  )),
 );
 
 // ---------------------------
 // PriceOrder step
 // ---------------------------
 
-const toPricedOrderLine = (getProductPrice: GetProductPrice) => ({
+/// Convert a catalog price into the currency of the order
+const toOrderCurrency = (getExchangeRate: GetExchangeRate) => <C extends string>(currency: C) => (
+  catalogPrice: Price,
+): E.Either<PricingError, Price<C>> => pipe(
+  getExchangeRate(catalogPrice.value.currency, currency),
+  E.fromOption(() => new PricingError(`No exchange rate from ${catalogPrice.value.currency} to ${currency}`)),
+  E.flatMap(rate => pipe(catalogPrice.exchange(rate, HalfEven), E.mapLeft(PricingError.from))),
+);
+
+/// Find the tax rates of the jurisdiction that the order is shipped to
+export const toTaxRates = (rateTable: TaxRateTable) => (shippingAddress: Address): TaxRates => pipe(
+  rateTable.jurisdictions,
+  RA.findFirst(jurisdiction => jurisdiction.contains(shippingAddress.zipCode)),
+  O.match(() => rateTable.defaultRates, jurisdiction => jurisdiction.rates),
+);
+
+/// Widgets and Gizmos can be taxed at different rates
+const toTaxRate = (taxRates: TaxRates) => (productCode: ProductCode): string =>
+  match(productCode)
+    .with(P.instanceOf(WidgetCode), () => taxRates.widgetRate)
+    .with(P.instanceOf(GizmoCode), () => taxRates.gizmoRate)
+    .exhaustive();
+
+/// The sales tax on the price of a line, rounded half up, as tax authorities expect
+export const toLineTaxAt = (taxRates: TaxRates) => <C extends string>(
+  productCode: ProductCode,
+  linePrice: Price<C>,
+): E.Either<PricingError, Price<C>> => pipe(
+  linePrice.value.multiply(toTaxRate(taxRates)(productCode), HalfUp),
+  E.flatMap(Price.create),
+  E.mapLeft(PricingError.from),
+);
+
+/// Generic in the order currency, so that a line price which has not been
+/// converted into that currency cannot be added to the others
+const toPricedProductLine = (
+  getProductPrice: GetProductPrice,
+  getExchangeRate: GetExchangeRate,
+  taxRates: TaxRates,
+) => <C extends string>(
+  currency: C,
+) => ({
   orderLineId,
   productCode,
   quantity,
-}: ValidatedOrderLine) => pipe(
+}: ValidatedProductLine): E.Either<PricingError, PricedProductLine<C>> => pipe(
   E.Do,
-  E.bind('linePrice', () => pipe(
-    quantity.value,
-    getProductPrice(productCode).multiply,
+  E.bind('unitPrice', () => pipe(getProductPrice(productCode), toOrderCurrency(getExchangeRate)(currency))),
+  E.bind('linePrice', ({ unitPrice }) => pipe(
+    unitPrice.multiply(quantity.value, HalfEven), // round ties to even, so rounding does not drift upwards
     E.mapLeft(PricingError.from),
   )),
-  E.map(({ linePrice }) => new PricedOrderLine(orderLineId, productCode, quantity, linePrice)),
+  E.bind('lineTax', ({ linePrice }) => toLineTaxAt(taxRates)(productCode, linePrice)),
+  E.map(({ linePrice, lineTax }) => new PricedProductLine(orderLineId, productCode, quantity, linePrice, lineTax)),
 );
 
+/// Comment lines are passed through without a price
+export const toPricedOrderLine = (
+  getProductPrice: GetProductPrice,
+  getExchangeRate: GetExchangeRate,
+  taxRates: TaxRates,
+) => <C extends string>(
+  currency: C,
+) => (line: ValidatedOrderLine): E.Either<PricingError, PricedOrderLine<C>> =>
+  match(line)
+    .with(P.instanceOf(ValidatedProductLine), toPricedProductLine(getProductPrice, getExchangeRate, taxRates)(currency))
+    .with(P.instanceOf(ValidatedCommentLine), ({ orderLineId, comment }) => E.right(new PricedCommentLine(orderLineId, comment)))
+    .exhaustive();
+
+/// The price of a line, if it has one
+export const toLinePrice = <C extends string>(line: PricedOrderLine<C>): O.Option<Price<C>> =>
+  line instanceof PricedProductLine ? O.some(line.linePrice) : O.none;
+
+/// The tax on a line, if it has a price
+export const toLineTax = <C extends string>(line: PricedOrderLine<C>): O.Option<Price<C>> =>
+  line instanceof PricedProductLine ? O.some(line.lineTax) : O.none;
+
 
-const priceOrder: PriceOrder = (getProductPrice) => ({
+/// The prices to use for an order, and the method they belong to
+type Pricing = {
+  readonly pricingMethod: PricingMethod;
+  readonly getProductPrice: GetProductPrice;
+  readonly pricingNote: O.Option<string>;
+};
+
+/// Look up the prices for the pricing method asked for.
+/// An unknown or expired promotion does not fail the order:
+/// it is priced with the standard prices instead, with a note saying why.
+export const toPricing = (getPricingFunction: GetPricingFunction) => (
+  pricingMethod: PricingMethod,
+): E.Either<PricingError, Pricing> => pipe(
+  getPricingFunction(pricingMethod),
+  O.map((getProductPrice): Pricing => ({ pricingMethod, getProductPrice, pricingNote: O.none })),
+  O.alt(() => match(pricingMethod)
+    .with(P.instanceOf(Promotion), ({ promotionCode }) => pipe(
+      getPricingFunction(new Standard()),
+      O.map((getProductPrice): Pricing => ({
+        pricingMethod: new Standard(),
+        getProductPrice,
+        pricingNote: O.some(`Promotion code ${promotionCode.value} is unknown or has expired, so standard prices were used`),
+      })),
+    ))
+    .with(P.instanceOf(Standard), () => O.none)
+    .exhaustive()),
+  E.fromOption(() => new PricingError('No standard prices are available')),
+);
+
+const priceOrder: PriceOrder = (getPricingFunction, getExchangeRate, getTaxRateTable) => ({
   lines,
   orderId,
   customerInfo,
   shippingAddress,
   billingAddress,
+  currency,
+  pricingMethod,
 }: ValidatedOrder) => pipe(
   E.Do,
-  E.bind('pricedLines', () => pipe(
+  E.bind('pricing', () => toPricing(getPricingFunction)(pricingMethod)),
+  E.let('taxRates', () => toTaxRates(getTaxRateTable())(shippingAddress)),
+  E.bind('pricedLines', ({ pricing, taxRates }) => pipe(
     lines,
-    A.map(toPricedOrderLine(getProductPrice)),
+    A.map(toPricedOrderLine(pricing.getProductPrice, getExchangeRate, taxRates)(currency.value)),
     E.sequenceArray, // convert list of Results to a single Result
   )),
+  E.bind('taxTotal', ({ pricedLines }) => pipe(
+    pricedLines.map(toLineTax), // get the tax on each line
+    taxes => BillingAmount.sumPrices(currency.value, taxes),
+    E.mapLeft(PricingError.from),
+  )),
   E.bind('amountToBill', ({ pricedLines }) => pipe(
-    pricedLines,
-    A.map(l => l.linePrice), // get each line price
-    BillingAmount.sumPrices, // add them together as a BillingAmount
+    [...pricedLines.map(toLinePrice), ...pricedLines.map(toLineTax)], // get each line price and its tax
+    prices => BillingAmount.sumPrices(currency.value, prices), // add them together as a BillingAmount
     E.mapLeft(PricingError.from), // convert to PlaceOrderError
   )),
   E.map(scope => new PricedOrder(
@@ -246,9 +512,97 @@ const priceOrder: PriceOrder = (getProductPrice) => ({
     billingAddress,
     scope.amountToBill,
     scope.pricedLines,
+    currency,
+    scope.taxTotal,
+    scope.pricing.pricingMethod,
+    scope.pricing.pricingNote,
   )),
 );
 
+// ---------------------------
+// Shipping step
+// ---------------------------
+
+/// Find the rate for the zone that the order is shipped to
+const toShippingRate = (rateTable: ShippingRateTable) => (shippingAddress: Address): ShippingRate => pipe(
+  rateTable.zones,
+  RA.findFirst(zone => zone.contains(shippingAddress.zipCode)),
+  O.match(() => rateTable.defaultRate, zone => zone.rate),
+);
+
+/// Products sold by weight are charged for each kilogram, and products sold by the unit for each item.
+/// Comment lines are not shipped, so cost nothing.
+const toLineShippingCost = (rate: ShippingRate) => (line: PricedOrderLine): E.Either<ErrInvalidDecimal, Money> =>
+  match(line)
+    .with(P.instanceOf(PricedProductLine), ({ quantity }) => match(quantity)
+      .with(P.instanceOf(KilogramQuantity), kg => rate.costPerKilogram.value.multiply(kg.value, HalfEven))
+      .with(P.instanceOf(UnitQuantity), units => rate.costPerItem.value.multiply(units.value, HalfEven))
+      .exhaustive())
+    .with(P.instanceOf(PricedCommentLine), () => E.right(Money.zero(rate.baseCost.value.currency)))
+    .exhaustive();
+
+export const calculateShippingInfo = (
+  getShippingRateTable: GetShippingRateTable, // dependency
+  getExchangeRate: GetExchangeRate, // dependency
+): CalculateShippingInfo => pricedOrder => {
+  const rate = toShippingRate(getShippingRateTable())(pricedOrder.shippingAddress);
+  return pipe(
+    pricedOrder.lines,
+    E.traverseArray(toLineShippingCost(rate)),
+    E.map(RA.reduce(rate.baseCost.value, (total: Money, cost) => total.add(cost))), // in the currency of the rate table
+    E.flatMap(Price.create),
+    E.mapLeft(PricingError.from),
+    E.flatMap(toOrderCurrency(getExchangeRate)(pricedOrder.currency.value)),
+    E.map(shippingCost => new ShippingInfo(rate.shippingMethod, shippingCost)),
+  );
+};
+
+export const addShippingInfoToOrder: AddShippingInfoToOrder = calculateShippingInfo => pricedOrder => pipe(
+  E.Do,
+  E.bind('shippingInfo', () => calculateShippingInfo(pricedOrder)),
+  E.bind('amountToBill', ({ shippingInfo }) => pipe(
+    pricedOrder.amountToBill.value.add(shippingInfo.shippingCost.value), // shipping is billed with the lines
+    BillingAmount.create,
+    E.mapLeft(PricingError.from),
+  )),
+  E.map(({ shippingInfo, amountToBill }) => new PricedOrderWithShippingInfo(pricedOrder, shippingInfo, amountToBill, [])),
+);
+
+// ---------------------------
+// VIP shipping step
+// ---------------------------
+
+/// VIPs get free shipping, and their orders are upgraded to express shipping if need be.
+/// Only the benefits which made a difference are recorded.
+export const applyVipBenefits: ApplyVipBenefits = shippedOrder =>
+  match(shippedOrder.pricedOrder.customerInfo.vipStatus)
+    .with(Normal, () => shippedOrder)
+    .with(Vip, () => {
+      const { pricedOrder, shippingInfo, vipBenefits } = shippedOrder;
+      const isExpress = shippingInfo.shippingMethod === Fedex24;
+      const isFree = !shippingInfo.shippingCost.value.isPositive();
+      return new PricedOrderWithShippingInfo(
+        pricedOrder,
+        new ShippingInfo(Fedex24, Price.unsafeCreate(Money.zero(pricedOrder.currency.value))),
+        pricedOrder.amountToBill, // nothing is billed for shipping
+        [...vipBenefits, ...(isFree ? [] : [FreeShipping]), ...(isExpress ? [] : [ExpressUpgrade])],
+      );
+    })
+    .exhaustive();
+
+// ---------------------------
+// publish events step
+// ---------------------------
+
+/// Publish the acknowledgment, if it was sent. The customer already has it by then,
+/// so an outbox which is down does not fail the order: a retry would not place it again anyway.
+const publishAcknowledgment = (publishEvents: PublishEvents) => (events: PlaceOrderEvent[]) => pipe(
+  events,
+  RA.filter(event => event instanceof OrderAcknowledgmentSent),
+  RA.match(() => TE.right(undefined), publishEvents),
+  TE.orElse(() => TE.right<never, void>(undefined)),
+);
+
 // ---------------------------
 // overall workflow
 // ---------------------------
@@ -256,11 +610,66 @@ const priceOrder: PriceOrder = (getProductPrice) => ({
 export const placeOrder = (
   checkCode: CheckProductCodeExists, // dependency
   checkAddress: CheckAddressExists, // dependency
-  getPrice: GetProductPrice, // dependency
+  getPricingFunction: GetPricingFunction, // dependency
+  getRate: GetExchangeRate, // dependency
+  getTaxRates: GetTaxRateTable, // dependency
+  getShippingRates: GetShippingRateTable, // dependency
+  saveOrder: SaveOrder, // dependency
   createAck: CreateOrderAcknowledgmentLetter, // dependency
   sendAck: SendOrderAcknowledgment, // dependency
+  publishEvents: PublishEvents, // dependency
 ): PlaceOrder => flow(
   validateOrder(checkCode, checkAddress),
-  TE.flatMap(TE.fromEitherK(priceOrder(getPrice))),
+  TE.flatMap(TE.fromEitherK(priceOrder(getPricingFunction, getRate, getTaxRates))),
+  TE.flatMap(TE.fromEitherK(addShippingInfoToOrder(calculateShippingInfo(getShippingRates, getRate)))),
+  TE.map(applyVipBenefits),
+  // save the order so that it can be looked up later, and its events so that they are published
+  TE.tap(shippedOrder => saveOrder(shippedOrder, createEvents(shippedOrder, O.none))),
+  // the customer is only sent the acknowledgment once the order is saved,
+  // so a failed save (and the retry of it) does not email them
   TE.map(placeOrderEvents(createAck, sendAck)),
+  TE.tap(publishAcknowledgment(publishEvents)),
 );
+
+// ---------------------------
+// placing a batch of orders
+// ---------------------------
+
+/// The results of a batch are keyed by OrderId, so it would be ambiguous which order a result is for
+/// if orders of the batch shared one. Such orders are not placed at all.
+const sharedOrderIdError = (orderId: string, count: number) => ValidationErrors.of(new ValidationError(
+  `the OrderId is used by ${count} orders of the batch`,
+  ['orderId'],
+  O.none,
+  O.some(orderId),
+));
+
+const countByOrderId = (unvalidatedOrders: readonly UnvalidatedOrder[]): ReadonlyMap<string, number> =>
+  unvalidatedOrders.reduce(
+    (counts, { orderId }) => counts.set(orderId, (counts.get(orderId) ?? 0) + 1),
+    new Map<string, number>(),
+  );
+
+/// Place the orders with at most `maxConcurrent` of them in progress at a time,
+/// so that e.g. their address checks overlap without overwhelming the address service
+export const placeOrders = (
+  placeOrder: PlaceOrder, // dependency
+  maxConcurrent: number, // at least 1
+): PlaceOrders => unvalidatedOrders => {
+  const counts = countByOrderId(unvalidatedOrders);
+  return pipe(
+    unvalidatedOrders,
+    traverseArrayWithLimit(maxConcurrent)(unvalidatedOrder => {
+      const count = counts.get(unvalidatedOrder.orderId) ?? 0;
+      return pipe(
+        count > 1 ? TE.left(sharedOrderIdError(unvalidatedOrder.orderId, count)) : placeOrder(unvalidatedOrder),
+        T.map(result => [unvalidatedOrder.orderId, result] as const),
+      );
+    }),
+    T.map(results => new PlaceOrdersResult(
+      new Map(results),
+      results.filter(([, result]) => E.isRight(result)).length,
+      results.filter(([, result]) => E.isLeft(result)).length,
+    )),
+  );
+};
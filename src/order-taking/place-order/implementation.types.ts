@@ -3,10 +3,36 @@ import { PhantomBrand, Wrapper } from '../../libs/brand';
 import { bound } from '../../libs/decorator';
 import { Entity, ValueObject } from '../../libs/model-type';
 
-import type { OrderAcknowledgmentSent, PlaceOrderEvent, PricedOrder, UnvalidatedAddress, PricingError } from './public-types';
+import type {
+  OrderAcknowledgmentSent,
+  OrderAlreadyPlaced,
+  PlaceOrderEvent,
+  PricedOrder,
+  PricedOrderWithShippingInfo,
+  PricingError,
+  PricingMethod,
+  RemoteServiceError,
+  ShippingInfo,
+  ShippingMethod,
+  UnvalidatedAddress,
+} from './public-types';
 import type * as TE from 'fp-ts/TaskEither'
 import type * as E from 'fp-ts/Either'
-import type { Address, CustomerInfo, EmailAddress, OrderId, OrderLineId, OrderQuantity, Price, ProductCode } from '../common-types';
+import type {
+  Address,
+  CommentText,
+  Currency,
+  CustomerInfo,
+  EmailAddress,
+  ExchangeRate,
+  OrderId,
+  OrderLineId,
+  OrderQuantity,
+  Price,
+  ProductCode,
+  ZipCode,
+} from '../common-types';
+import type { OrderAmended, OrderNotFound } from '../order/order';
 
 // ======================================================
 // Section 1 : Define each step in the workflow using types
@@ -42,7 +68,7 @@ export type CheckAddressExists = (i: UnvalidatedAddress) => TE.TaskEither<Addres
 // Validated Order
 // ---------------------------
 
-export class ValidatedOrderLine extends Entity<OrderLineId> {
+export class ValidatedProductLine extends Entity<OrderLineId> {
   constructor(
     readonly orderLineId: OrderLineId,
     readonly productCode: ProductCode,
@@ -51,8 +77,8 @@ export class ValidatedOrderLine extends Entity<OrderLineId> {
     super();
   }
 
-  isSameClass<ValidatedOrderLine>(obj: unknown): obj is ValidatedOrderLine {
-    return obj instanceof ValidatedOrderLine;
+  isSameClass<ValidatedProductLine>(obj: unknown): obj is ValidatedProductLine {
+    return obj instanceof ValidatedProductLine;
   }
 
   @bound
@@ -61,6 +87,26 @@ export class ValidatedOrderLine extends Entity<OrderLineId> {
   }
 }
 
+export class ValidatedCommentLine extends Entity<OrderLineId> {
+  constructor(
+    readonly orderLineId: OrderLineId,
+    readonly comment: CommentText,
+  ) {
+    super();
+  }
+
+  isSameClass<ValidatedCommentLine>(obj: unknown): obj is ValidatedCommentLine {
+    return obj instanceof ValidatedCommentLine;
+  }
+
+  @bound
+  get id(): OrderLineId {
+    return this.orderLineId;
+  }
+}
+
+export type ValidatedOrderLine = ValidatedProductLine | ValidatedCommentLine;
+
 export class ValidatedOrder extends Entity<OrderId> {
   constructor(
     readonly orderId: OrderId,
@@ -68,6 +114,8 @@ export class ValidatedOrder extends Entity<OrderId> {
     readonly shippingAddress: Address,
     readonly billingAddress: Address,
     readonly lines: readonly ValidatedOrderLine[],
+    readonly currency: Currency,
+    readonly pricingMethod: PricingMethod, // the method asked for
   ) {
     super();
   }
@@ -86,9 +134,149 @@ export class ValidatedOrder extends Entity<OrderId> {
 // Pricing step
 // ---------------------------
 
+// The price is in the currency of the product catalog
 export type GetProductPrice = (i: ProductCode) => Price;
 
-export type PriceOrder = (dep: GetProductPrice) => (i: ValidatedOrder) => E.Either<PricingError, PricedOrder>; // output
+// Look up the prices for a pricing method
+// Return None if there are none, e.g. the promotion code is unknown or has expired
+export type GetPricingFunction = (i: PricingMethod) => Option<GetProductPrice>;
+
+// Return None if there is no known rate between the two currencies
+export type GetExchangeRate = <From extends string, To extends string>(from: From, to: To) => Option<ExchangeRate<From, To>>;
+
+/// The sales tax rates of a jurisdiction, as exact decimals (e.g. "0.0825").
+/// Widgets and Gizmos can be taxed differently.
+export class TaxRates extends ValueObject {
+  constructor(
+    readonly widgetRate: string,
+    readonly gizmoRate: string,
+  ) { super() }
+}
+
+/// A tax jurisdiction, e.g. a state or a city
+export class TaxJurisdiction extends ValueObject {
+  constructor(
+    readonly name: string,
+    readonly zipCodePrefixes: readonly string[],
+    readonly rates: TaxRates,
+  ) { super() }
+
+  contains(zipCode: ZipCode): boolean {
+    return this.zipCodePrefixes.some(prefix => zipCode.value.startsWith(prefix));
+  }
+}
+
+/// The jurisdictions are tried in order, and an address which is in none of them
+/// is taxed at the default rates
+export class TaxRateTable extends ValueObject {
+  constructor(
+    readonly jurisdictions: readonly TaxJurisdiction[],
+    readonly defaultRates: TaxRates,
+  ) { super() }
+}
+
+// The rate table is looked up for every order,
+// so that the rates can be changed without changing the code
+export type GetTaxRateTable = () => TaxRateTable;
+
+export type PriceOrder = (
+  dep1: GetPricingFunction,
+  dep2: GetExchangeRate, // dependency
+  dep3: GetTaxRateTable, // dependency
+) => (
+  i: ValidatedOrder, // input
+) => E.Either<PricingError, PricedOrder>; // output
+
+// ---------------------------
+// Shipping step
+// ---------------------------
+
+/// What it costs to ship an order with the given method.
+/// The costs are in the currency of the rate table.
+export class ShippingRate extends ValueObject {
+  constructor(
+    readonly shippingMethod: ShippingMethod,
+    readonly baseCost: Price, // charged once per order
+    readonly costPerKilogram: Price, // for products sold by weight
+    readonly costPerItem: Price, // for products sold by the unit
+  ) { super() }
+}
+
+/// The addresses which share a rate, e.g. "West Coast"
+export class ShippingZone extends ValueObject {
+  constructor(
+    readonly name: string,
+    readonly zipCodePrefixes: readonly string[],
+    readonly rate: ShippingRate,
+  ) { super() }
+
+  contains(zipCode: ZipCode): boolean {
+    return this.zipCodePrefixes.some(prefix => zipCode.value.startsWith(prefix));
+  }
+}
+
+/// The zones are tried in order, and an address which is in none of them
+/// is charged the default rate
+export class ShippingRateTable extends ValueObject {
+  constructor(
+    readonly zones: readonly ShippingZone[],
+    readonly defaultRate: ShippingRate,
+  ) { super() }
+}
+
+// The rate table is looked up for every order,
+// so that the rates can be changed without changing the code
+export type GetShippingRateTable = () => ShippingRateTable;
+
+export type CalculateShippingInfo = (i: PricedOrder) => E.Either<PricingError, ShippingInfo>;
+
+export type AddShippingInfoToOrder = (
+  dep: CalculateShippingInfo, // dependency
+) => (
+  i: PricedOrder, // input
+) => E.Either<PricingError, PricedOrderWithShippingInfo>; // output
+
+// ---------------------------
+// VIP shipping step
+// ---------------------------
+
+export type ApplyVipBenefits = (i: PricedOrderWithShippingInfo) => PricedOrderWithShippingInfo;
+
+// ---------------------------
+// Save order step
+// ---------------------------
+
+/// Saving fails with OrderAlreadyPlaced if there already is an order with the same OrderId.
+/// The events are put in an outbox in the same transaction,
+/// so that they are published if and only if the order is saved.
+/// The acknowledgment is only sent once the order is saved, so OrderAcknowledgmentSent is never among them:
+/// it is published on its own once it has been sent, see PublishEvents.
+export type SaveOrder = (
+  i1: PricedOrderWithShippingInfo,
+  i2: readonly PlaceOrderEvent[],
+) => TE.TaskEither<OrderAlreadyPlaced | RemoteServiceError, void>;
+
+/// Return None if there is no order with the given id
+export type LoadOrder = (i: OrderId) => TE.TaskEither<RemoteServiceError, Option<PricedOrderWithShippingInfo>>;
+
+export type ListOrdersByCustomerEmail = (i: EmailAddress) => TE.TaskEither<RemoteServiceError, readonly PricedOrderWithShippingInfo[]>;
+
+/// Replace the order with the order as amended, failing with OrderNotFound if it was never saved.
+/// The OrderAmended event is put in the outbox in the same transaction, as for SaveOrder.
+/// An order can be amended many times, so the event is told apart by the version of the order it was recorded at.
+export type AmendOrder = (
+  i1: PricedOrderWithShippingInfo,
+  i2: OrderAmended,
+  i3: number, // the version of the order once it has been amended
+) => TE.TaskEither<OrderNotFound | RemoteServiceError, void>;
+
+/// Where placed orders are kept, with their shipping and VIP benefits, so that they can be looked up after the workflow has run
+export type OrderRepository = {
+  readonly save: SaveOrder;
+  readonly amend: AmendOrder;
+  readonly load: LoadOrder;
+  readonly listByCustomerEmail: ListOrdersByCustomerEmail;
+};
 
 // ---------------------------
 // Send OrderAcknowledgment
@@ -107,7 +295,7 @@ export class OrderAcknowledgement extends ValueObject {
   ) { super() }
 }
 
-export type CreateOrderAcknowledgmentLetter = (i: PricedOrder) => HtmlString;
+export type CreateOrderAcknowledgmentLetter = (i: PricedOrderWithShippingInfo) => HtmlString;
 
 /// Send the order acknowledgement to the customer
 /// Note that this does NOT generate an Result-type error (at least not in this workflow)
@@ -125,7 +313,7 @@ export type AcknowledgeOrder = (
   dep1: CreateOrderAcknowledgmentLetter,
   dep2: SendOrderAcknowledgment, // dependency
 ) => (
-  i: PricedOrder, // input
+  i: PricedOrderWithShippingInfo, // input
 ) => Option<OrderAcknowledgmentSent>; // output
 
 // ---------------------------
@@ -133,6 +321,14 @@ export type AcknowledgeOrder = (
 // ---------------------------
 
 export type CreateEvents = (
-  i1: PricedOrder,
+  i1: PricedOrderWithShippingInfo,
   i2: Option<OrderAcknowledgmentSent>, // input (event from previous step)
 ) => PlaceOrderEvent[]; // output
+
+// ---------------------------
+// Publish events step
+// ---------------------------
+
+/// Put events in the outbox which happened after the order was saved, i.e. OrderAcknowledgmentSent,
+/// so that they are delivered like the events which were saved with it
+export type PublishEvents = (i: readonly PlaceOrderEvent[]) => TE.TaskEither<RemoteServiceError, void>;
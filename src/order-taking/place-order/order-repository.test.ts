@@ -0,0 +1,207 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as E from 'fp-ts/Either';
+import { flow, pipe } from 'fp-ts/function';
+import * as O from 'fp-ts/Option';
+import * as TE from 'fp-ts/TaskEither';
+import {
+  checkAddressExists,
+  checkProductExists,
+  createOrderAcknowledgmentLetter,
+  getExchangeRate,
+  getPricingFunction,
+  getShippingRateTable,
+  getTaxRateTable,
+  publishNothing,
+  sendOrderAcknowledgment,
+} from '../../composition-root';
+import { BillingAmount, EmailAddress, Money } from '../common-types';
+import { OrderAmended, OrderNotFound } from '../order/order';
+import { deserializeOrderForm, placeOrderFromForm } from './api';
+import { PricedOrderWithShippingInfoDto } from './dto';
+import { createInMemoryOrderStorage, createSqliteOrderStorage } from './order-repository';
+import { publishThrough } from './outbox';
+import { OrderAlreadyPlaced, PricedOrderWithShippingInfo } from './public-types';
+
+import type { OrderStorage } from './order-repository';
+import type { PlaceOrderEvent } from './public-types';
+
+const address = { addressLine1: '1 Main St', city: 'Springfield', zipCode: '94105' };
+
+/// An order as it is saved by the PlaceOrder workflow, with its events.
+/// When a storage is given, the order is also placed in it, as the application does.
+const placeOrder = async (orderId: string, emailAddress = 'ada@example.com', storage: O.Option<OrderStorage> = O.none) => {
+  const orderForm = deserializeOrderForm(JSON.stringify({
+    orderId,
+    customerInfo: { firstName: 'Ada', lastName: 'Lovelace', emailAddress, vipStatus: 'Normal' },
+    shippingAddress: address,
+    billingAddress: address,
+    lines: [{ orderLineId: 'line-1', productCode: 'W1234', quantity: 2 }],
+    currency: 'USD',
+  }));
+  if (E.isLeft(orderForm)) throw orderForm.left;
+  const saved: { order?: PricedOrderWithShippingInfo; events?: readonly PlaceOrderEvent[] } = {};
+  const result = await placeOrderFromForm({
+    checkProductExists,
+    checkAddressExists,
+    getPricingFunction,
+    getExchangeRate,
+    getTaxRateTable,
+    getShippingRateTable,
+    saveOrder: (order, events) => pipe(
+      TE.fromIO(() => {
+        saved.order = order;
+        saved.events = events;
+      }),
+      TE.flatMap(() => pipe(storage, O.match(() => TE.right(undefined), ({ orders }) => orders.save(order, events)))),
+    ),
+    createOrderAcknowledgmentLetter,
+    sendOrderAcknowledgment,
+    publishEvents: pipe(storage, O.match(() => publishNothing, ({ outbox }) => publishThrough(outbox))),
+  })(orderForm.right)();
+  if (E.isLeft(result) || saved.order === undefined || saved.events === undefined) throw new Error('the order was not saved');
+  return { order: saved.order, events: saved.events };
+};
+
+/// The order as amended to bill the given amount, and the amendment
+const amendedTo = (order: PricedOrderWithShippingInfo, amount: string) => {
+  const { pricedOrder } = order;
+  const amountToBill = BillingAmount.unsafeCreate(Money.unsafeFromDecimal(amount, pricedOrder.currency.value));
+  return {
+    amendedOrder: new PricedOrderWithShippingInfo(pricedOrder, order.shippingInfo, amountToBill, order.vipBenefits),
+    amended: new OrderAmended(
+      pricedOrder.orderId,
+      pricedOrder.shippingAddress,
+      pricedOrder.billingAddress,
+      pricedOrder.lines,
+      order.shippingInfo,
+      order.vipBenefits,
+      amountToBill,
+      pricedOrder.taxTotal,
+      amountToBill.value.subtract(order.amountToBill.value),
+      pricedOrder.currency,
+      O.none,
+    ),
+  };
+};
+
+const rightOf = async <A>(task: TE.TaskEither<unknown, A>): Promise<A> => {
+  const result = await task();
+  if (E.isLeft(result)) throw result.left;
+  return result.right;
+};
+
+/// Orders are compared in their JSON form, as the domain types and DTOs have bound methods
+const jsonOf = O.map(flow(PricedOrderWithShippingInfoDto.fromDomain, PricedOrderWithShippingInfoDto.codec.encode));
+
+/// The behaviour which every adapter shares
+const describeStorage = (name: string, open: () => Promise<OrderStorage>) => describe(name, () => {
+  it('loads an order as it was saved, and lists it by the email address of its customer', async () => {
+    const storage = await open();
+    const { order, events } = await placeOrder('order-1');
+    const other = await placeOrder('order-2', 'bob@example.com');
+    await rightOf(storage.orders.save(order, events));
+    await rightOf(storage.orders.save(other.order, other.events));
+
+    expect(jsonOf(await rightOf(storage.orders.load(order.pricedOrder.orderId)))).toEqual(jsonOf(O.some(order)));
+    const listed = await rightOf(storage.orders.listByCustomerEmail(EmailAddress.unsafeCreate('ada@example.com')));
+    expect(listed.map(o => o.pricedOrder.orderId.value)).toEqual(['order-1']);
+  });
+
+  it('saves the events of an order in the outbox with it', async () => {
+    const storage = await open();
+    const { order, events } = await placeOrder('order-1');
+    await rightOf(storage.orders.save(order, events));
+
+    expect((await rightOf(storage.outbox.due(Number.MAX_SAFE_INTEGER))).map(m => m.messageId))
+      .toEqual(['order-1/OrderPlaced', 'order-1/BillableOrderPlaced']);
+  });
+
+  it('puts the acknowledgment of an order in the outbox once it has been sent', async () => {
+    const storage = await open();
+    await placeOrder('order-1', 'ada@example.com', O.some(storage));
+
+    expect((await rightOf(storage.outbox.due(Number.MAX_SAFE_INTEGER))).map(m => m.messageId))
+      .toEqual(['order-1/OrderPlaced', 'order-1/BillableOrderPlaced', 'order-1/OrderAcknowledgmentSent']);
+  });
+
+  it('does not replace an order which was already placed, nor publish its events again', async () => {
+    const storage = await open();
+    const { order, events } = await placeOrder('order-1');
+    await rightOf(storage.orders.save(order, events));
+    await rightOf(storage.outbox.remove('order-1/OrderPlaced'));
+
+    const again = await storage.orders.save(order, events)();
+
+    expect(E.isLeft(again) && again.left).toBeInstanceOf(OrderAlreadyPlaced);
+    expect(await rightOf(storage.outbox.due(Number.MAX_SAFE_INTEGER))).toHaveLength(1);
+  });
+
+  it('replaces an order with the order as amended, and puts each amendment in the outbox with it', async () => {
+    const storage = await open();
+    const { order, events } = await placeOrder('order-1');
+    await rightOf(storage.orders.save(order, events));
+    const first = amendedTo(order, '3.00');
+    const second = amendedTo(order, '4.00');
+
+    await rightOf(storage.orders.amend(first.amendedOrder, first.amended, 2));
+    await rightOf(storage.orders.amend(second.amendedOrder, second.amended, 3));
+
+    expect(jsonOf(await rightOf(storage.orders.load(order.pricedOrder.orderId)))).toEqual(jsonOf(O.some(second.amendedOrder)));
+    const listed = await rightOf(storage.orders.listByCustomerEmail(EmailAddress.unsafeCreate('ada@example.com')));
+    expect(listed.map(o => o.amountToBill.value.toDecimalString())).toEqual(['4.00']);
+    expect((await rightOf(storage.outbox.due(Number.MAX_SAFE_INTEGER))).map(m => m.messageId)).toEqual([
+      'order-1/OrderPlaced',
+      'order-1/BillableOrderPlaced',
+      'order-1/OrderAmended/2',
+      'order-1/OrderAmended/3',
+    ]);
+  });
+
+  it('does not amend an order which was never saved, nor publish the amendment', async () => {
+    const storage = await open();
+    const { order } = await placeOrder('order-1');
+    const { amendedOrder, amended } = amendedTo(order, '3.00');
+
+    const result = await storage.orders.amend(amendedOrder, amended, 2)();
+
+    expect(result).toEqual(E.left(new OrderNotFound(order.pricedOrder.orderId)));
+    expect(await rightOf(storage.orders.load(order.pricedOrder.orderId))).toEqual(O.none);
+    expect(await rightOf(storage.outbox.due(Number.MAX_SAFE_INTEGER))).toEqual([]);
+  });
+});
+
+describeStorage('the in-memory order storage', async () => createInMemoryOrderStorage());
+
+describe('the SQLite order storage', () => {
+  let dir: string;
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'orders-'));
+  });
+  afterEach(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  describeStorage('as a fresh file', () => rightOf(createSqliteOrderStorage(path.join(dir, 'orders.db'))));
+
+  it('keeps the orders and the outbox in the file, for the next process', async () => {
+    const filename = path.join(dir, 'orders.db');
+    const { order, events } = await placeOrder('order-1');
+    await rightOf((await rightOf(createSqliteOrderStorage(filename))).orders.save(order, events));
+
+    const reopened = await rightOf(createSqliteOrderStorage(filename));
+
+    expect(jsonOf(await rightOf(reopened.orders.load(order.pricedOrder.orderId)))).toEqual(jsonOf(O.some(order)));
+    expect(await rightOf(reopened.outbox.due(Number.MAX_SAFE_INTEGER))).toHaveLength(2);
+    expect(E.isLeft(await reopened.orders.save(order, events)())).toBe(true);
+  });
+
+  it('fails to open a file which is not a database', async () => {
+    const filename = path.join(dir, 'orders.db');
+    await fs.promises.writeFile(filename, 'not a database');
+
+    expect(E.isLeft(await createSqliteOrderStorage(filename)())).toBe(true);
+  });
+});
@@ -0,0 +1,314 @@
+// ======================================================
+// This file contains the adapters for the OrderRepository port
+//
+// Orders are kept as PricedOrderWithShippingInfoDtos rather than as domain objects,
+// so that every adapter round-trips through toDomain/fromDomain,
+// just as it would when loading from a database.
+//
+// The events saved with an order, or with an amendment of it, are kept in an outbox in the same storage,
+// so that saving both is a single transaction.
+// ======================================================
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import * as E from 'fp-ts/Either';
+import { flow, pipe } from 'fp-ts/function';
+import * as O from 'fp-ts/Option';
+import * as RA from 'fp-ts/ReadonlyArray';
+import * as TE from 'fp-ts/TaskEither';
+import initSqlJs from 'sql.js';
+import * as C from '../../libs/codec';
+import { OrderNotFound } from '../order/order';
+import { PricedOrderWithShippingInfoDto } from './dto';
+import { EventEnvelope } from './event-envelope';
+import { createInMemoryOutbox, OutboxMessage } from './outbox';
+import { OrderAlreadyPlaced, RemoteServiceError, ServiceInfo } from './public-types';
+
+import type { BindParams, Database, SqlJsStatic } from 'sql.js';
+import type { OrderRepository } from './implementation.types';
+import type { Outbox } from './outbox';
+import type { OrderAmended } from '../order/order';
+import type { PlaceOrderEvent, PricedOrderWithShippingInfo } from './public-types';
+
+/// The orders, and the outbox of the events which were saved with them
+export type OrderStorage = {
+  readonly orders: OrderRepository;
+  readonly outbox: Outbox;
+};
+
+// -------------------------------
+// helpers
+// -------------------------------
+
+const toError = (err: unknown): Error => err instanceof Error ? err : new Error(String(err));
+
+/// A stored order which is no longer valid is a failure of the store, not of the caller
+const toShippedOrder = (service: ServiceInfo) => (dto: PricedOrderWithShippingInfoDto): E.Either<RemoteServiceError, PricedOrderWithShippingInfo> => pipe(
+  dto.toDomain(),
+  E.mapLeft(err => new RemoteServiceError(service, err)),
+);
+
+const parse = (json: string): E.Either<Error, unknown> => E.tryCatch((): unknown => JSON.parse(json), toError);
+
+const decode = <T>(codec: C.Codec<T>) => flow(
+  codec.decode,
+  E.mapLeft(errors => new Error(errors.map(e => e.message).join('; '))),
+);
+
+// -------------------------------
+// in-memory adapter
+// -------------------------------
+
+/// The orders are kept for as long as the process runs. Meant for tests.
+export const createInMemoryOrderStorage = (): OrderStorage => {
+  const service = new ServiceInfo('InMemoryOrderRepository', new URL('memory:orders'));
+  const orders = new Map<string, PricedOrderWithShippingInfoDto>();
+  const outbox = createInMemoryOutbox();
+
+  return {
+    orders: {
+      save: (shippedOrder, events) => pipe(
+        // nothing can fail part way through, so this is as good as a transaction
+        TE.fromIOEither((): E.Either<OrderAlreadyPlaced, void> => {
+          const { orderId } = shippedOrder.pricedOrder;
+          if (orders.has(orderId.value)) {
+            return E.left(new OrderAlreadyPlaced(orderId));
+          }
+          orders.set(orderId.value, PricedOrderWithShippingInfoDto.fromDomain(shippedOrder));
+          return E.right(undefined);
+        }),
+        TE.flatMap(() => outbox.append(events.map(OutboxMessage.fromDomain(Date.now())))),
+      ),
+      amend: (shippedOrder, amended, version) => pipe(
+        TE.fromIOEither((): E.Either<OrderNotFound, void> => {
+          const { orderId } = shippedOrder.pricedOrder;
+          if (!orders.has(orderId.value)) {
+            return E.left(new OrderNotFound(orderId));
+          }
+          orders.set(orderId.value, PricedOrderWithShippingInfoDto.fromDomain(shippedOrder));
+          return E.right(undefined);
+        }),
+        TE.flatMap(() => outbox.append([OutboxMessage.fromAmendment(Date.now(), version)(amended)])),
+      ),
+      load: orderId => pipe(
+        O.fromNullable(orders.get(orderId.value)),
+        O.traverse(E.Applicative)(toShippedOrder(service)),
+        TE.fromEither,
+      ),
+      listByCustomerEmail: emailAddress => pipe(
+        Array.from(orders.values()),
+        RA.filter(dto => dto.pricedOrder.customerInfo.emailAddress === emailAddress.value),
+        E.traverseArray(toShippedOrder(service)),
+        TE.fromEither,
+      ),
+    },
+    outbox,
+  };
+};
+
+// -------------------------------
+// SQLite adapter
+// -------------------------------
+
+const schema = `
+  CREATE TABLE IF NOT EXISTS orders (
+    order_id TEXT PRIMARY KEY,
+    customer_email TEXT NOT NULL,
+    body TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS orders_by_customer_email ON orders (customer_email);
+  CREATE TABLE IF NOT EXISTS outbox (
+    message_id TEXT PRIMARY KEY,
+    event_type TEXT NOT NULL,
+    envelope TEXT NOT NULL,
+    attempts INTEGER NOT NULL,
+    next_attempt_at INTEGER NOT NULL
+  );
+`;
+
+/// Return the rows as objects keyed by column name
+const select = (db: Database, sql: string, params: BindParams): Record<string, unknown>[] => {
+  const statement = db.prepare(sql, params);
+  try {
+    const rows: Record<string, unknown>[] = [];
+    while (statement.step()) {
+      rows.push(statement.getAsObject());
+    }
+    return rows;
+  } finally {
+    statement.free();
+  }
+};
+
+const insertIntoOutbox = (db: Database) => (message: OutboxMessage) => db.run(
+  'INSERT OR IGNORE INTO outbox (message_id, event_type, envelope, attempts, next_attempt_at) VALUES (?, ?, ?, ?, ?)',
+  [
+    message.messageId,
+    message.envelope.eventType,
+    JSON.stringify(EventEnvelope.codec.encode(message.envelope)),
+    message.attempts,
+    message.nextAttemptAt,
+  ],
+);
+
+/// A change to the database, which can fail with an error of its own (e.g. a conflict),
+/// in which case nothing is changed
+type Change<Err> = (db: Database) => E.Either<Err, void>;
+
+/// The database is held in memory and written back to the file after every change.
+/// The changes and queries are run one at a time, so that the file always ends up with the latest change,
+/// and a change which cannot be written to the file is undone, so that it is not written with a later one.
+const connect = (SQL: SqlJsStatic, opened: Database, filename: string, toServiceError: (err: unknown) => RemoteServiceError) => {
+  let db = opened;
+  let written = db.export(); // what the file holds, or will hold when it is first written
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const inTurn = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = queue.then(task);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  /// The file is replaced rather than overwritten, so that a failed write leaves it as it was
+  const writeFile = async (contents: Uint8Array) => {
+    await fs.promises.writeFile(`${filename}.tmp`, contents);
+    await fs.promises.rename(`${filename}.tmp`, filename);
+  };
+
+  /// Make the change in a transaction, and then write the database to the file
+  const write = <Err>(change: Change<Err>): TE.TaskEither<Err | RemoteServiceError, void> => pipe(
+    TE.tryCatch(() => inTurn(async () => {
+      db.exec('BEGIN');
+      let changed: E.Either<Err, void>;
+      try {
+        changed = change(db);
+      } catch (err) {
+        db.exec('ROLLBACK');
+        throw err;
+      }
+      if (E.isLeft(changed)) {
+        db.exec('ROLLBACK');
+        return changed;
+      }
+      db.exec('COMMIT');
+      const contents = db.export();
+      try {
+        await writeFile(contents);
+      } catch (err) {
+        // go back to what the file holds
+        db.close();
+        db = new SQL.Database(written);
+        throw err;
+      }
+      written = contents;
+      return changed;
+    }), toServiceError),
+    TE.flatMapEither((changed): E.Either<Err | RemoteServiceError, void> => changed),
+  );
+
+  const read = <T>(query: (db: Database) => T) => TE.tryCatch(() => inTurn(async () => query(db)), toServiceError);
+
+  return { write, read };
+};
+
+/// Every change of the outbox is expected to succeed
+const always = (change: (db: Database) => void): Change<never> => db => E.right(change(db));
+
+/// The orders are kept in a SQLite database file, which is created if it does not exist.
+/// Only one process should use the file at a time.
+export const createSqliteOrderStorage = (filename: string): TE.TaskEither<RemoteServiceError, OrderStorage> => {
+  const service = new ServiceInfo('SqliteOrderRepository', pathToFileURL(path.resolve(filename)));
+  const toServiceError = flow(toError, err => new RemoteServiceError(service, err));
+
+  const open = TE.tryCatch(async () => {
+    const SQL = await initSqlJs();
+    const db = new SQL.Database(fs.existsSync(filename) ? await fs.promises.readFile(filename) : undefined);
+    db.exec(schema);
+    return connect(SQL, db, filename, toServiceError);
+  }, toServiceError);
+
+  const toStoredOrder = (row: Record<string, unknown>) => pipe(
+    parse(String(row.body)),
+    E.flatMap(decode(PricedOrderWithShippingInfoDto.codec)),
+    E.mapLeft(err => new RemoteServiceError(service, err)),
+    E.flatMap(toShippedOrder(service)),
+  );
+
+  const toOutboxMessage = (row: Record<string, unknown>) => pipe(
+    parse(String(row.envelope)),
+    E.map(envelope => ({
+      messageId: row.message_id,
+      envelope,
+      attempts: row.attempts,
+      nextAttemptAt: row.next_attempt_at,
+    })),
+    E.flatMap(decode(OutboxMessage.codec)),
+    E.mapLeft(err => new RemoteServiceError(service, err)),
+  );
+
+  /// An order which is already saved is not replaced, as its events have been published already
+  const insertOrder = (shippedOrder: PricedOrderWithShippingInfo, events: readonly PlaceOrderEvent[]): Change<OrderAlreadyPlaced> => db => {
+    const { orderId, customerInfo } = shippedOrder.pricedOrder;
+    if (select(db, 'SELECT 1 FROM orders WHERE order_id = ?', [orderId.value]).length > 0) {
+      return E.left(new OrderAlreadyPlaced(orderId));
+    }
+    db.run(
+      'INSERT INTO orders (order_id, customer_email, body) VALUES (?, ?, ?)',
+      [
+        orderId.value,
+        customerInfo.emailAddress.value,
+        pipe(shippedOrder, PricedOrderWithShippingInfoDto.fromDomain, PricedOrderWithShippingInfoDto.codec.encode, JSON.stringify),
+      ],
+    );
+    events.map(OutboxMessage.fromDomain(Date.now())).forEach(insertIntoOutbox(db));
+    return E.right(undefined);
+  };
+
+  /// Only an order which has been saved can be amended
+  const updateOrder = (shippedOrder: PricedOrderWithShippingInfo, amended: OrderAmended, version: number): Change<OrderNotFound> => db => {
+    const { orderId } = shippedOrder.pricedOrder;
+    if (select(db, 'SELECT 1 FROM orders WHERE order_id = ?', [orderId.value]).length === 0) {
+      return E.left(new OrderNotFound(orderId));
+    }
+    db.run(
+      'UPDATE orders SET body = ? WHERE order_id = ?',
+      [
+        pipe(shippedOrder, PricedOrderWithShippingInfoDto.fromDomain, PricedOrderWithShippingInfoDto.codec.encode, JSON.stringify),
+        orderId.value,
+      ],
+    );
+    insertIntoOutbox(db)(OutboxMessage.fromAmendment(Date.now(), version)(amended));
+    return E.right(undefined);
+  };
+
+  return pipe(
+    open,
+    TE.map(({ write, read }): OrderStorage => ({
+      orders: {
+        save: (shippedOrder, events) => write(insertOrder(shippedOrder, events)),
+        amend: (shippedOrder, amended, version) => write(updateOrder(shippedOrder, amended, version)),
+        load: orderId => pipe(
+          read(db => select(db, 'SELECT body FROM orders WHERE order_id = ?', [orderId.value])),
+          TE.flatMapEither(flow(RA.head, O.traverse(E.Applicative)(toStoredOrder))),
+        ),
+        listByCustomerEmail: emailAddress => pipe(
+          read(db => select(db, 'SELECT body FROM orders WHERE customer_email = ? ORDER BY order_id', [emailAddress.value])),
+          TE.flatMapEither(E.traverseArray(toStoredOrder)),
+        ),
+      },
+      outbox: {
+        append: messages => write(always(db => messages.forEach(insertIntoOutbox(db)))),
+        due: now => pipe(
+          read(db => select(db, 'SELECT * FROM outbox WHERE next_attempt_at <= ? ORDER BY rowid', [now])),
+          TE.flatMapEither(E.traverseArray(toOutboxMessage)),
+        ),
+        update: message => write(always(db => db.run(
+          'UPDATE outbox SET attempts = ?, next_attempt_at = ? WHERE message_id = ?',
+          [message.attempts, message.nextAttemptAt, message.messageId],
+        ))),
+        remove: messageId => write(always(db => db.run('DELETE FROM outbox WHERE message_id = ?', [messageId]))),
+      },
+    })),
+  );
+};
@@ -0,0 +1,195 @@
+// ======================================================
+// This file contains the outbox of the PlaceOrder events
+//
+// The events are put in the outbox in the same transaction as the order
+// (see SaveOrder), and are then delivered from it by the dispatcher,
+// so an event is never lost, nor published for an order which was not saved.
+// The acknowledgment is only sent after that, so it is put in the outbox on its own (see PublishEvents).
+// An amendment is put in the outbox in the same transaction as the amended order (see AmendOrder).
+// Messages which cannot be delivered are moved to a dead-letter store.
+// ======================================================
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import * as A from 'fp-ts/Array';
+import * as E from 'fp-ts/Either';
+import { flow, pipe } from 'fp-ts/function';
+import * as TE from 'fp-ts/TaskEither';
+import { match, P } from 'ts-pattern';
+import * as C from '../../libs/codec';
+import { ValueObject } from '../../libs/model-type';
+import { changeOrderEventDtoFromDomain } from '../change-order/dto';
+import { placeOrderEventDtoFromDomain } from './dto';
+import {
+  BillableOrderPlacedType,
+  EventEnvelope,
+  OrderAcknowledgmentSentType,
+  OrderAmendedType,
+  OrderPlacedType,
+  placeOrderEventSchemas,
+  sealEnvelope,
+} from './event-envelope';
+import { BillableOrderPlaced, OrderAcknowledgmentSent, OrderPlaced, RemoteServiceError, ServiceInfo } from './public-types';
+
+import type { OrderAmended } from '../order/order';
+import type { EventMetadata } from './event-envelope';
+import type { PublishEvents } from './implementation.types';
+import type { PlaceOrderEvent } from './public-types';
+
+// -------------------------------
+// messages
+// -------------------------------
+
+/// The message id is also the event id, and the events of an order are correlated by its OrderId
+const metadataOf = (messageId: string, now: number, event: PlaceOrderEvent | OrderAmended): EventMetadata => ({
+  eventId: messageId,
+  occurredAt: new Date(now).toISOString(),
+  correlationId: event.orderId.value,
+});
+
+export class OutboxMessage extends ValueObject {
+  constructor(
+    readonly messageId: string, // e.g. "<orderId>/OrderPlaced", or "<orderId>/OrderAmended/<version>" as an order can be amended many times
+    readonly envelope: EventEnvelope,
+    readonly attempts: number, // the number of failed deliveries so far
+    readonly nextAttemptAt: number, // in milliseconds since the epoch
+  ) { super() }
+
+  static readonly codec: C.Codec<OutboxMessage> = C.classOf(
+    OutboxMessage,
+    {
+      messageId: C.string,
+      envelope: EventEnvelope.codec,
+      attempts: C.number,
+      nextAttemptAt: C.number,
+    },
+    p => new OutboxMessage(p.messageId, p.envelope, p.attempts, p.nextAttemptAt),
+  );
+
+  /// A message for an event which has just happened, to be delivered as soon as possible
+  static fromDomain(now: number) {
+    return (event: PlaceOrderEvent): OutboxMessage => {
+      const eventType = match(event)
+        .with(P.instanceOf(OrderPlaced), () => OrderPlacedType)
+        .with(P.instanceOf(BillableOrderPlaced), () => BillableOrderPlacedType)
+        .with(P.instanceOf(OrderAcknowledgmentSent), () => OrderAcknowledgmentSentType)
+        .exhaustive();
+      const messageId = `${event.orderId.value}/${eventType}`;
+      const envelope = pipe(event, placeOrderEventDtoFromDomain, sealEnvelope(placeOrderEventSchemas)(metadataOf(messageId, now, event)));
+      return new OutboxMessage(messageId, envelope, 0, now);
+    };
+  }
+
+  /// A message for an amendment which has just been recorded at the given version of the order
+  static fromAmendment(now: number, version: number) {
+    return (event: OrderAmended): OutboxMessage => {
+      const messageId = `${event.orderId.value}/${OrderAmendedType}/${version}`;
+      const envelope = pipe(event, changeOrderEventDtoFromDomain, sealEnvelope(placeOrderEventSchemas)(metadataOf(messageId, now, event)));
+      return new OutboxMessage(messageId, envelope, 0, now);
+    };
+  }
+}
+
+/// The outbox is kept in the same storage as the orders, see createInMemoryOrderStorage
+export type Outbox = {
+  /// A message whose id is already in the outbox is ignored
+  readonly append: (messages: readonly OutboxMessage[]) => TE.TaskEither<RemoteServiceError, void>;
+  /// The messages whose next attempt is due, in the order they were appended
+  readonly due: (now: number) => TE.TaskEither<RemoteServiceError, readonly OutboxMessage[]>;
+  /// Replace the message with the same id, e.g. to record a failed attempt
+  readonly update: (message: OutboxMessage) => TE.TaskEither<RemoteServiceError, void>;
+  readonly remove: (messageId: string) => TE.TaskEither<RemoteServiceError, void>;
+};
+
+/// Keep the messages in memory, e.g. alongside in-memory orders
+export const createInMemoryOutbox = (): Outbox => {
+  const messages = new Map<string, OutboxMessage>();
+
+  return {
+    append: newMessages => TE.fromIO(() => {
+      newMessages
+        .filter(message => !messages.has(message.messageId))
+        .forEach(message => messages.set(message.messageId, message));
+    }),
+    due: now => TE.right(Array.from(messages.values()).filter(message => message.nextAttemptAt <= now)),
+    update: message => TE.fromIO(() => {
+      if (messages.has(message.messageId)) {
+        messages.set(message.messageId, message);
+      }
+    }),
+    remove: messageId => TE.fromIO(() => {
+      messages.delete(messageId);
+    }),
+  };
+};
+
+/// Publish the events which were not saved with their order, e.g. OrderAcknowledgmentSent, through the outbox
+export const publishThrough = (outbox: Outbox): PublishEvents => events =>
+  outbox.append(events.map(OutboxMessage.fromDomain(Date.now())));
+
+// -------------------------------
+// dead letters
+// -------------------------------
+
+/// A message which was given up on, and why
+export class DeadLetter extends ValueObject {
+  constructor(
+    readonly message: OutboxMessage,
+    readonly error: string, // the message of the last error
+    readonly failedAt: number, // in milliseconds since the epoch
+  ) { super() }
+
+  static readonly codec: C.Codec<DeadLetter> = C.classOf(
+    DeadLetter,
+    { message: OutboxMessage.codec, error: C.string, failedAt: C.number },
+    p => new DeadLetter(p.message, p.error, p.failedAt),
+  );
+}
+
+export type DeadLetterStore = {
+  readonly put: (deadLetter: DeadLetter) => TE.TaskEither<RemoteServiceError, void>;
+  readonly list: () => TE.TaskEither<RemoteServiceError, readonly DeadLetter[]>;
+};
+
+const toError = (err: unknown): Error => err instanceof Error ? err : new Error(String(err));
+
+/// The dead letters are kept for as long as the process runs
+export const createInMemoryDeadLetterStore = (): DeadLetterStore => {
+  const deadLetters: DeadLetter[] = [];
+
+  return {
+    put: deadLetter => TE.fromIO(() => {
+      deadLetters.push(deadLetter);
+    }),
+    list: () => TE.right([...deadLetters]),
+  };
+};
+
+/// The dead letters are appended to a file, one JSON document per line,
+/// so that they can be inspected and replayed by hand
+export const createFileDeadLetterStore = (filename: string): DeadLetterStore => {
+  const service = new ServiceInfo('FileDeadLetterStore', pathToFileURL(path.resolve(filename)));
+  const toServiceError = flow(toError, err => new RemoteServiceError(service, err));
+
+  const decodeLine = (line: string, index: number): E.Either<RemoteServiceError, DeadLetter> => pipe(
+    E.tryCatch((): unknown => JSON.parse(line), toError),
+    E.flatMap(flow(
+      DeadLetter.codec.decode,
+      E.mapLeft(errors => new Error(`line ${index + 1}: ${errors.map(e => e.message).join('; ')}`)),
+    )),
+    E.mapLeft(err => new RemoteServiceError(service, err)),
+  );
+
+  return {
+    put: deadLetter => TE.tryCatch(
+      () => fs.promises.appendFile(filename, JSON.stringify(DeadLetter.codec.encode(deadLetter)) + '\n'),
+      toServiceError,
+    ),
+    list: () => pipe(
+      TE.tryCatch(async () => fs.existsSync(filename) ? await fs.promises.readFile(filename, 'utf8') : '', toServiceError),
+      TE.map(text => text.split('\n').filter(line => line.trim() !== '')),
+      TE.flatMapEither(A.traverseWithIndex(E.Applicative)((index, line) => decodeLine(line, index))),
+    ),
+  };
+};
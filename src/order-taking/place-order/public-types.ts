@@ -2,7 +2,10 @@
 // rather than a module at the top level
 // namespace OrderTaking.PlaceOrder
 
+import { Either } from 'fp-ts/Either';
 import * as O from 'fp-ts/Option';
+import { NonEmptyArray } from 'fp-ts/NonEmptyArray';
+import { Task } from 'fp-ts/Task';
 import { TaskEither } from 'fp-ts/TaskEither';
 import { bound } from '../../libs/decorator';
 import { Entity, ValueObject } from '../../libs/model-type';
@@ -10,6 +13,8 @@ import { Entity, ValueObject } from '../../libs/model-type';
 import type {
   Address,
   BillingAmount,
+  CommentText,
+  Currency,
   CustomerInfo,
   EmailAddress,
   OrderId,
@@ -17,7 +22,10 @@ import type {
   OrderQuantity,
   Price,
   ProductCode,
+  PromotionCode,
 } from '../common-types';
+import type { ErrPrimitiveConstraints } from '../common-types/constrained-type';
+import type { DecodeError } from '../../libs/codec';
 
 // ==================================
 // This file contains the definitions of PUBLIC types (exposed at the boundary of the bounded context)
@@ -32,6 +40,7 @@ export class UnvalidatedCustomerInfo extends ValueObject {
     readonly firstName: string,
     readonly lastName: string,
     readonly emailAddress: string,
+    readonly vipStatus: string,
   ) { super() }
 }
 
@@ -46,7 +55,7 @@ export class UnvalidatedAddress extends ValueObject {
   ) { super() }
 }
 
-export class UnvalidatedOrderLine extends ValueObject {
+export class UnvalidatedProductLine extends ValueObject {
   constructor(
     readonly orderLineId: string,
     readonly productCode: string,
@@ -54,6 +63,16 @@ export class UnvalidatedOrderLine extends ValueObject {
   ) { super() }
 }
 
+/// A free-text line, such as a gift message or delivery instructions
+export class UnvalidatedCommentLine extends ValueObject {
+  constructor(
+    readonly orderLineId: string,
+    readonly comment: string,
+  ) { super() }
+}
+
+export type UnvalidatedOrderLine = UnvalidatedProductLine | UnvalidatedCommentLine;
+
 export class UnvalidatedOrder extends ValueObject {
   constructor(
     readonly orderId: string,
@@ -61,6 +80,8 @@ export class UnvalidatedOrder extends ValueObject {
     readonly shippingAddress: UnvalidatedAddress,
     readonly billingAddress: UnvalidatedAddress,
     readonly lines: UnvalidatedOrderLine[],
+    readonly currency: string, // the currency the customer wants to be billed in
+    readonly promotionCode: O.Option<string>,
   ) { super() }
 }
 
@@ -76,18 +97,34 @@ export class OrderAcknowledgmentSent extends ValueObject {
 }
 
 // priced state
-export class PricedOrderLine extends Entity<OrderLineId> {
+
+/// Orders are priced with the standard prices, unless a promotion applies
+declare const standard: unique symbol;
+export class Standard extends ValueObject {
+  [standard]!: never;
+}
+
+declare const promotion: unique symbol;
+export class Promotion extends ValueObject {
+  [promotion]!: never;
+  constructor(readonly promotionCode: PromotionCode) { super() }
+}
+
+export type PricingMethod = Standard | Promotion;
+
+export class PricedProductLine<C extends string = string> extends Entity<OrderLineId> {
   constructor(
     readonly orderLineId: OrderLineId,
     readonly productCode: ProductCode,
     readonly quantity: OrderQuantity,
-    readonly linePrice: Price,
+    readonly linePrice: Price<C>, // in the currency of the order
+    readonly lineTax: Price<C>, // the sales tax on the line price
   ) {
     super();
   }
 
-  isSameClass<PricedOrderLine>(obj: unknown): obj is PricedOrderLine {
-    return obj instanceof PricedOrderLine;
+  isSameClass<PricedProductLine>(obj: unknown): obj is PricedProductLine {
+    return obj instanceof PricedProductLine;
   }
 
   @bound
@@ -96,14 +133,39 @@ export class PricedOrderLine extends Entity<OrderLineId> {
   }
 }
 
+/// Comment lines have no price, so they are never billed
+export class PricedCommentLine extends Entity<OrderLineId> {
+  constructor(
+    readonly orderLineId: OrderLineId,
+    readonly comment: CommentText,
+  ) {
+    super();
+  }
+
+  isSameClass<PricedCommentLine>(obj: unknown): obj is PricedCommentLine {
+    return obj instanceof PricedCommentLine;
+  }
+
+  @bound
+  get id(): OrderLineId {
+    return this.orderLineId;
+  }
+}
+
+export type PricedOrderLine<C extends string = string> = PricedProductLine<C> | PricedCommentLine;
+
 export class PricedOrder extends Entity<OrderId> {
   constructor(
     readonly orderId: OrderId,
     readonly customerInfo: CustomerInfo,
     readonly shippingAddress: Address,
     readonly billingAddress: Address,
-    readonly amountToBill: BillingAmount,
+    readonly amountToBill: BillingAmount, // the priced lines plus their tax
     readonly lines: readonly PricedOrderLine[],
+    readonly currency: Currency,
+    readonly taxTotal: BillingAmount, // the sales tax of all the lines
+    readonly pricingMethod: PricingMethod, // the method actually used, which may not be the one asked for
+    readonly pricingNote: O.Option<string>, // why the order was not priced as asked, if it was not
   ) {
     super();
   }
@@ -118,6 +180,46 @@ export class PricedOrder extends Entity<OrderId> {
   }
 }
 
+// shipped state
+
+export const PostalService = 'PostalService' as const;
+export const Fedex24 = 'Fedex24' as const;
+export const Fedex48 = 'Fedex48' as const;
+export const Ups48 = 'Ups48' as const;
+export type ShippingMethod = typeof PostalService | typeof Fedex24 | typeof Fedex48 | typeof Ups48;
+
+export class ShippingInfo extends ValueObject {
+  constructor(
+    readonly shippingMethod: ShippingMethod,
+    readonly shippingCost: Price, // in the currency of the order
+  ) { super() }
+}
+
+/// The benefits which a VIP can be given
+export const FreeShipping = 'FreeShipping' as const;
+export const ExpressUpgrade = 'ExpressUpgrade' as const;
+export type VipBenefit = typeof FreeShipping | typeof ExpressUpgrade;
+
+export class PricedOrderWithShippingInfo extends Entity<OrderId> {
+  constructor(
+    readonly pricedOrder: PricedOrder,
+    readonly shippingInfo: ShippingInfo,
+    readonly amountToBill: BillingAmount, // the priced lines plus the shipping cost
+    readonly vipBenefits: readonly VipBenefit[], // the benefits already reflected in the shipping info
+  ) {
+    super();
+  }
+
+  isSameClass<PricedOrderWithShippingInfo>(obj: unknown): obj is PricedOrderWithShippingInfo {
+    return obj instanceof PricedOrderWithShippingInfo;
+  }
+
+  @bound
+  get id(): OrderId {
+    return this.pricedOrder.orderId;
+  }
+}
+
 /// Event to send to shipping context
 export class OrderPlaced extends ValueObject {
   constructor(
@@ -127,6 +229,12 @@ export class OrderPlaced extends ValueObject {
     readonly billingAddress: Address,
     readonly amountToBill: BillingAmount,
     readonly lines: readonly PricedOrderLine[],
+    readonly currency: Currency,
+    readonly taxTotal: BillingAmount, // included in amountToBill
+    readonly pricingMethod: PricingMethod,
+    readonly pricingNote: O.Option<string>,
+    readonly shippingInfo: ShippingInfo,
+    readonly vipBenefits: readonly VipBenefit[],
   ) { super() }
 }
 
@@ -137,6 +245,9 @@ export class BillableOrderPlaced extends ValueObject {
     readonly orderId: OrderId,
     readonly billingAddress: Address,
     readonly amountToBill: BillingAmount,
+    readonly currency: Currency,
+    readonly taxTotal: BillingAmount, // included in amountToBill
+    readonly shippingInfo: ShippingInfo,
   ) { super() }
 }
 
@@ -148,18 +259,63 @@ export type PlaceOrderEvent = OrderPlaced | BillableOrderPlaced | OrderAcknowled
 // error outputs
 
 /// All the things that can go wrong in this workflow
+
+/// The location of a field within the order form, e.g. ['lines', 3, 'quantity']
+export type FieldPath = readonly (string | number)[];
+
 declare const validationError: unique symbol;
 export class ValidationError extends Error {
   [validationError]!: never;
-  constructor(message: string) {
+  constructor(
+    message: string,
+    readonly path: FieldPath = [],
+    readonly constraint: O.Option<ErrPrimitiveConstraints> = O.none,
+    readonly rejectedValue: O.Option<string | number> = O.none,
+  ) {
     super(message);
   }
 
-  static from(e: Error): ValidationError {
-    return new ValidationError(e.message);
+  static from(e: ErrPrimitiveConstraints): ValidationError {
+    return new ValidationError(e.message, [], O.some(e), O.fromNullable(e.value));
+  }
+
+  /// The input did not even have the shape of an order form
+  static fromDecodeError(e: DecodeError): ValidationError {
+    return new ValidationError(
+      e.message,
+      e.path,
+      O.none,
+      typeof e.actual === 'string' || typeof e.actual === 'number' ? O.some(e.actual) : O.none,
+    );
+  }
+
+  /// Nest this error under the given field path
+  @bound
+  at(...segments: FieldPath): ValidationError {
+    return new ValidationError(this.message, [...segments, ...this.path], this.constraint, this.rejectedValue);
   }
 }
 
+/// All the validation failures found in an order, reported at once
+declare const validationErrors: unique symbol;
+export class ValidationErrors extends Error {
+  [validationErrors]!: never;
+  constructor(readonly errors: NonEmptyArray<ValidationError>) {
+    super(errors.map(e => e.message).join('; '));
+  }
+
+  static of(e: ValidationError): ValidationErrors {
+    return new ValidationErrors([e]);
+  }
+}
+
+/// The request body was not JSON, or did not have the shape of the form, so nothing in it could be validated.
+/// It is reported like the validation failures, but is the caller's mistake rather than the customer's.
+declare const malformedForm: unique symbol;
+export class MalformedForm extends ValidationErrors {
+  [malformedForm]!: never;
+}
+
 declare const pricingError: unique symbol;
 export class PricingError extends Error {
   [pricingError]!: never;
@@ -183,12 +339,39 @@ export class RemoteServiceError extends ValueObject {
   constructor(
     readonly service: ServiceInfo,
     readonly exception: Error,
+    // Some when the service is only temporarily unavailable and the request may be retried
+    readonly retryAfterSeconds: O.Option<number> = O.none,
   ) { super() }
 }
 
-export type PlaceOrderError = ValidationError | PricingError | RemoteServiceError;
+/// An order can only be placed once: placing another order with the same OrderId is a conflict
+declare const orderAlreadyPlaced: unique symbol;
+export class OrderAlreadyPlaced extends Error {
+  [orderAlreadyPlaced]!: never;
+  constructor(readonly orderId: OrderId) {
+    super(`order ${orderId.value} has already been placed`);
+  }
+}
+
+export type PlaceOrderError = ValidationErrors | PricingError | OrderAlreadyPlaced | RemoteServiceError;
 
 // ------------------------------------
 // the workflow itself
 
 export type PlaceOrder = (i: UnvalidatedOrder) => TaskEither<PlaceOrderError, PlaceOrderEvent[]>;
+
+// ------------------------------------
+// placing a batch of orders
+
+/// The result of each order of a batch, keyed by the OrderId of its order form,
+/// with the number of orders which were placed and which failed
+export class PlaceOrdersResult extends ValueObject {
+  constructor(
+    readonly results: ReadonlyMap<string, Either<PlaceOrderError, PlaceOrderEvent[]>>,
+    readonly succeeded: number,
+    readonly failed: number,
+  ) { super() }
+}
+
+/// The orders of a batch are placed side by side, and an order which fails does not stop the others
+export type PlaceOrders = (i: readonly UnvalidatedOrder[]) => Task<PlaceOrdersResult>;
@@ -0,0 +1,21 @@
+// ======================================================
+// This file starts the command-line tool which places orders
+//
+//   place-orders [--dry-run] [--orders-db <file>] [<order-form.json> | -]
+//
+// Without a file, the order forms are read from stdin as NDJSON (one order form per line).
+// The orders are kept in memory unless a SQLite database file is given with --orders-db.
+// With --dry-run, the orders are checked and priced, but they are not saved and no acknowledgment is sent.
+// ======================================================
+
+import { NotRun, runCli } from './cli';
+
+runCli(process.argv.slice(2), process).then(
+  exitCode => {
+    process.exitCode = exitCode;
+  },
+  err => {
+    console.error(err);
+    process.exitCode = NotRun;
+  },
+);
@@ -0,0 +1,122 @@
+// ======================================================
+// This file contains the anti-corruption layer between the OrderTaking context and the Shipping context
+//
+// The OrderPlaced event is the only thing the Shipping context knows about OrderTaking.
+// It is translated into the language of the Shipping context here, so that nothing else
+// in the Shipping context depends on how OrderTaking models an order.
+// Prices, taxes and the billing details are of no interest, and are dropped.
+// See "Anti-Corruption Layers" in chapter 3
+// ======================================================
+
+import * as A from 'fp-ts/Array';
+import * as E from 'fp-ts/Either';
+import { pipe } from 'fp-ts/function';
+import * as O from 'fp-ts/Option';
+import { isAlike } from '../order-taking/common-types/constrained-type';
+import { PricedCommentLineDto, PricedProductLineDto } from '../order-taking/place-order/dto';
+import { CarrierService, DeliveryAddress, GizmoLine, OrderToShip, WidgetLine } from './public-types';
+import {
+  AddressLine,
+  Economy,
+  Fedex,
+  GizmoCode,
+  Grams,
+  NextDay,
+  OrderReference,
+  PackingNote,
+  Postal,
+  RecipientName,
+  TwoDay,
+  UnitCount,
+  Ups,
+  WidgetCode,
+  ZipCode,
+} from './simple-types';
+
+import type { ErrPrimitiveConstraints } from '../order-taking/common-types/constrained-type';
+import type { AddressDto, CustomerInfoDto, OrderPlacedDto, ShippingInfoDto } from '../order-taking/place-order/dto';
+import type { ShippingMethod } from '../order-taking/place-order/public-types';
+import type { ShippableLine } from './public-types';
+
+/// The OrderPlaced event could not be understood, e.g. because OrderTaking has changed what it sends
+declare const untranslatableOrder: unique symbol;
+export class UntranslatableOrder extends Error {
+  [untranslatableOrder]!: never;
+  constructor(
+    readonly orderId: string,
+    readonly cause: ErrPrimitiveConstraints,
+  ) {
+    super(`OrderPlaced ${orderId} cannot be shipped: ${cause.message}`);
+  }
+}
+
+// -------------------------------
+// translations
+// -------------------------------
+
+/// The carrier and service level which each shipping method of OrderTaking stands for
+const carrierServices: Readonly<Record<ShippingMethod, CarrierService>> = {
+  PostalService: new CarrierService(Postal, Economy),
+  Fedex24: new CarrierService(Fedex, NextDay),
+  Fedex48: new CarrierService(Fedex, TwoDay),
+  Ups48: new CarrierService(Ups, TwoDay),
+};
+
+const toCarrierService = (shippingInfo: ShippingInfoDto): E.Either<ErrPrimitiveConstraints, CarrierService> => pipe(
+  isAlike(/^(PostalService|Fedex24|Fedex48|Ups48)$/)(shippingInfo.shippingMethod),
+  E.map(method => carrierServices[method as ShippingMethod]),
+);
+
+/// The label is addressed to the customer
+const toDeliveryAddress = (customer: CustomerInfoDto, address: AddressDto): E.Either<ErrPrimitiveConstraints, DeliveryAddress> => pipe(
+  E.Do,
+  E.bind('recipient', () => RecipientName.create(`${customer.firstName} ${customer.lastName}`)),
+  E.bind('lines', () => pipe(
+    [O.some(address.addressLine1), address.addressLine2, address.addressLine3, address.addressLine4],
+    A.compact,
+    E.traverseArray(AddressLine.create),
+  )),
+  E.bind('city', () => AddressLine.create(address.city)),
+  E.bind('zipCode', () => ZipCode.create(address.zipCode)),
+  E.map(scope => new DeliveryAddress(scope.recipient, scope.lines, scope.city, scope.zipCode)),
+);
+
+/// Widgets are counted, and gizmos are weighed in kilograms
+const toShippableLine = (line: PricedProductLineDto): E.Either<ErrPrimitiveConstraints, ShippableLine> =>
+  line.productCode.startsWith('G')
+    ? pipe(
+      E.Do,
+      E.bind('gizmoCode', () => GizmoCode.create(line.productCode)),
+      E.bind('weight', () => Grams.create(Math.round(line.quantity * 1000))),
+      E.map(scope => new GizmoLine(scope.gizmoCode, scope.weight)),
+    )
+    : pipe(
+      E.Do,
+      E.bind('widgetCode', () => WidgetCode.create(line.productCode)),
+      E.bind('units', () => UnitCount.create(line.quantity)),
+      E.map(scope => new WidgetLine(scope.widgetCode, scope.units)),
+    );
+
+/// The comment lines are packed with the order, e.g. as a gift message
+const toPackingNote = (line: PricedCommentLineDto): E.Either<ErrPrimitiveConstraints, PackingNote> => PackingNote.create(line.comment);
+
+// -------------------------------
+// the anti-corruption layer itself
+// -------------------------------
+
+export const toOrderToShip = (dto: OrderPlacedDto): E.Either<UntranslatableOrder, OrderToShip> => pipe(
+  E.Do,
+  E.bind('orderReference', () => OrderReference.create(dto.orderId)),
+  E.bind('address', () => toDeliveryAddress(dto.customerInfo, dto.shippingAddress)),
+  E.bind('service', () => toCarrierService(dto.shippingInfo)),
+  E.bind('lines', () => pipe(
+    dto.lines.filter((line): line is PricedProductLineDto => line instanceof PricedProductLineDto),
+    E.traverseArray(toShippableLine),
+  )),
+  E.bind('notes', () => pipe(
+    dto.lines.filter((line): line is PricedCommentLineDto => line instanceof PricedCommentLineDto),
+    E.traverseArray(toPackingNote),
+  )),
+  E.map(scope => new OrderToShip(scope.orderReference, scope.address, scope.service, scope.lines, scope.notes)),
+  E.mapLeft(err => new UntranslatableOrder(dto.orderId, err)),
+);
@@ -0,0 +1,117 @@
+import { describe, expect, it } from '@jest/globals';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import * as TE from 'fp-ts/TaskEither';
+import {
+  checkAddressExists,
+  checkProductExists,
+  createOrderAcknowledgmentLetter,
+  getExchangeRate,
+  getPricingFunction,
+  getShippingRateTable,
+  getTaxRateTable,
+  getWidgetWeight,
+  maxParcelWeight,
+  publishNothing,
+  saveNothing,
+  sendOrderAcknowledgment,
+} from '../composition-root';
+import { deserializeOrderForm, placeOrderFromForm } from '../order-taking/place-order/api';
+import { OrderPlacedDto } from '../order-taking/place-order/dto';
+import { OutboxMessage } from '../order-taking/place-order/outbox';
+import { OrderPlaced } from '../order-taking/place-order/public-types';
+import { createShipPlacedOrders } from './api';
+import { CarrierBookingFailed } from './public-types';
+import { Postal, TrackingNumber } from './simple-types';
+
+import type { ShipmentLog, ShippingDependencies } from './api';
+import type { BookCarrier, BookingRequest } from './implementation.types';
+
+const address = { addressLine1: '1 Main St', city: 'Springfield', zipCode: '94105' };
+
+/// The OrderPlaced event of an order, and its envelope, as they are delivered from the outbox
+const orderPlaced = async (orderId: string) => {
+  const orderForm = deserializeOrderForm(JSON.stringify({
+    orderId,
+    customerInfo: { firstName: 'Ada', lastName: 'Lovelace', emailAddress: 'ada@example.com', vipStatus: 'Normal' },
+    shippingAddress: address,
+    billingAddress: address,
+    lines: [
+      { orderLineId: 'line-1', productCode: 'W1234', quantity: 2 },
+      { orderLineId: 'line-2', productCode: 'G123', quantity: 1.5 },
+      { orderLineId: 'line-3', comment: 'a gift' },
+    ],
+    currency: 'USD',
+  }));
+  if (E.isLeft(orderForm)) throw orderForm.left;
+  const events = await placeOrderFromForm({
+    checkProductExists,
+    checkAddressExists,
+    getPricingFunction,
+    getExchangeRate,
+    getTaxRateTable,
+    getShippingRateTable,
+    saveOrder: saveNothing,
+    createOrderAcknowledgmentLetter,
+    sendOrderAcknowledgment,
+    publishEvents: publishNothing,
+  })(orderForm.right)();
+  if (E.isLeft(events)) throw events.left;
+  const placed = events.right.find((event): event is OrderPlaced => event instanceof OrderPlaced);
+  if (placed === undefined) throw new Error('no OrderPlaced event');
+  return { dto: OrderPlacedDto.fromDomain(placed), envelope: OutboxMessage.fromDomain(0)(placed).envelope };
+};
+
+/// A carrier which is booked for every request, and records it
+const bookingCarrier = (requests: BookingRequest[]): BookCarrier => request => TE.fromIO(() => {
+  requests.push(request);
+  return TrackingNumber.unsafeCreate(`TRACK-${requests.length}`);
+});
+
+const dependenciesWith = (bookCarrier: BookCarrier, shipments: ShipmentLog = new Map()): ShippingDependencies => ({
+  getWidgetWeight,
+  maxParcelWeight,
+  bookCarrier,
+  shipments,
+});
+
+describe('shipping placed orders', () => {
+  it('ships the products of an order, with its comments as packing notes, and logs the shipment', async () => {
+    const requests: BookingRequest[] = [];
+    const deps = dependenciesWith(bookingCarrier(requests));
+
+    const { dto, envelope } = await orderPlaced('order-1');
+
+    const result = await createShipPlacedOrders(deps)(dto, envelope)();
+
+    expect(result).toEqual(E.right(undefined));
+    expect(requests).toHaveLength(1);
+    const [{ ShipmentDispatched: dispatched }] = deps.shipments.get('order-1') ?? [];
+    expect(dispatched.trackingNumber).toBe('TRACK-1');
+    expect(dispatched.notes).toEqual(['a gift']);
+    expect(requests[0].parcels.map(parcel => parcel.weight.value)).toEqual([1_000, 1_500]);
+  });
+
+  it('does not ship an order again when its OrderPlaced event is delivered again', async () => {
+    const requests: BookingRequest[] = [];
+    const deps = dependenciesWith(bookingCarrier(requests));
+    const { dto, envelope } = await orderPlaced('order-1');
+
+    await createShipPlacedOrders(deps)(dto, envelope)();
+    await createShipPlacedOrders(deps)(dto, envelope)();
+
+    expect(requests).toHaveLength(1);
+  });
+
+  it('fails with the error of the carrier when it cannot be booked, so that the event is delivered again', async () => {
+    const error = new Error('no collection today');
+    const deps = dependenciesWith(() => TE.left(new CarrierBookingFailed(Postal, error, O.some(60))));
+
+    const { dto, envelope } = await orderPlaced('order-1');
+
+    const result = await createShipPlacedOrders(deps)(dto, envelope)();
+
+    expect(result).toEqual(E.left(error));
+    expect(deps.shipments.has('order-1')).toBe(false);
+  });
+});
@@ -0,0 +1,62 @@
+// ======================================================
+// This file contains the interface between the ShipOrder workflow and the OrderTaking context
+//
+// 1) The OrderPlaced event is translated by the anti-corruption layer into a Domain object
+// 2) The main workflow function is called
+// 3) The output is turned into DTOs which are published
+// ======================================================
+
+import * as A from 'fp-ts/Array';
+import { pipe } from 'fp-ts/function';
+import * as TE from 'fp-ts/TaskEither';
+import { toOrderToShip } from './anti-corruption-layer';
+import { shipOrderEventDtoFromDomain } from './dto';
+import { shipOrder } from './implementation';
+import { CarrierBookingFailed } from './public-types';
+
+import type { EventHandler } from '../order-taking/place-order/event-dispatcher';
+import type { OrderPlacedDto } from '../order-taking/place-order/dto';
+import type { BookCarrier, GetWidgetWeight } from './implementation.types';
+import type { ShipOrderEventDto } from './dto';
+import type { Grams } from './simple-types';
+
+// =============================
+// Implementation
+// =============================
+
+/// The events of each order which has been shipped, by order id
+export type ShipmentLog = Map<string, ShipOrderEventDto[]>;
+
+/// The dependencies of the ShipOrder workflow, and of the handler around it.
+/// They are set up once, at the composition root.
+export type ShippingDependencies = {
+  readonly getWidgetWeight: GetWidgetWeight;
+  readonly maxParcelWeight: Grams;
+  readonly bookCarrier: BookCarrier;
+  readonly shipments: ShipmentLog;
+};
+
+// -------------------------------
+// workflow
+// -------------------------------
+
+/// Ship each order which is placed, by handling the OrderPlaced events from the outbox.
+/// An order which was already shipped is not shipped again, as an event can be delivered more than once.
+export const createShipPlacedOrders = (deps: ShippingDependencies): EventHandler<OrderPlacedDto> => dto =>
+  deps.shipments.has(dto.orderId) ? TE.right(undefined) : pipe(
+    toOrderToShip(dto), // convert to domain object
+    TE.fromEither,
+    // now we are in the pure domain
+    TE.flatMap(shipOrder(
+      // setup the dependencies. See "Injecting Dependencies" in chapter 9
+      deps.getWidgetWeight,
+      deps.maxParcelWeight,
+      deps.bookCarrier,
+    )),
+    // now convert from the pure domain back to DTOs
+    TE.map(A.map(shipOrderEventDtoFromDomain)),
+    TE.flatMapIO(events => () => {
+      deps.shipments.set(dto.orderId, events);
+    }),
+    TE.mapLeft(err => err instanceof CarrierBookingFailed ? err.exception : err),
+  );
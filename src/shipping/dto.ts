@@ -0,0 +1,158 @@
+// ======================================================
+// This file contains the DTOs for the events of the ShipOrder workflow
+//
+// As in the OrderTaking context, each type of DTO is defined using primitive, serializable types
+// and there is a `fromDomain` function defined for each DTO.
+// The events only leave the Shipping context, so there is no `toDomain`.
+// ======================================================
+
+import * as O from 'fp-ts/Option';
+import { match, P } from 'ts-pattern';
+import * as C from '../libs/codec';
+import { ValueObject } from '../libs/model-type';
+import { GizmoParcel, PackedGizmos, PackedWidgets, WidgetParcel } from './public-types';
+
+import type { DeliveryAddress, Parcel, ShipmentDispatched, ShipOrderEvent } from './public-types';
+
+//===============================================
+// DTO for DeliveryAddress
+//===============================================
+
+export class DeliveryAddressDto extends ValueObject {
+  constructor(
+    readonly recipient: string,
+    readonly lines: string[],
+    readonly city: string,
+    readonly zipCode: string,
+  ) { super() }
+
+  static readonly codec: C.Codec<DeliveryAddressDto> = C.classOf(
+    DeliveryAddressDto,
+    { recipient: C.string, lines: C.array(C.string), city: C.string, zipCode: C.string },
+    p => new DeliveryAddressDto(p.recipient, p.lines, p.city, p.zipCode),
+  );
+
+  /// Convert a DeliveryAddress object into the corresponding DTO.
+  /// Used when exporting from the domain to the outside world.
+  static fromDomain(domainObj: DeliveryAddress): DeliveryAddressDto {
+    return new DeliveryAddressDto(
+      domainObj.recipient.value,
+      domainObj.lines.map(line => line.value),
+      domainObj.city.value,
+      domainObj.zipCode.value,
+    );
+  }
+}
+
+//===============================================
+// DTO for Parcel
+//===============================================
+
+export class PackedItemDto extends ValueObject {
+  constructor(
+    readonly productCode: string,
+    readonly units: O.Option<number>, // null for gizmos, which are weighed rather than counted
+    readonly weightGrams: number,
+  ) { super() }
+
+  static readonly codec: C.Codec<PackedItemDto> = C.classOf(
+    PackedItemDto,
+    { productCode: C.string, units: C.optionFromNullable(C.number), weightGrams: C.number },
+    p => new PackedItemDto(p.productCode, p.units, p.weightGrams),
+  );
+
+  /// Convert a packed item into the corresponding DTO.
+  /// Used when exporting from the domain to the outside world.
+  static fromDomain(domainObj: PackedWidgets | PackedGizmos): PackedItemDto {
+    return match(domainObj)
+      .with(P.instanceOf(PackedWidgets), item =>
+        new PackedItemDto(item.widgetCode.value, O.some(item.units.value), item.weight.value))
+      .with(P.instanceOf(PackedGizmos), item => new PackedItemDto(item.gizmoCode.value, O.none, item.weight.value))
+      .exhaustive();
+  }
+}
+
+export class ParcelDto extends ValueObject {
+  constructor(
+    readonly kind: string, // "Widgets" or "Gizmos"
+    readonly contents: PackedItemDto[],
+    readonly weightGrams: number,
+  ) { super() }
+
+  static readonly codec: C.Codec<ParcelDto> = C.classOf(
+    ParcelDto,
+    { kind: C.string, contents: C.array(PackedItemDto.codec), weightGrams: C.number },
+    p => new ParcelDto(p.kind, p.contents, p.weightGrams),
+  );
+
+  /// Convert a Parcel object into the corresponding DTO.
+  /// Used when exporting from the domain to the outside world.
+  static fromDomain(domainObj: Parcel): ParcelDto {
+    return match(domainObj)
+      .with(P.instanceOf(WidgetParcel), parcel =>
+        new ParcelDto('Widgets', parcel.contents.map(PackedItemDto.fromDomain), parcel.weight.value))
+      .with(P.instanceOf(GizmoParcel), parcel =>
+        new ParcelDto('Gizmos', parcel.contents.map(PackedItemDto.fromDomain), parcel.weight.value))
+      .exhaustive();
+  }
+}
+
+//===============================================
+// DTO for ShipmentDispatched event
+//===============================================
+
+/// Event to send to the OrderTaking context, and to the customer
+export class ShipmentDispatchedDto extends ValueObject {
+  constructor(
+    readonly orderId: string,
+    readonly address: DeliveryAddressDto,
+    readonly carrier: string, // e.g. "Fedex"
+    readonly serviceLevel: string, // e.g. "NextDay"
+    readonly trackingNumber: string,
+    readonly parcels: ParcelDto[],
+    readonly notes: string[],
+  ) { super() }
+
+  static readonly codec: C.Codec<ShipmentDispatchedDto> = C.classOf(
+    ShipmentDispatchedDto,
+    {
+      orderId: C.string,
+      address: DeliveryAddressDto.codec,
+      carrier: C.string,
+      serviceLevel: C.string,
+      trackingNumber: C.string,
+      parcels: C.array(ParcelDto.codec),
+      notes: C.array(C.string),
+    },
+    p => new ShipmentDispatchedDto(p.orderId, p.address, p.carrier, p.serviceLevel, p.trackingNumber, p.parcels, p.notes),
+  );
+
+  /// Convert a ShipmentDispatched object into the corresponding DTO.
+  /// Used when exporting from the domain to the outside world.
+  static fromDomain(domainObj: ShipmentDispatched): ShipmentDispatchedDto {
+    return new ShipmentDispatchedDto(
+      domainObj.orderReference.value,
+      DeliveryAddressDto.fromDomain(domainObj.address),
+      domainObj.service.carrier,
+      domainObj.service.serviceLevel,
+      domainObj.trackingNumber.value,
+      domainObj.parcels.map(ParcelDto.fromDomain),
+      domainObj.notes.map(note => note.value),
+    );
+  }
+}
+
+//===============================================
+// DTO for ShipOrderEvent
+//===============================================
+
+/// Use a dictionary representation of a ShipOrderEvent, suitable for JSON
+/// See "Serializing Records and Choice Types Using Maps" in chapter 11
+export type ShipOrderEventDto = { ShipmentDispatched: ShipmentDispatchedDto };
+
+export const shipOrderEventDtoCodec: C.Codec<ShipOrderEventDto> = C.struct({ ShipmentDispatched: ShipmentDispatchedDto.codec });
+
+/// Convert a ShipOrderEvent into the corresponding DTO.
+/// Used when exporting from the domain to the outside world.
+export const shipOrderEventDtoFromDomain = (domainObj: ShipOrderEvent): ShipOrderEventDto =>
+  ({ ShipmentDispatched: ShipmentDispatchedDto.fromDomain(domainObj) });
@@ -0,0 +1,141 @@
+import { describe, expect, it } from '@jest/globals';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import * as TE from 'fp-ts/TaskEither';
+import { shipOrder } from './implementation';
+import {
+  CarrierBookingFailed,
+  CarrierService,
+  DeliveryAddress,
+  GizmoLine,
+  GizmoParcel,
+  NothingToShip,
+  OrderToShip,
+  WidgetLine,
+  WidgetNotShippable,
+  WidgetParcel,
+  WidgetTooHeavy,
+} from './public-types';
+import {
+  AddressLine,
+  Economy,
+  GizmoCode,
+  Grams,
+  OrderReference,
+  PackingNote,
+  Postal,
+  RecipientName,
+  TrackingNumber,
+  UnitCount,
+  WidgetCode,
+  ZipCode,
+} from './simple-types';
+
+import type { BookCarrier, BookingRequest, GetWidgetWeight } from './implementation.types';
+import type { Parcel, ShippableLine, ShipOrderError, ShipOrderEvent } from './public-types';
+
+const address = new DeliveryAddress(
+  RecipientName.unsafeCreate('Ada Lovelace'),
+  [AddressLine.unsafeCreate('1 Main St')],
+  AddressLine.unsafeCreate('Springfield'),
+  ZipCode.unsafeCreate('94105'),
+);
+
+const orderOf = (...lines: ShippableLine[]) => new OrderToShip(
+  OrderReference.unsafeCreate('order-1'),
+  address,
+  new CarrierService(Postal, Economy),
+  lines,
+  [PackingNote.unsafeCreate('a gift')],
+);
+
+const widgets = (code: string, units: number) => new WidgetLine(WidgetCode.unsafeCreate(code), UnitCount.unsafeCreate(units));
+const gizmos = (code: string, grams: number) => new GizmoLine(GizmoCode.unsafeCreate(code), Grams.unsafeCreate(grams));
+
+/// Every widget weighs 300g, except W9999 which has never been weighed
+const getWidgetWeight: GetWidgetWeight = widgetCode => widgetCode.value === 'W9999' ? O.none : O.some(Grams.unsafeCreate(300));
+
+const maxParcelWeight = Grams.unsafeCreate(1_000);
+
+/// A carrier which is booked for every request, and records it
+const bookingCarrier = (requests: BookingRequest[]): BookCarrier => request => TE.fromIO(() => {
+  requests.push(request);
+  return TrackingNumber.unsafeCreate(`TRACK-${requests.length}`);
+});
+
+const eventsOf = async (result: Promise<E.Either<ShipOrderError, ShipOrderEvent[]>>) => {
+  const events = await result;
+  if (E.isLeft(events)) throw events.left;
+  return events.right;
+};
+
+/// What is in each parcel, e.g. "W1234 x3" or "G123 1000g"
+const contentsOf = (parcels: readonly Parcel[]) => parcels.map(parcel => parcel instanceof WidgetParcel
+  ? parcel.contents.map(item => `${item.widgetCode.value} x${item.units.value}`)
+  : parcel.contents.map(item => `${item.gizmoCode.value} ${item.weight.value}g`));
+
+describe('shipOrder', () => {
+  it('books the carrier for the parcels, and reports the shipment with the tracking number', async () => {
+    const requests: BookingRequest[] = [];
+
+    const [dispatched] = await eventsOf(shipOrder(getWidgetWeight, maxParcelWeight, bookingCarrier(requests))(orderOf(widgets('W1234', 2)))());
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].parcels).toEqual(dispatched.parcels);
+    expect(dispatched.trackingNumber.value).toBe('TRACK-1');
+    expect(dispatched.notes.map(note => note.value)).toEqual(['a gift']);
+    expect(contentsOf(dispatched.parcels)).toEqual([['W1234 x2']]);
+  });
+
+  it('splits widgets between parcels in whole units, so that no parcel is heavier than the maximum', async () => {
+    const [dispatched] = await eventsOf(shipOrder(getWidgetWeight, maxParcelWeight, bookingCarrier([]))(orderOf(
+      widgets('W5678', 2),
+      widgets('W1234', 5),
+    ))());
+
+    expect(contentsOf(dispatched.parcels)).toEqual([['W1234 x3'], ['W1234 x2', 'W5678 x1'], ['W5678 x1']]);
+    expect(dispatched.parcels.map(parcel => parcel.weight.value)).toEqual([900, 900, 300]);
+  });
+
+  it('splits gizmos between parcels anywhere, and never packs them with widgets', async () => {
+    const [dispatched] = await eventsOf(shipOrder(getWidgetWeight, maxParcelWeight, bookingCarrier([]))(orderOf(
+      gizmos('G123', 2_500),
+      widgets('W1234', 1),
+    ))());
+
+    expect(dispatched.parcels.map(parcel => parcel.constructor)).toEqual([WidgetParcel, GizmoParcel, GizmoParcel, GizmoParcel]);
+    expect(contentsOf(dispatched.parcels)).toEqual([['W1234 x1'], ['G123 1000g'], ['G123 1000g'], ['G123 500g']]);
+  });
+
+  it('does not book the carrier for a widget which has never been weighed', async () => {
+    const requests: BookingRequest[] = [];
+
+    const result = await shipOrder(getWidgetWeight, maxParcelWeight, bookingCarrier(requests))(orderOf(widgets('W1234', 1), widgets('W9999', 1)))();
+
+    expect(result).toEqual(E.left(new WidgetNotShippable(WidgetCode.unsafeCreate('W9999'))));
+    expect(requests).toHaveLength(0);
+  });
+
+  it('does not book the carrier for a widget which is heavier than a parcel can be', async () => {
+    const requests: BookingRequest[] = [];
+
+    const result = await shipOrder(getWidgetWeight, Grams.unsafeCreate(250), bookingCarrier(requests))(orderOf(widgets('W1234', 1)))();
+
+    expect(result).toEqual(E.left(new WidgetTooHeavy(WidgetCode.unsafeCreate('W1234'), Grams.unsafeCreate(300), Grams.unsafeCreate(250))));
+    expect(requests).toHaveLength(0);
+  });
+
+  it('does not book the carrier for an order which has nothing to ship', async () => {
+    const result = await shipOrder(getWidgetWeight, maxParcelWeight, bookingCarrier([]))(orderOf())();
+
+    expect(E.isLeft(result) && result.left).toBeInstanceOf(NothingToShip);
+  });
+
+  it('fails as the carrier did when it cannot be booked', async () => {
+    const failed = new CarrierBookingFailed(Postal, new Error('no collection today'), O.some(60));
+
+    const result = await shipOrder(getWidgetWeight, maxParcelWeight, () => TE.left(failed))(orderOf(widgets('W1234', 1)))();
+
+    expect(result).toEqual(E.left(failed));
+  });
+});
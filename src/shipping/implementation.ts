@@ -0,0 +1,140 @@
+import * as A from 'fp-ts/Array';
+import * as E from 'fp-ts/Either';
+import { pipe } from 'fp-ts/function';
+import * as NA from 'fp-ts/NonEmptyArray';
+import * as O from 'fp-ts/Option';
+import * as Ord from 'fp-ts/Ord';
+import * as RA from 'fp-ts/ReadonlyArray';
+import * as S from 'fp-ts/string';
+import * as TE from 'fp-ts/TaskEither';
+import { BookingRequest } from './implementation.types';
+import {
+  GizmoLine,
+  GizmoParcel,
+  NothingToShip,
+  PackedGizmos,
+  PackedWidgets,
+  ShipmentDispatched,
+  WidgetLine,
+  WidgetNotShippable,
+  WidgetParcel,
+  WidgetTooHeavy,
+} from './public-types';
+import { Grams, UnitCount } from './simple-types';
+
+import type { BookCarrier, GetWidgetWeight, PackParcels } from './implementation.types';
+import type { ShipOrder, ShippableLine } from './public-types';
+
+// ======================================================
+// This file contains the implementation for the ShipOrder workflow
+//
+// The order has already been translated into the language of the Shipping context,
+// see the anti-corruption layer.
+// ======================================================
+
+// ---------------------------
+// PackParcels step
+// ---------------------------
+
+type Packed = { readonly weight: Grams };
+
+/// Split an item into the part which fits in the given number of grams, if any, and the rest, if any
+type SplitToFit<I extends Packed> = (item: I, space: number) => readonly [O.Option<I>, O.Option<I>];
+
+const weightOf = (items: readonly Packed[]): number => items.reduce((sum, item) => sum + item.weight.value, 0);
+
+/// Widgets are only split between whole units
+const splitWidgets: SplitToFit<PackedWidgets> = (item, space) => {
+  const unitWeight = item.weight.value / item.units.value;
+  const fitting = Math.min(item.units.value, Math.floor(space / unitWeight));
+  const part = (units: number) => units > 0
+    ? O.some(new PackedWidgets(item.widgetCode, UnitCount.unsafeCreate(units), Grams.unsafeCreate(units * unitWeight)))
+    : O.none;
+  return [part(fitting), part(item.units.value - fitting)];
+};
+
+/// Gizmos are sold by weight, so they can be split anywhere
+const splitGizmos: SplitToFit<PackedGizmos> = (item, space) => {
+  const fitting = Math.min(item.weight.value, space);
+  const part = (grams: number) => grams > 0 ? O.some(new PackedGizmos(item.gizmoCode, Grams.unsafeCreate(grams))) : O.none;
+  return [part(fitting), part(item.weight.value - fitting)];
+};
+
+/// Add as much of the item as fits to the last parcel, and the rest to new parcels.
+/// Some of every item must fit in an empty parcel, otherwise new parcels are added forever.
+const addToParcels = <I extends Packed>(split: SplitToFit<I>, maxWeight: Grams) =>
+  (parcels: NA.NonEmptyArray<readonly I[]>, item: I): NA.NonEmptyArray<readonly I[]> => {
+    const open = NA.last(parcels);
+    const [fits, rest] = split(item, maxWeight.value - weightOf(open));
+    const packed = pipe(fits, O.match(() => parcels, part => pipe(NA.init(parcels), A.append([...open, part]))));
+    return pipe(rest, O.match(() => packed, more => addToParcels(split, maxWeight)(pipe(packed, A.append<readonly I[]>([])), more)));
+  };
+
+/// Pack the items in order, so that the items with the same code are kept together
+const packItems = <I extends Packed>(split: SplitToFit<I>, maxWeight: Grams, byCode: Ord.Ord<I>) => (items: readonly I[]): (readonly I[])[] => pipe(
+  items,
+  RA.sort(byCode),
+  RA.reduce(NA.of<readonly I[]>([]), addToParcels(split, maxWeight)),
+  A.filter(parcel => parcel.length > 0),
+);
+
+const byWidgetCode: Ord.Ord<PackedWidgets> = pipe(S.Ord, Ord.contramap(item => item.widgetCode.value));
+const byGizmoCode: Ord.Ord<PackedGizmos> = pipe(S.Ord, Ord.contramap(item => item.gizmoCode.value));
+
+const isWidgetLine = (line: ShippableLine): line is WidgetLine => line instanceof WidgetLine;
+const isGizmoLine = (line: ShippableLine): line is GizmoLine => line instanceof GizmoLine;
+
+/// Weigh the widgets of the line, checking that a single widget fits in a parcel
+const toPackedWidgets = (getWidgetWeight: GetWidgetWeight, maxWeight: Grams) =>
+  (line: WidgetLine): E.Either<WidgetNotShippable | WidgetTooHeavy, PackedWidgets> => pipe(
+    getWidgetWeight(line.widgetCode),
+    E.fromOption(() => new WidgetNotShippable(line.widgetCode)),
+    E.filterOrElseW(
+      unitWeight => unitWeight.value <= maxWeight.value,
+      unitWeight => new WidgetTooHeavy(line.widgetCode, unitWeight, maxWeight),
+    ),
+    E.map(unitWeight => new PackedWidgets(line.widgetCode, line.units, Grams.unsafeCreate(unitWeight.value * line.units.value))),
+  );
+
+const toPackedGizmos = (line: GizmoLine): PackedGizmos => new PackedGizmos(line.gizmoCode, line.weight);
+
+const packParcels: PackParcels = (getWidgetWeight, maxWeight) => order => pipe(
+  order.lines,
+  E.fromPredicate(RA.isNonEmpty, () => new NothingToShip(order.orderReference)),
+  E.flatMap(lines => pipe(
+    lines.filter(isWidgetLine),
+    E.traverseArray(toPackedWidgets(getWidgetWeight, maxWeight)),
+    E.map(widgets => [
+      ...pipe(
+        widgets,
+        packItems(splitWidgets, maxWeight, byWidgetCode),
+        A.map(contents => new WidgetParcel(contents, Grams.unsafeCreate(weightOf(contents)))),
+      ),
+      ...pipe(
+        lines.filter(isGizmoLine),
+        RA.map(toPackedGizmos),
+        packItems(splitGizmos, maxWeight, byGizmoCode),
+        A.map(contents => new GizmoParcel(contents, Grams.unsafeCreate(weightOf(contents)))),
+      ),
+    ]),
+  )),
+);
+
+// ---------------------------
+// overall workflow
+// ---------------------------
+
+export const shipOrder = (
+  getWidgetWeight: GetWidgetWeight, // dependency
+  maxParcelWeight: Grams, // dependency
+  bookCarrier: BookCarrier, // dependency
+): ShipOrder => order => pipe(
+  packParcels(getWidgetWeight, maxParcelWeight)(order),
+  TE.fromEither,
+  TE.flatMap(parcels => pipe(
+    bookCarrier(new BookingRequest(order.orderReference, order.address, order.service, parcels)),
+    TE.map(trackingNumber => [
+      new ShipmentDispatched(order.orderReference, order.address, order.service, trackingNumber, parcels, order.notes),
+    ]),
+  )),
+);
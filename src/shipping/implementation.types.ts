@@ -0,0 +1,53 @@
+import { ValueObject } from '../libs/model-type';
+
+import type * as E from 'fp-ts/Either';
+import type { Option } from 'fp-ts/Option';
+import type * as TE from 'fp-ts/TaskEither';
+import type {
+  CarrierBookingFailed,
+  CarrierService,
+  DeliveryAddress,
+  NothingToShip,
+  OrderToShip,
+  Parcel,
+  WidgetNotShippable,
+  WidgetTooHeavy,
+} from './public-types';
+import type { Grams, OrderReference, TrackingNumber, WidgetCode } from './simple-types';
+
+// ======================================================
+// Define each step in the ShipOrder workflow using types
+// ======================================================
+
+// ---------------------------
+// Pack parcels step
+// ---------------------------
+
+/// Return None if the widget has never been weighed
+export type GetWidgetWeight = (i: WidgetCode) => Option<Grams>;
+
+/// Widgets and gizmos are packed in separate parcels, none heavier than the maximum weight.
+/// A line which does not fit in what is left of a parcel is split across parcels.
+export type PackParcels = (
+  dep1: GetWidgetWeight, // dependency
+  dep2: Grams, // the maximum weight of a parcel
+) => (
+  i: OrderToShip, // input
+) => E.Either<NothingToShip | WidgetNotShippable | WidgetTooHeavy, Parcel[]>; // output
+
+// ---------------------------
+// Book carrier step
+// ---------------------------
+
+/// What the carrier is asked to collect and deliver
+export class BookingRequest extends ValueObject {
+  constructor(
+    readonly orderReference: OrderReference, // printed on the labels
+    readonly address: DeliveryAddress,
+    readonly service: CarrierService,
+    readonly parcels: readonly Parcel[],
+  ) { super() }
+}
+
+/// Return the tracking number of the shipment
+export type BookCarrier = (i: BookingRequest) => TE.TaskEither<CarrierBookingFailed, TrackingNumber>;
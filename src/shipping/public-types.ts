@@ -0,0 +1,189 @@
+import * as O from 'fp-ts/Option';
+import { TaskEither } from 'fp-ts/TaskEither';
+import { ValueObject } from '../libs/model-type';
+
+import type {
+  AddressLine,
+  Carrier,
+  GizmoCode,
+  Grams,
+  OrderReference,
+  PackingNote,
+  RecipientName,
+  ServiceLevel,
+  TrackingNumber,
+  UnitCount,
+  WidgetCode,
+  ZipCode,
+} from './simple-types';
+
+// ==================================
+// This file contains the definitions of PUBLIC types (exposed at the boundary of the bounded context)
+// related to the ShipOrder workflow
+// ==================================
+
+// ------------------------------------
+// inputs to the workflow
+
+/// Where to deliver the packages, and who to
+export class DeliveryAddress extends ValueObject {
+  constructor(
+    readonly recipient: RecipientName,
+    readonly lines: readonly AddressLine[], // the street address, at least one line
+    readonly city: AddressLine,
+    readonly zipCode: ZipCode,
+  ) { super() }
+}
+
+/// Which carrier delivers the packages, and how quickly
+export class CarrierService extends ValueObject {
+  constructor(
+    readonly carrier: Carrier,
+    readonly serviceLevel: ServiceLevel,
+  ) { super() }
+}
+
+declare const widgetLine: unique symbol;
+export class WidgetLine extends ValueObject {
+  [widgetLine]!: never;
+  constructor(
+    readonly widgetCode: WidgetCode,
+    readonly units: UnitCount,
+  ) { super() }
+}
+
+declare const gizmoLine: unique symbol;
+export class GizmoLine extends ValueObject {
+  [gizmoLine]!: never;
+  constructor(
+    readonly gizmoCode: GizmoCode,
+    readonly weight: Grams, // gizmos are sold by weight
+  ) { super() }
+}
+
+/// The things in an order which have to be shipped
+export type ShippableLine = WidgetLine | GizmoLine;
+
+/// An order as the Shipping context sees it.
+/// It is translated from the OrderPlaced event, see the anti-corruption layer.
+export class OrderToShip extends ValueObject {
+  constructor(
+    readonly orderReference: OrderReference,
+    readonly address: DeliveryAddress,
+    readonly service: CarrierService,
+    readonly lines: readonly ShippableLine[],
+    readonly notes: readonly PackingNote[], // to put in the first package
+  ) { super() }
+}
+
+// ------------------------------------
+// outputs from the workflow (success case)
+
+/// Some (maybe all) of the units of a widget line
+declare const packedWidgets: unique symbol;
+export class PackedWidgets extends ValueObject {
+  [packedWidgets]!: never;
+  constructor(
+    readonly widgetCode: WidgetCode,
+    readonly units: UnitCount,
+    readonly weight: Grams,
+  ) { super() }
+}
+
+/// Some (maybe all) of the weight of a gizmo line
+declare const packedGizmos: unique symbol;
+export class PackedGizmos extends ValueObject {
+  [packedGizmos]!: never;
+  constructor(
+    readonly gizmoCode: GizmoCode,
+    readonly weight: Grams,
+  ) { super() }
+}
+
+/// Widgets and gizmos are handled differently, so they are never packed together
+declare const widgetParcel: unique symbol;
+export class WidgetParcel extends ValueObject {
+  [widgetParcel]!: never;
+  constructor(
+    readonly contents: readonly PackedWidgets[],
+    readonly weight: Grams,
+  ) { super() }
+}
+
+declare const gizmoParcel: unique symbol;
+export class GizmoParcel extends ValueObject {
+  [gizmoParcel]!: never;
+  constructor(
+    readonly contents: readonly PackedGizmos[],
+    readonly weight: Grams,
+  ) { super() }
+}
+
+export type Parcel = WidgetParcel | GizmoParcel;
+
+/// Event to send to the OrderTaking context, and to the customer
+export class ShipmentDispatched extends ValueObject {
+  constructor(
+    readonly orderReference: OrderReference,
+    readonly address: DeliveryAddress,
+    readonly service: CarrierService,
+    readonly trackingNumber: TrackingNumber,
+    readonly parcels: readonly Parcel[],
+    readonly notes: readonly PackingNote[],
+  ) { super() }
+}
+
+/// The possible events resulting from the ShipOrder workflow
+export type ShipOrderEvent = ShipmentDispatched;
+
+// ------------------------------------
+// error outputs
+
+/// The order has only comment lines
+declare const nothingToShip: unique symbol;
+export class NothingToShip extends Error {
+  [nothingToShip]!: never;
+  constructor(readonly orderReference: OrderReference) {
+    super(`order ${orderReference.value} has nothing to ship`);
+  }
+}
+
+/// The weight of the widget is not known, so it cannot be packed
+declare const widgetNotShippable: unique symbol;
+export class WidgetNotShippable extends Error {
+  [widgetNotShippable]!: never;
+  constructor(readonly widgetCode: WidgetCode) {
+    super(`the weight of widget ${widgetCode.value} is not known`);
+  }
+}
+
+/// A single widget is heavier than a parcel can be
+declare const widgetTooHeavy: unique symbol;
+export class WidgetTooHeavy extends Error {
+  [widgetTooHeavy]!: never;
+  constructor(
+    readonly widgetCode: WidgetCode,
+    readonly unitWeight: Grams,
+    readonly maxParcelWeight: Grams,
+  ) {
+    super(`widget ${widgetCode.value} weighs ${unitWeight.value}g, but a parcel can weigh at most ${maxParcelWeight.value}g`);
+  }
+}
+
+/// The carrier could not be booked
+export class CarrierBookingFailed extends ValueObject {
+  constructor(
+    readonly carrier: Carrier,
+    readonly exception: Error,
+    // Some when the carrier is only temporarily unavailable and the booking may be retried
+    readonly retryAfterSeconds: O.Option<number> = O.none,
+  ) { super() }
+}
+
+/// All the things that can go wrong in this workflow
+export type ShipOrderError = NothingToShip | WidgetNotShippable | WidgetTooHeavy | CarrierBookingFailed;
+
+// ------------------------------------
+// the workflow itself
+
+export type ShipOrder = (i: OrderToShip) => TaskEither<ShipOrderError, ShipOrderEvent[]>;
@@ -0,0 +1,53 @@
+import * as ConstrainedType from '../order-taking/common-types/constrained-type';
+// lets declaration emit name the brand of the types defined below
+import type { constrained } from '../order-taking/common-types/constrained-type';
+
+// ===============================
+// Simple types and constrained types related to the Shipping domain.
+//
+// The Shipping context has its own language: it ships packages of widgets and gizmos,
+// and knows nothing about prices, taxes or customers. Orders are only known by their reference.
+// ===============================
+
+// The id of the order which is shipped, as given by the OrderTaking context
+export class OrderReference extends ConstrainedType.define('OrderReference', { type: 'string', maxLen: 50 }) {}
+
+// The codes for Widgets start with a "W" and then four digits
+export class WidgetCode extends ConstrainedType.define('ShippingWidgetCode', { type: 'string', pattern: /^W\d{4}$/ }) {}
+
+// The codes for Gizmos start with a "G" and then three digits.
+export class GizmoCode extends ConstrainedType.define('ShippingGizmoCode', { type: 'string', pattern: /^G\d{3}$/ }) {}
+
+// Widgets are packed by the unit. Constrained to be a integer between 1 and 1000
+export class UnitCount extends ConstrainedType.define('UnitCount', { type: 'number', min: 1, max: 1000, integer: true }) {}
+
+// Weights are whole grams, so that the weight of a parcel is exact
+export class Grams extends ConstrainedType.define('Grams', { type: 'number', min: 1, integer: true }) {}
+
+// The name to print on the label. Constrained to be a non-empty string <= 101 chars
+export class RecipientName extends ConstrainedType.define('RecipientName', { type: 'string', maxLen: 101 }) {}
+
+// A line of the delivery address. Constrained to be a non-empty string <= 50 chars
+export class AddressLine extends ConstrainedType.define('AddressLine', { type: 'string', maxLen: 50 }) {}
+
+// A zip code
+// Constrained to be 5 digits
+export class ZipCode extends ConstrainedType.define('ShippingZipCode', { type: 'string', pattern: /^\d{5}$/ }) {}
+
+// A note to put in the package, e.g. a gift message. Constrained to be a non-empty string <= 200 chars
+export class PackingNote extends ConstrainedType.define('PackingNote', { type: 'string', maxLen: 200 }) {}
+
+// The number given by the carrier to follow a shipment. Constrained to be a non-empty string <= 50 chars
+export class TrackingNumber extends ConstrainedType.define('TrackingNumber', { type: 'string', maxLen: 50 }) {}
+
+// The carriers which can be booked
+export const Postal = 'Postal' as const;
+export const Fedex = 'Fedex' as const;
+export const Ups = 'Ups' as const;
+export type Carrier = typeof Postal | typeof Fedex | typeof Ups;
+
+// How quickly the carrier delivers
+export const Economy = 'Economy' as const;
+export const NextDay = 'NextDay' as const;
+export const TwoDay = 'TwoDay' as const;
+export type ServiceLevel = typeof Economy | typeof NextDay | typeof TwoDay;